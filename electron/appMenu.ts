@@ -0,0 +1,90 @@
+import { Menu, type BaseWindow, type MenuItemConstructorOptions } from 'electron';
+import { getShortcutAccelerator, type ShortcutCommand } from './shortcuts';
+
+// The application menu. Its items run the same commands as the keyboard
+// shortcuts and show their current bindings, but leave matching keys to the
+// shortcut dispatcher, which also sees keys pressed inside pages.
+
+export type MenuCommandHandler = (command: ShortcutCommand, window: BaseWindow | undefined) => void;
+
+const isMac = process.platform === 'darwin';
+
+export function buildAppMenu(runCommand: MenuCommandHandler) {
+  const item = (command: ShortcutCommand, label: string): MenuItemConstructorOptions => ({
+    label,
+    accelerator: getShortcutAccelerator(command),
+    registerAccelerator: false,
+    click: (_item, window) => runCommand(command, window),
+  });
+
+  const template: MenuItemConstructorOptions[] = [
+    ...(isMac ? [{ role: 'appMenu' as const }] : []),
+    {
+      label: 'File',
+      submenu: [
+        item('newTab', 'New Tab'),
+        item('newWindow', 'New Window'),
+        item('newPrivateWindow', 'New Private Window'),
+        item('reopenClosedTab', 'Reopen Closed Tab'),
+        { type: 'separator' },
+        item('closeTab', 'Close Tab'),
+        isMac ? { role: 'close', label: 'Close Window' } : { role: 'quit' },
+      ],
+    },
+    {
+      label: 'Edit',
+      submenu: [
+        { role: 'undo' },
+        { role: 'redo' },
+        { type: 'separator' },
+        { role: 'cut' },
+        { role: 'copy' },
+        { role: 'paste' },
+        { role: 'selectAll' },
+        { type: 'separator' },
+        item('find', 'Find…'),
+      ],
+    },
+    {
+      label: 'View',
+      submenu: [
+        item('reload', 'Reload'),
+        item('focusAddressBar', 'Open Location…'),
+        { type: 'separator' },
+        item('zoomIn', 'Zoom In'),
+        item('zoomOut', 'Zoom Out'),
+        item('zoomReset', 'Actual Size'),
+        { type: 'separator' },
+        { role: 'togglefullscreen' },
+        { role: 'toggleDevTools' },
+      ],
+    },
+    {
+      label: 'History',
+      submenu: [
+        item('back', 'Back'),
+        item('forward', 'Forward'),
+        { type: 'separator' },
+        item('showHistory', 'Show All History'),
+      ],
+    },
+    {
+      label: 'Bookmarks',
+      submenu: [item('showBookmarks', 'Show All Bookmarks')],
+    },
+    {
+      label: 'Window',
+      submenu: [
+        { role: 'minimize' },
+        { type: 'separator' },
+        item('nextTab', 'Next Tab'),
+        item('previousTab', 'Previous Tab'),
+        { type: 'separator' },
+        item('showDownloads', 'Downloads'),
+        item('showSettings', 'Settings'),
+      ],
+    },
+  ];
+
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+}
@@ -0,0 +1,229 @@
+import { dialog, type Session, type WebContents } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { addFilterList, createFilterIndex, getHidingCss, shouldBlock } from './filterList';
+import { getSiteName } from './siteData';
+import { getStorePath, readJsonFile, writeJsonFile } from './store';
+
+// Ad and tracker blocking with filter lists imported from local files. The
+// lists are copied into userData, so they keep working offline and after the
+// originals move.
+
+export interface FilterListInfo {
+  id: string;
+  name: string;
+  filterCount: number;
+  importedAt: number;
+}
+
+export interface ImportFilterListsResult {
+  lists: FilterListInfo[];
+  // Files that had no filters we could use
+  rejected: string[];
+}
+
+// What the toolbar shows for a tab
+export interface ContentBlockerState {
+  tabId: string;
+  site: string | null;
+  enabled: boolean;
+  blockedCount: number;
+}
+
+interface SavedBlockerState {
+  lists: FilterListInfo[];
+  // Sites the user turned blocking off for
+  disabledSites: string[];
+}
+
+export interface BlockerHooks {
+  // Only requests from tabs are filtered, never the app's own windows
+  isTab: (contents: WebContents) => boolean;
+  onBlocked: (contents: WebContents) => void;
+}
+
+const STATE_FILE = 'content-blocker.json';
+const LISTS_FOLDER = 'filter-lists';
+
+let saved: SavedBlockerState = { lists: [], disabledSites: [] };
+let index = createFilterIndex();
+// Toggles made in private windows, dropped when the private session ends
+const privateSiteOverrides = new Map<string, boolean>();
+// Requests blocked on each tab's current page, keyed by web contents id
+const blockedCounts = new Map<number, number>();
+let hooks: BlockerHooks | null = null;
+
+function persistState() {
+  writeJsonFile(STATE_FILE, saved);
+}
+
+function getListPath(id: string): string {
+  return getStorePath(path.join(LISTS_FOLDER, `${id}.txt`));
+}
+
+function rebuildIndex() {
+  index = createFilterIndex();
+  for (const list of saved.lists) {
+    try {
+      addFilterList(index, fs.readFileSync(getListPath(list.id), 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to load filter list ${list.name}:`, error);
+    }
+  }
+}
+
+// The site blocking is toggled for, or null for pages that aren't on the web
+function getPageSite(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? getSiteName(hostname) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isBlockingEnabled(site: string, isPrivate: boolean): boolean {
+  const override = isPrivate ? privateSiteOverrides.get(site) : undefined;
+  return override ?? !saved.disabledSites.includes(site);
+}
+
+export function setSiteBlocking(site: string, enabled: boolean, isPrivate: boolean) {
+  if (isPrivate) {
+    privateSiteOverrides.set(site, enabled);
+    return;
+  }
+  saved.disabledSites = saved.disabledSites.filter((s) => s !== site);
+  if (!enabled) saved.disabledSites.push(site);
+  persistState();
+}
+
+export function getDisabledSites(): string[] {
+  return [...saved.disabledSites].sort();
+}
+
+export function getBlockerState(tabId: string, contents: WebContents, isPrivate: boolean): ContentBlockerState {
+  const site = getPageSite(contents.getURL());
+  return {
+    tabId,
+    site,
+    enabled: site !== null && isBlockingEnabled(site, isPrivate),
+    blockedCount: blockedCounts.get(contents.id) ?? 0,
+  };
+}
+
+// A new page starts counting from zero
+export function resetBlockedCount(contents: WebContents) {
+  blockedCounts.delete(contents.id);
+}
+
+function countBlocked(contents: WebContents) {
+  const count = blockedCounts.get(contents.id);
+  if (count === undefined) {
+    contents.once('destroyed', () => blockedCounts.delete(contents.id));
+  }
+  blockedCounts.set(contents.id, (count ?? 0) + 1);
+  hooks?.onBlocked(contents);
+}
+
+// Element hiding CSS for a page, or null when there's nothing to hide
+export function getPageHidingCss(url: string, isPrivate: boolean): string | null {
+  const site = getPageSite(url);
+  if (!site || !isBlockingEnabled(site, isPrivate) || index.hiding.length === 0) return null;
+  return getHidingCss(index, new URL(url).hostname) || null;
+}
+
+export function initContentBlocker(blockerHooks: BlockerHooks) {
+  hooks = blockerHooks;
+  saved = { ...saved, ...readJsonFile<Partial<SavedBlockerState>>(STATE_FILE, {}) };
+  rebuildIndex();
+}
+
+export function watchSessionBlocking(ses: Session, isPrivate: boolean) {
+  ses.webRequest.onBeforeRequest((details, callback) => {
+    const contents = details.webContents;
+    // Pages themselves always load; blocking is for what they pull in
+    if (
+      index.filterCount === 0
+      || details.resourceType === 'mainFrame'
+      || !contents
+      || !hooks?.isTab(contents)
+    ) {
+      callback({});
+      return;
+    }
+
+    const pageUrl = contents.getURL();
+    const site = getPageSite(pageUrl);
+    if (!site || !isBlockingEnabled(site, isPrivate)) {
+      callback({});
+      return;
+    }
+
+    const blocked = shouldBlock(index, {
+      url: details.url,
+      pageHost: new URL(pageUrl).hostname,
+      resourceType: details.resourceType,
+    });
+    if (blocked) countBlocked(contents);
+    callback({ cancel: blocked });
+  });
+}
+
+export function getFilterLists(): FilterListInfo[] {
+  return saved.lists;
+}
+
+// Lists usually name themselves in a "! Title:" header
+function getListName(text: string, filePath: string): string {
+  const title = text.match(/^!\s*Title:\s*(.+)$/m);
+  return title ? title[1].trim() : path.basename(filePath, path.extname(filePath));
+}
+
+export async function importFilterLists(): Promise<ImportFilterListsResult | null> {
+  const result = await dialog.showOpenDialog({
+    title: 'Import Filter Lists',
+    properties: ['openFile', 'multiSelections'],
+    filters: [
+      { name: 'Filter lists', extensions: ['txt'] },
+      { name: 'All files', extensions: ['*'] },
+    ],
+  });
+  if (result.canceled) return null;
+
+  const rejected: string[] = [];
+  fs.mkdirSync(getStorePath(LISTS_FOLDER), { recursive: true });
+
+  for (const filePath of result.filePaths) {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    const filterCount = addFilterList(index, text);
+    if (filterCount === 0) {
+      rejected.push(path.basename(filePath));
+      continue;
+    }
+
+    const list: FilterListInfo = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: getListName(text, filePath),
+      filterCount,
+      importedAt: Date.now(),
+    };
+    fs.writeFileSync(getListPath(list.id), text);
+    saved.lists = [...saved.lists, list];
+  }
+
+  persistState();
+  return { lists: saved.lists, rejected };
+}
+
+export function removeFilterList(id: string): FilterListInfo[] {
+  saved.lists = saved.lists.filter((list) => list.id !== id);
+  fs.rmSync(getListPath(id), { force: true });
+  persistState();
+  rebuildIndex();
+  return saved.lists;
+}
+
+// Called when the last private window closes
+export function forgetPrivateBlocking() {
+  privateSiteOverrides.clear();
+}
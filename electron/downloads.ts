@@ -0,0 +1,237 @@
+import { app, dialog, shell, type DownloadItem, type Session } from 'electron';
+import fs from 'fs';
+import path from 'path';
+import { readJsonFile, writeJsonFile } from './store';
+
+export type DownloadState = 'progressing' | 'paused' | 'completed' | 'cancelled' | 'interrupted';
+
+export interface DownloadRecord {
+  id: string;
+  url: string;
+  filename: string;
+  savePath: string;
+  mimeType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  state: DownloadState;
+  failureReason?: string;
+  startTime: number;
+  endTime?: number;
+  // Started from a private window: listed until the private session ends,
+  // but never written to disk
+  isPrivate?: boolean;
+}
+
+export interface DownloadPreferences {
+  downloadFolder: string;
+  alwaysAsk: boolean;
+}
+
+const DOWNLOADS_FILE = 'downloads.json';
+const PREFERENCES_FILE = 'download-preferences.json';
+
+// Finished downloads beyond this are dropped from the list, oldest first
+const MAX_RECORDS = 200;
+
+let records: DownloadRecord[] = [];
+const activeItems = new Map<string, DownloadItem>();
+let notify: (record: DownloadRecord) => void = () => {};
+
+function persistRecords() {
+  writeJsonFile(DOWNLOADS_FILE, records.filter((r) => !r.isPrivate).slice(0, MAX_RECORDS));
+}
+
+export function getDownloadPreferences(): DownloadPreferences {
+  return {
+    downloadFolder: app.getPath('downloads'),
+    alwaysAsk: false,
+    ...readJsonFile<Partial<DownloadPreferences>>(PREFERENCES_FILE, {}),
+  };
+}
+
+export function setDownloadPreferences(preferences: Partial<DownloadPreferences>): DownloadPreferences {
+  const updated = { ...getDownloadPreferences(), ...preferences };
+  writeJsonFile(PREFERENCES_FILE, updated);
+  return updated;
+}
+
+// "report.pdf" becomes "report (1).pdf" if the folder already has one
+function getUniqueSavePath(folder: string, filename: string): string {
+  const { name, ext } = path.parse(filename);
+  let candidate = path.join(folder, filename);
+  for (let i = 1; fs.existsSync(candidate); i++) {
+    candidate = path.join(folder, `${name} (${i})${ext}`);
+  }
+  return candidate;
+}
+
+function updateRecord(id: string, updates: Partial<DownloadRecord>) {
+  const record = records.find((r) => r.id === id);
+  if (!record) return;
+  Object.assign(record, updates);
+  notify(record);
+}
+
+function trackDownload(item: DownloadItem, isPrivate: boolean) {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const preferences = getDownloadPreferences();
+
+  if (preferences.alwaysAsk) {
+    // Leaving the save path unset makes Electron show a save dialog
+    item.setSaveDialogOptions({
+      defaultPath: path.join(preferences.downloadFolder, item.getFilename()),
+    });
+  } else {
+    fs.mkdirSync(preferences.downloadFolder, { recursive: true });
+    item.setSavePath(getUniqueSavePath(preferences.downloadFolder, item.getFilename()));
+  }
+
+  const record: DownloadRecord = {
+    id,
+    url: item.getURL(),
+    filename: item.getFilename(),
+    savePath: item.getSavePath(),
+    mimeType: item.getMimeType(),
+    totalBytes: item.getTotalBytes(),
+    receivedBytes: 0,
+    state: 'progressing',
+    startTime: Date.now(),
+    isPrivate: isPrivate || undefined,
+  };
+  records.unshift(record);
+  activeItems.set(id, item);
+  notify(record);
+
+  item.on('updated', (_event, state) => {
+    const savePath = item.getSavePath();
+    updateRecord(id, {
+      savePath,
+      filename: savePath ? path.basename(savePath) : item.getFilename(),
+      totalBytes: item.getTotalBytes(),
+      receivedBytes: item.getReceivedBytes(),
+      state: state === 'interrupted' ? 'interrupted' : item.isPaused() ? 'paused' : 'progressing',
+      failureReason: state === 'interrupted' ? 'Connection lost — resume to try again' : undefined,
+    });
+  });
+
+  item.once('done', (_event, state) => {
+    activeItems.delete(id);
+    const savePath = item.getSavePath();
+    updateRecord(id, {
+      savePath,
+      filename: savePath ? path.basename(savePath) : item.getFilename(),
+      receivedBytes: item.getReceivedBytes(),
+      state,
+      failureReason: state === 'interrupted' ? 'Download failed (network or disk error)' : undefined,
+      endTime: Date.now(),
+    });
+    persistRecords();
+  });
+
+  persistRecords();
+}
+
+export function initDownloads(onUpdate: (record: DownloadRecord) => void) {
+  notify = onUpdate;
+
+  // Anything still running when the app last quit can't be picked up again
+  records = readJsonFile<DownloadRecord[]>(DOWNLOADS_FILE, []).map((record) =>
+    record.state === 'progressing' || record.state === 'paused'
+      ? {
+          ...record,
+          state: 'interrupted',
+          failureReason: 'Cookie Browser closed before it finished',
+          endTime: Date.now(),
+        }
+      : record
+  );
+}
+
+// Track every download started by pages using this session
+export function watchSessionDownloads(ses: Session, isPrivate: boolean) {
+  ses.on('will-download', (_event, item) => {
+    trackDownload(item, isPrivate);
+  });
+}
+
+// Private windows only see private downloads, and normal windows only normal ones
+export function getDownloads(isPrivate: boolean): DownloadRecord[] {
+  return records.filter((r) => Boolean(r.isPrivate) === isPrivate);
+}
+
+// Called when the last private window closes
+export function forgetPrivateDownloads() {
+  for (const record of records) {
+    if (record.isPrivate) {
+      activeItems.get(record.id)?.cancel();
+    }
+  }
+  records = records.filter((r) => !r.isPrivate);
+}
+
+export function pauseDownload(id: string): boolean {
+  const item = activeItems.get(id);
+  if (!item || item.isPaused()) return false;
+  item.pause();
+  updateRecord(id, { state: 'paused' });
+  return true;
+}
+
+export function resumeDownload(id: string): boolean {
+  const item = activeItems.get(id);
+  if (!item || !item.canResume()) return false;
+  item.resume();
+  updateRecord(id, { state: 'progressing', failureReason: undefined });
+  return true;
+}
+
+export function cancelDownload(id: string): boolean {
+  const item = activeItems.get(id);
+  if (!item) return false;
+  item.cancel();
+  return true;
+}
+
+// Finished downloads start over from scratch; the new attempt replaces the
+// old entry in the list
+export function retryDownload(ses: Session, id: string): boolean {
+  const record = records.find((r) => r.id === id);
+  if (!record || activeItems.has(id)) return false;
+  records = records.filter((r) => r.id !== id);
+  ses.downloadURL(record.url);
+  return true;
+}
+
+export function removeDownload(id: string) {
+  cancelDownload(id);
+  records = records.filter((r) => r.id !== id);
+  persistRecords();
+}
+
+export function clearFinishedDownloads(isPrivate: boolean) {
+  records = records.filter((r) => activeItems.has(r.id) || Boolean(r.isPrivate) !== isPrivate);
+  persistRecords();
+}
+
+export async function openDownload(id: string): Promise<boolean> {
+  const record = records.find((r) => r.id === id);
+  if (!record || record.state !== 'completed') return false;
+  const error = await shell.openPath(record.savePath);
+  return error === '';
+}
+
+export function showDownloadInFolder(id: string): boolean {
+  const record = records.find((r) => r.id === id);
+  if (!record || !fs.existsSync(record.savePath)) return false;
+  shell.showItemInFolder(record.savePath);
+  return true;
+}
+
+export async function chooseDownloadFolder(): Promise<DownloadPreferences | null> {
+  const result = await dialog.showOpenDialog({
+    defaultPath: getDownloadPreferences().downloadFolder,
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  return setDownloadPreferences({ downloadFolder: result.filePaths[0] });
+}
@@ -0,0 +1,198 @@
+import type { Session } from 'electron';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getStorePath, readJsonFile, writeJsonFile } from './store';
+
+// Site icons, fetched by the main process when a page announces them and
+// cached on disk by page origin. Renderers get them as data URLs. Icons seen
+// in private windows are only held in memory.
+
+export interface FaviconUpdate {
+  origin: string;
+  favicon: string;
+}
+
+interface FaviconEntry {
+  iconUrl: string;
+  file: string;
+  mimeType: string;
+  updatedAt: number;
+}
+
+interface PrivateFavicon {
+  iconUrl: string;
+  dataUrl: string;
+}
+
+const INDEX_FILE = 'favicons.json';
+const FAVICONS_FOLDER = 'favicons';
+
+// Anything bigger isn't really an icon
+const MAX_ICON_BYTES = 512 * 1024;
+// Sites change their icons now and then, so cached ones get fetched again
+const REFRESH_AFTER = 7 * 24 * 60 * 60 * 1000;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'image/svg+xml': 'svg',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+let index: Record<string, FaviconEntry> = {};
+// Data URLs of icons read from disk so far
+const dataUrls = new Map<string, string>();
+const privateFavicons = new Map<string, PrivateFavicon>();
+// Origins with a fetch underway, prefixed by the kind of window
+const fetching = new Set<string>();
+let notify: (update: FaviconUpdate, isPrivate: boolean) => void = () => {};
+
+// Only web pages have icons worth keeping
+export function getPageOrigin(url: string): string | null {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function getIconPath(file: string): string {
+  return getStorePath(path.join(FAVICONS_FOLDER, file));
+}
+
+export function initFavicons(onUpdate: (update: FaviconUpdate, isPrivate: boolean) => void) {
+  notify = onUpdate;
+  index = readJsonFile<Record<string, FaviconEntry>>(INDEX_FILE, {});
+
+  // Older versions could give two origins the same file, so neither can
+  // tell whose icon it holds. Both fetch theirs again.
+  const counts = new Map<string, number>();
+  for (const entry of Object.values(index)) {
+    counts.set(entry.file, (counts.get(entry.file) ?? 0) + 1);
+  }
+  for (const [origin, entry] of Object.entries(index)) {
+    if ((counts.get(entry.file) ?? 0) < 2) continue;
+    delete index[origin];
+    fs.rmSync(getIconPath(entry.file), { force: true });
+  }
+}
+
+export function getFavicon(origin: string, isPrivate: boolean): string | null {
+  const privateFavicon = isPrivate ? privateFavicons.get(origin) : undefined;
+  if (privateFavicon) return privateFavicon.dataUrl;
+
+  const cached = dataUrls.get(origin);
+  if (cached) return cached;
+
+  const entry = index[origin];
+  if (!entry) return null;
+  try {
+    const data = fs.readFileSync(getIconPath(entry.file));
+    const dataUrl = `data:${entry.mimeType};base64,${data.toString('base64')}`;
+    dataUrls.set(origin, dataUrl);
+    return dataUrl;
+  } catch {
+    // The file went missing; fetch it again next time the site is visited
+    delete index[origin];
+    return null;
+  }
+}
+
+export function getFavicons(origins: string[], isPrivate: boolean): Record<string, string> {
+  const favicons: Record<string, string> = {};
+  for (const origin of origins) {
+    const favicon = getFavicon(origin, isPrivate);
+    if (favicon) favicons[origin] = favicon;
+  }
+  return favicons;
+}
+
+async function downloadIcon(ses: Session, iconUrl: string): Promise<{ data: Buffer; mimeType: string } | null> {
+  const inline = iconUrl.match(/^data:(image\/[\w+.-]+);base64,(.+)$/);
+  if (inline) {
+    return { data: Buffer.from(inline[2], 'base64'), mimeType: inline[1] };
+  }
+  if (!/^https?:\/\//i.test(iconUrl)) return null;
+
+  // Fetch through the page's own session, so private windows stay private
+  const response = await ses.fetch(iconUrl);
+  if (!response.ok) return null;
+  const mimeType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase() ?? '';
+  if (!mimeType.startsWith('image/')) return null;
+  return { data: Buffer.from(await response.arrayBuffer()), mimeType };
+}
+
+// Files are named by a hash of the origin, which no two origins share
+function getIconFile(origin: string, mimeType: string): string {
+  const hash = createHash('sha256').update(origin).digest('hex');
+  return `${hash}.${EXTENSIONS[mimeType] ?? 'img'}`;
+}
+
+function saveIcon(origin: string, iconUrl: string, data: Buffer, mimeType: string): string {
+  const previous = index[origin];
+  const file = getIconFile(origin, mimeType);
+
+  fs.mkdirSync(getStorePath(FAVICONS_FOLDER), { recursive: true });
+  fs.writeFileSync(getIconPath(file), data);
+  index[origin] = { iconUrl, file, mimeType, updatedAt: Date.now() };
+  if (previous && previous.file !== file) {
+    fs.rmSync(getIconPath(previous.file), { force: true });
+  }
+
+  writeJsonFile(INDEX_FILE, index);
+
+  const dataUrl = `data:${mimeType};base64,${data.toString('base64')}`;
+  dataUrls.set(origin, dataUrl);
+  return dataUrl;
+}
+
+// Pages list their icons (best first) once they've parsed their head
+export async function updateFavicon(pageUrl: string, iconUrls: string[], ses: Session, isPrivate: boolean) {
+  const origin = getPageOrigin(pageUrl);
+  const iconUrl = iconUrls[0];
+  if (!origin || !iconUrl) return;
+
+  const entry = index[origin];
+  const isFresh = isPrivate
+    ? privateFavicons.get(origin)?.iconUrl === iconUrl
+    : entry?.iconUrl === iconUrl && Date.now() - entry.updatedAt < REFRESH_AFTER;
+  if (isFresh) {
+    const favicon = getFavicon(origin, isPrivate);
+    if (favicon) {
+      notify({ origin, favicon }, isPrivate);
+      return;
+    }
+  }
+
+  const key = `${isPrivate ? 'private' : 'normal'} ${origin}`;
+  if (fetching.has(key)) return;
+  fetching.add(key);
+
+  try {
+    const icon = await downloadIcon(ses, iconUrl);
+    if (!icon || icon.data.length === 0 || icon.data.length > MAX_ICON_BYTES) return;
+
+    let favicon: string;
+    if (isPrivate) {
+      favicon = `data:${icon.mimeType};base64,${icon.data.toString('base64')}`;
+      privateFavicons.set(origin, { iconUrl, dataUrl: favicon });
+    } else {
+      favicon = saveIcon(origin, iconUrl, icon.data, icon.mimeType);
+    }
+    notify({ origin, favicon }, isPrivate);
+  } catch (error) {
+    console.error(`Failed to fetch the icon for ${origin}:`, error);
+  } finally {
+    fetching.delete(key);
+  }
+}
+
+// Called when the last private window closes
+export function forgetPrivateFavicons() {
+  privateFavicons.clear();
+}
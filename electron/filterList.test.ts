@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { addFilterList, createFilterIndex, getHidingCss, shouldBlock, type FilterRequest } from './filterList';
+
+const buildIndex = (...filters: string[]) => {
+  const index = createFilterIndex();
+  addFilterList(index, filters.join('\n'));
+  return index;
+};
+
+const request = (url: string, pageHost = 'example.com', resourceType = 'script'): FilterRequest => ({
+  url,
+  pageHost,
+  resourceType,
+});
+
+describe('addFilterList', () => {
+  it('counts the filters it adds, skipping comments and headers', () => {
+    const index = createFilterIndex();
+    expect(addFilterList(index, '[Adblock Plus 2.0]\n! Title: Test\n||ads.com^\n\n##.ad')).toBe(2);
+    expect(index.filterCount).toBe(2);
+  });
+
+  it('skips filters with options it cannot honor', () => {
+    const index = buildIndex('||ads.com^$redirect=noop.js', '||ads.com^$csp=script-src none', '*', '$script');
+    expect(index.filterCount).toBe(0);
+    expect(shouldBlock(index, request('https://ads.com/a.js'))).toBe(false);
+  });
+
+  it('skips scriptlets and extended selectors', () => {
+    const index = buildIndex('example.com##+js(abort-on-property-read, ads)', 'example.com#?#div:-abp-has(.ad)', '##div:has-text(Sponsored)');
+    expect(index.filterCount).toBe(0);
+  });
+});
+
+describe('shouldBlock', () => {
+  it('anchors || to the host and its subdomains', () => {
+    const index = buildIndex('||ads.com^');
+    expect(shouldBlock(index, request('https://ads.com/banner.js'))).toBe(true);
+    expect(shouldBlock(index, request('http://cdn.ads.com/banner.js'))).toBe(true);
+    expect(shouldBlock(index, request('https://badads.com/banner.js'))).toBe(false);
+    expect(shouldBlock(index, request('https://example.com/?ref=ads.com'))).toBe(false);
+  });
+
+  it('anchors | to the start and end of the URL', () => {
+    const index = buildIndex('|https://tracker.', 'swf|');
+    expect(shouldBlock(index, request('https://tracker.net/t.js'))).toBe(true);
+    expect(shouldBlock(index, request('https://example.com/https://tracker.net'))).toBe(false);
+    expect(shouldBlock(index, request('https://example.com/movie.swf', 'example.com', 'object'))).toBe(true);
+    expect(shouldBlock(index, request('https://example.com/movie.swf?x=1', 'example.com', 'object'))).toBe(false);
+  });
+
+  it('matches ^ against separators and the end of the URL, but not within a host', () => {
+    const index = buildIndex('||ads.com^');
+    expect(shouldBlock(index, request('https://ads.com'))).toBe(true);
+    expect(shouldBlock(index, request('https://ads.com:8080/x'))).toBe(true);
+    expect(shouldBlock(index, request('https://ads.com.example.org/x'))).toBe(false);
+  });
+
+  it('matches * against anything', () => {
+    const index = buildIndex('/banner/*/img^');
+    expect(shouldBlock(index, request('https://example.com/banner/foo/img?size=1', 'example.com', 'image'))).toBe(true);
+    expect(shouldBlock(index, request('https://example.com/banner/img', 'example.com', 'image'))).toBe(false);
+  });
+
+  it('supports regular expression filters', () => {
+    const index = buildIndex('/\\/ad[0-9]+\\.js$/');
+    expect(shouldBlock(index, request('https://example.com/ad42.js'))).toBe(true);
+    expect(shouldBlock(index, request('https://example.com/add.js'))).toBe(false);
+  });
+
+  it('limits $third-party and ~third-party filters by who makes the request', () => {
+    const index = buildIndex('||tracker.com^$third-party', '||example.com/self-ad^$~third-party');
+    expect(shouldBlock(index, request('https://tracker.com/t.js', 'news.com'))).toBe(true);
+    expect(shouldBlock(index, request('https://tracker.com/t.js', 'tracker.com'))).toBe(false);
+    expect(shouldBlock(index, request('https://cdn.tracker.com/t.js', 'www.tracker.com'))).toBe(false);
+    expect(shouldBlock(index, request('https://example.com/self-ad/1.js', 'www.example.com'))).toBe(true);
+    expect(shouldBlock(index, request('https://example.com/self-ad/1.js', 'news.com'))).toBe(false);
+  });
+
+  it('compares parties by registrable domain on co.uk-style hosts', () => {
+    const index = buildIndex('||co.uk^$third-party');
+    // Both are on bbc.co.uk
+    expect(shouldBlock(index, request('https://static.bbc.co.uk/a.js', 'www.bbc.co.uk'))).toBe(false);
+    // Two different sites that only share the co.uk suffix
+    expect(shouldBlock(index, request('https://static.shop.co.uk/a.js', 'www.bbc.co.uk'))).toBe(true);
+  });
+
+  it('limits $domain= filters to the pages listed, minus the excluded ones', () => {
+    const index = buildIndex('||cdn.net/ads^$domain=news.com|blog.org|~shop.blog.org');
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'news.com'))).toBe(true);
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'www.blog.org'))).toBe(true);
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'shop.blog.org'))).toBe(false);
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'example.com'))).toBe(false);
+  });
+
+  it('applies $domain= exclusions on their own to every other page', () => {
+    const index = buildIndex('||cdn.net/ads^$domain=~news.com');
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'example.com'))).toBe(true);
+    expect(shouldBlock(index, request('https://cdn.net/ads/1.js', 'news.com'))).toBe(false);
+  });
+
+  it('limits filters to the resource types in their options', () => {
+    const index = buildIndex('||cdn.net/media^$image,subdocument', '||cdn.net/scripts^$~script');
+    expect(shouldBlock(index, request('https://cdn.net/media/1', 'example.com', 'image'))).toBe(true);
+    expect(shouldBlock(index, request('https://cdn.net/media/1', 'example.com', 'subFrame'))).toBe(true);
+    expect(shouldBlock(index, request('https://cdn.net/media/1', 'example.com', 'script'))).toBe(false);
+    expect(shouldBlock(index, request('https://cdn.net/scripts/1', 'example.com', 'script'))).toBe(false);
+    expect(shouldBlock(index, request('https://cdn.net/scripts/1', 'example.com', 'xhr'))).toBe(true);
+    // Types Electron names differently, or not at all
+    expect(buildIndex('||cdn.net^$xmlhttprequest').filterCount).toBe(1);
+    expect(shouldBlock(buildIndex('||cdn.net^$xmlhttprequest'), request('https://cdn.net/api', 'example.com', 'xhr'))).toBe(true);
+    expect(shouldBlock(buildIndex('||cdn.net^$other'), request('https://cdn.net/x', 'example.com', 'cspReport'))).toBe(true);
+  });
+
+  it('lets @@ exceptions override blocking filters', () => {
+    const index = buildIndex('||ads.com^', '@@||ads.com/allowed^', '@@||ads.com/framed^$domain=partner.com');
+    expect(shouldBlock(index, request('https://ads.com/banner.js'))).toBe(true);
+    expect(shouldBlock(index, request('https://ads.com/allowed/banner.js'))).toBe(false);
+    expect(shouldBlock(index, request('https://ads.com/framed/1.js', 'partner.com'))).toBe(false);
+    expect(shouldBlock(index, request('https://ads.com/framed/1.js', 'example.com'))).toBe(true);
+  });
+
+  it('ignores case unless $match-case is given', () => {
+    expect(shouldBlock(buildIndex('/Banner.'), request('https://example.com/banner.png'))).toBe(true);
+    expect(shouldBlock(buildIndex('/Banner.$match-case'), request('https://example.com/banner.png'))).toBe(false);
+  });
+
+  it('still matches when the longest word of a filter sits next to * or an anchor', () => {
+    // Indexed by a shorter word, or by none, since these could be part of
+    // longer words in the URL
+    expect(shouldBlock(buildIndex('||trackingpixel*/px'), request('https://trackingpixelserver.net/px.gif'))).toBe(true);
+    expect(shouldBlock(buildIndex('*advertisement/x'), request('https://example.com/myadvertisement/x'))).toBe(true);
+    expect(shouldBlock(buildIndex('ads/banner'), request('https://example.com/myads/bannerlarge.png'))).toBe(true);
+    expect(shouldBlock(buildIndex('||ads.example^'), request('https://ads.example/x'))).toBe(true);
+    expect(shouldBlock(buildIndex('|https://adserver'), request('https://adserver.net/x'))).toBe(true);
+    expect(shouldBlock(buildIndex('/adframe|'), request('https://example.com/adframe'))).toBe(true);
+  });
+
+  it('does not block URLs it cannot parse', () => {
+    expect(shouldBlock(buildIndex('*ads*'), request('not a url'))).toBe(false);
+  });
+});
+
+describe('getHidingCss', () => {
+  it('hides generic selectors everywhere and domain selectors on their domains', () => {
+    const index = buildIndex('##.ad-banner', 'news.com,blog.org##.sponsored', '~shop.com##.promo');
+    expect(getHidingCss(index, 'example.com')).toBe(
+      '.ad-banner { display: none !important; }\n.promo { display: none !important; }'
+    );
+    expect(getHidingCss(index, 'www.news.com')).toContain('.sponsored { display: none !important; }');
+    expect(getHidingCss(index, 'shop.com')).not.toContain('.promo');
+  });
+
+  it('lets #@# exceptions unhide selectors on their domains', () => {
+    const index = buildIndex('##.ad-banner', 'news.com#@#.ad-banner');
+    expect(getHidingCss(index, 'news.com')).toBe('');
+    expect(getHidingCss(index, 'example.com')).toBe('.ad-banner { display: none !important; }');
+  });
+
+  it('counts hiding rules and exceptions as filters', () => {
+    expect(buildIndex('##.ad', 'news.com#@#.ad').filterCount).toBe(2);
+  });
+});
@@ -0,0 +1,339 @@
+// Parser and matcher for Adblock Plus filter lists (EasyList and friends).
+// Supports network filters with "||" / "|" anchors, "*" and "^", the
+// $third-party, $domain= and resource type options, "@@" exceptions, and
+// element hiding rules ("##" and "#@#"). Filters using anything else are
+// skipped rather than guessed at.
+
+// The request being checked, in the terms filters are written in
+export interface FilterRequest {
+  url: string;
+  // Host of the page the request is made from
+  pageHost: string;
+  resourceType: string;
+}
+
+interface NetworkFilter {
+  regex: RegExp;
+  isException: boolean;
+  // true for $third-party, false for ~third-party, unset for either
+  thirdParty?: boolean;
+  includeDomains: string[];
+  excludeDomains: string[];
+  // Resource types from the options; empty means any
+  resourceTypes: string[];
+  excludedResourceTypes: string[];
+}
+
+interface HidingRule {
+  selector: string;
+  isException: boolean;
+  includeDomains: string[];
+  excludeDomains: string[];
+}
+
+export interface FilterIndex {
+  // Network filters keyed by a token any URL they match must contain, so a
+  // request only gets tested against filters that could apply
+  blocking: Map<string, NetworkFilter[]>;
+  exceptions: Map<string, NetworkFilter[]>;
+  hiding: HidingRule[];
+  filterCount: number;
+}
+
+// Filters without a usable token go here
+const ANY_TOKEN = '';
+
+const RESOURCE_TYPES = new Set([
+  'script', 'image', 'stylesheet', 'object', 'xmlhttprequest', 'subdocument',
+  'media', 'font', 'websocket', 'ping', 'other',
+]);
+
+// Electron's webRequest resource types, in filter list terms
+const ELECTRON_RESOURCE_TYPES: Record<string, string> = {
+  subFrame: 'subdocument',
+  stylesheet: 'stylesheet',
+  script: 'script',
+  image: 'image',
+  font: 'font',
+  object: 'object',
+  xhr: 'xmlhttprequest',
+  ping: 'ping',
+  media: 'media',
+  webSocket: 'websocket',
+};
+
+// Extended selectors only some blockers understand, and uBlock Origin's
+// "##+js(...)" scriptlets; plain CSS can't apply them
+const UNSUPPORTED_SELECTOR = /^\+js\(|:-abp-|:has-text\(|:contains\(|:xpath\(|:matches-css|:upward\(|:remove\(|:style\(/;
+
+function toFilterResourceType(electronType: string): string {
+  return ELECTRON_RESOURCE_TYPES[electronType] ?? 'other';
+}
+
+function isHostOnDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+// The registrable part of a host, e.g. "news.example.co.uk" gives
+// "example.co.uk". A rough guess without the public suffix list, good
+// enough to tell first from third party.
+function getBaseDomain(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+  const [secondLevel, topLevel] = labels.slice(-2);
+  const isCountrySuffix = topLevel.length === 2
+    && ['co', 'com', 'org', 'net', 'gov', 'ac', 'edu'].includes(secondLevel);
+  return labels.slice(isCountrySuffix ? -3 : -2).join('.');
+}
+
+function appliesToDomain(rule: { includeDomains: string[]; excludeDomains: string[] }, host: string): boolean {
+  if (rule.excludeDomains.some((domain) => isHostOnDomain(host, domain))) return false;
+  return rule.includeDomains.length === 0 || rule.includeDomains.some((domain) => isHostOnDomain(host, domain));
+}
+
+function parseDomains(list: string, separator: string) {
+  const includeDomains: string[] = [];
+  const excludeDomains: string[] = [];
+  for (const entry of list.split(separator)) {
+    const domain = entry.trim().toLowerCase();
+    if (!domain) continue;
+    if (domain.startsWith('~')) {
+      excludeDomains.push(domain.slice(1));
+    } else {
+      includeDomains.push(domain);
+    }
+  }
+  return { includeDomains, excludeDomains };
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+?${}()|[\]\\/]/g, '\\$&');
+}
+
+// Turn a filter pattern into a regular expression over the whole URL
+function patternToRegex(pattern: string, matchCase: boolean): RegExp | null {
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    try {
+      return new RegExp(pattern.slice(1, -1), matchCase ? '' : 'i');
+    } catch {
+      return null;
+    }
+  }
+
+  let source = '';
+  let rest = pattern;
+  if (rest.startsWith('||')) {
+    // Scheme, then optionally any subdomains
+    source = '^[a-z][a-z0-9+.-]*:\\/+(?:[^\\/?#]*\\.)?';
+    rest = rest.slice(2);
+  } else if (rest.startsWith('|')) {
+    source = '^';
+    rest = rest.slice(1);
+  }
+
+  const endAnchored = rest.endsWith('|');
+  if (endAnchored) rest = rest.slice(0, -1);
+
+  for (const char of rest) {
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '^') {
+      // A separator: anything but a letter, digit or one of _-.%, or the end
+      source += '(?:[^\\w\\-.%]|$)';
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  if (endAnchored) source += '$';
+
+  return new RegExp(source, matchCase ? '' : 'i');
+}
+
+// The longest run of letters and digits that any matching URL must contain
+// as a whole token
+function getFilterToken(pattern: string): string {
+  if (pattern.startsWith('/') && pattern.endsWith('/')) return ANY_TOKEN;
+
+  const anchoredStart = pattern.startsWith('|');
+  const text = pattern.toLowerCase().replace(/^\|\|?/, '');
+  let best = ANY_TOKEN;
+
+  for (const match of text.matchAll(/[a-z0-9%]+/g)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    const before = start > 0 ? text[start - 1] : null;
+    const after = end < text.length ? text[end] : null;
+
+    // A token at either end could be part of a longer one in the URL,
+    // unless an anchor pins it down
+    if (before === '*' || (before === null && !anchoredStart)) continue;
+    if (after === '*' || after === null) continue;
+    if (match[0].length >= 3 && match[0].length > best.length) {
+      best = match[0];
+    }
+  }
+  return best;
+}
+
+function getUrlTokens(url: string): string[] {
+  return [...new Set(url.toLowerCase().match(/[a-z0-9%]{3,}/g) ?? []), ANY_TOKEN];
+}
+
+// A network filter, with the token it's indexed under
+function parseNetworkFilter(line: string): { filter: NetworkFilter; token: string } | null {
+  const isException = line.startsWith('@@');
+  let pattern = isException ? line.slice(2) : line;
+  let options: string[] = [];
+
+  const optionsStart = pattern.lastIndexOf('$');
+  if (optionsStart !== -1 && /^~?[\w-]+(=[^,]*)?(,~?[\w-]+(=[^,]*)?)*$/.test(pattern.slice(optionsStart + 1))) {
+    options = pattern.slice(optionsStart + 1).split(',');
+    pattern = pattern.slice(0, optionsStart);
+  }
+
+  const filter: Omit<NetworkFilter, 'regex'> = {
+    isException,
+    includeDomains: [],
+    excludeDomains: [],
+    resourceTypes: [],
+    excludedResourceTypes: [],
+  };
+  let matchCase = false;
+
+  for (const option of options) {
+    const [name, value] = option.split('=', 2);
+    const negated = name.startsWith('~');
+    const type = negated ? name.slice(1) : name;
+
+    if (type === 'third-party' || type === 'first-party') {
+      filter.thirdParty = (type === 'third-party') !== negated;
+    } else if (type === 'domain' && value) {
+      Object.assign(filter, parseDomains(value, '|'));
+    } else if (type === 'match-case') {
+      matchCase = true;
+    } else if (RESOURCE_TYPES.has(type)) {
+      (negated ? filter.excludedResourceTypes : filter.resourceTypes).push(type);
+    } else {
+      // Options we can't honor (like $redirect or $csp) change what a filter
+      // means, so leave the whole filter out
+      return null;
+    }
+  }
+
+  // A bare "*" or empty pattern would block everything
+  if (pattern === '' || pattern === '*') return null;
+
+  const regex = patternToRegex(pattern, matchCase);
+  return regex ? { filter: { ...filter, regex }, token: getFilterToken(pattern) } : null;
+}
+
+function parseHidingRule(line: string, separator: '##' | '#@#'): HidingRule | null {
+  const index = line.indexOf(separator);
+  const selector = line.slice(index + separator.length).trim();
+  if (!selector || UNSUPPORTED_SELECTOR.test(selector)) return null;
+
+  return {
+    selector,
+    isException: separator === '#@#',
+    ...parseDomains(line.slice(0, index), ','),
+  };
+}
+
+function addToIndex(index: Map<string, NetworkFilter[]>, token: string, filter: NetworkFilter) {
+  const bucket = index.get(token);
+  if (bucket) {
+    bucket.push(filter);
+  } else {
+    index.set(token, [filter]);
+  }
+}
+
+export function createFilterIndex(): FilterIndex {
+  return { blocking: new Map(), exceptions: new Map(), hiding: [], filterCount: 0 };
+}
+
+// Parse a filter list into an index, returning how many filters it added
+export function addFilterList(index: FilterIndex, text: string): number {
+  let added = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!') || line.startsWith('[')) continue;
+
+    if (line.includes('#@#')) {
+      const rule = parseHidingRule(line, '#@#');
+      if (rule) {
+        index.hiding.push(rule);
+        added++;
+      }
+    } else if (line.includes('##')) {
+      const rule = parseHidingRule(line, '##');
+      if (rule) {
+        index.hiding.push(rule);
+        added++;
+      }
+    } else if (!/#[?$@]*#/.test(line)) {
+      // Anything else with a "#...#" separator is a snippet or scriptlet
+      const parsed = parseNetworkFilter(line);
+      if (parsed) {
+        const { filter, token } = parsed;
+        addToIndex(filter.isException ? index.exceptions : index.blocking, token, filter);
+        added++;
+      }
+    }
+  }
+
+  index.filterCount += added;
+  return added;
+}
+
+function filterMatches(filter: NetworkFilter, request: FilterRequest, type: string, isThirdParty: boolean): boolean {
+  if (filter.thirdParty !== undefined && filter.thirdParty !== isThirdParty) return false;
+  if (filter.resourceTypes.length > 0 && !filter.resourceTypes.includes(type)) return false;
+  if (filter.excludedResourceTypes.includes(type)) return false;
+  if (!appliesToDomain(filter, request.pageHost)) return false;
+  return filter.regex.test(request.url);
+}
+
+function findMatch(index: Map<string, NetworkFilter[]>, tokens: string[], request: FilterRequest, type: string, isThirdParty: boolean) {
+  for (const token of tokens) {
+    const match = index.get(token)?.find((filter) => filterMatches(filter, request, type, isThirdParty));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+// Whether a blocking filter matches the request and no exception overrides it
+export function shouldBlock(index: FilterIndex, request: FilterRequest): boolean {
+  let requestHost: string;
+  try {
+    requestHost = new URL(request.url).hostname;
+  } catch {
+    return false;
+  }
+
+  const type = toFilterResourceType(request.resourceType);
+  const isThirdParty = getBaseDomain(requestHost) !== getBaseDomain(request.pageHost);
+  const tokens = getUrlTokens(request.url);
+
+  if (!findMatch(index.blocking, tokens, request, type, isThirdParty)) return false;
+  return !findMatch(index.exceptions, tokens, request, type, isThirdParty);
+}
+
+// The CSS that hides the elements the lists target on a page
+export function getHidingCss(index: FilterIndex, pageHost: string): string {
+  const hidden = new Set<string>();
+  const excepted = new Set<string>();
+
+  for (const rule of index.hiding) {
+    if (!appliesToDomain(rule, pageHost)) continue;
+    (rule.isException ? excepted : hidden).add(rule.selector);
+  }
+
+  // One rule per selector, so a selector the page's engine rejects only
+  // drops itself
+  return [...hidden]
+    .filter((selector) => !excepted.has(selector))
+    .map((selector) => `${selector} { display: none !important; }`)
+    .join('\n');
+}
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => paths.userData },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-06-01T12:00:00Z').getTime();
+
+// A fresh copy of history, loaded from disk as after a restart
+const loadHistory = async () => {
+  vi.resetModules();
+  const history = await import('./history');
+  history.initHistory();
+  return history;
+};
+
+beforeEach(() => {
+  paths.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'history-'));
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(paths.userData, { recursive: true, force: true });
+});
+
+describe('history', () => {
+  it('only records web pages', async () => {
+    const history = await loadHistory();
+    history.recordVisit('https://example.com/', 'Example', 'typed');
+    history.recordVisit('cookie://settings', 'Settings', 'typed');
+    history.recordVisit('file:///home/me/notes.txt', 'Notes', 'typed');
+    expect(history.queryHistory().map((record) => record.url)).toEqual(['https://example.com/']);
+  });
+
+  it('keeps the newest visits of a URL while counting every one', async () => {
+    const history = await loadHistory();
+    for (let i = 0; i < 150; i++) {
+      vi.setSystemTime(NOW + i * 1000);
+      history.recordVisit('https://example.com/', 'Example', i % 3 === 0 ? 'typed' : 'link');
+    }
+
+    const [record] = history.queryHistory();
+    expect(record.visits).toHaveLength(100);
+    expect(record.visits[0].visitedAt).toBe(NOW + 149 * 1000);
+    expect(record.visits[99].visitedAt).toBe(NOW + 50 * 1000);
+    expect(record.visitCount).toBe(150);
+    expect(record.typedCount).toBe(50);
+  });
+
+  it('drops visits older than the retention period when saving', async () => {
+    const history = await loadHistory();
+    history.setHistoryPreferences({ retentionDays: 30 });
+    history.importLegacyHistory([
+      { url: 'https://old.com/', title: 'Old', visitedAt: NOW - 31 * DAY },
+      { url: 'https://both.com/', title: 'Both', visitedAt: NOW - 40 * DAY },
+      { url: 'https://both.com/', title: 'Both', visitedAt: NOW - 29 * DAY },
+    ]);
+    await history.flushHistory();
+
+    expect(history.queryHistory().map((record) => record.url)).toEqual(['https://both.com/']);
+    expect(history.queryHistory()[0].visits.map((visit) => visit.visitedAt)).toEqual([NOW - 29 * DAY]);
+  });
+
+  it('keeps everything when retention is off', async () => {
+    const history = await loadHistory();
+    history.setHistoryPreferences({ retentionDays: 0 });
+    history.importLegacyHistory([{ url: 'https://old.com/', title: 'Old', visitedAt: NOW - 1000 * DAY }]);
+    await history.flushHistory();
+    expect(history.queryHistory()).toHaveLength(1);
+  });
+
+  it('prunes expired visits on startup', async () => {
+    let history = await loadHistory();
+    history.importLegacyHistory([{ url: 'https://a.com/', title: 'A', visitedAt: NOW - 80 * DAY }]);
+    await history.flushHistory();
+
+    vi.setSystemTime(NOW + 20 * DAY);
+    history = await loadHistory();
+    expect(history.queryHistory()).toEqual([]);
+  });
+
+  it('clears visits made since a point in time, and their counts', async () => {
+    const history = await loadHistory();
+    history.importLegacyHistory([
+      { url: 'https://kept.com/', title: 'Kept', visitedAt: NOW - 3 * DAY },
+      { url: 'https://mixed.com/', title: 'Mixed', visitedAt: NOW - 2 * DAY },
+      { url: 'https://mixed.com/', title: 'Mixed', visitedAt: NOW - DAY / 2 },
+      { url: 'https://gone.com/', title: 'Gone', visitedAt: NOW - DAY / 4 },
+    ]);
+
+    history.clearHistory(NOW - DAY);
+    await history.flushHistory();
+
+    const records = history.queryHistory();
+    expect(records.map((record) => record.url)).toEqual(['https://mixed.com/', 'https://kept.com/']);
+    expect(records[0]).toMatchObject({ visitCount: 1, lastVisitedAt: NOW - 2 * DAY });
+    expect(history.queryHistory({ text: 'gone' })).toEqual([]);
+  });
+
+  it('clears everything without a point in time', async () => {
+    let history = await loadHistory();
+    history.recordVisit('https://example.com/', 'Example', 'typed');
+    await history.flushHistory();
+    history.clearHistory();
+    await history.flushHistory();
+
+    history = await loadHistory();
+    expect(history.queryHistory()).toEqual([]);
+  });
+
+  it('returns visits a page at a time, newest first', async () => {
+    const history = await loadHistory();
+    history.importLegacyHistory(Array.from({ length: 5 }, (_, i) => ({
+      url: `https://site${i}.com/`,
+      title: `Site ${i}`,
+      visitedAt: NOW - i * 1000,
+    })));
+
+    const urls = (offset: number, limit: number) =>
+      history.getHistoryVisits({ offset, limit }).map((visit) => visit.url);
+    expect(urls(0, 2)).toEqual(['https://site0.com/', 'https://site1.com/']);
+    expect(urls(2, 2)).toEqual(['https://site2.com/', 'https://site3.com/']);
+    expect(urls(4, 2)).toEqual(['https://site4.com/']);
+  });
+
+  it('loads what it saved, through the journal or a rewritten snapshot', async () => {
+    let history = await loadHistory();
+    history.setHistoryPreferences({ retentionDays: 0 });
+    history.importLegacyHistory(Array.from({ length: 1500 }, (_, i) => ({
+      url: `https://site${i % 700}.com/`,
+      title: `Site ${i % 700}`,
+      visitedAt: NOW - i * 1000,
+    })));
+    history.removeHistoryUrl('https://site3.com/');
+    history.updateHistoryTitle('https://site4.com/', 'Renamed');
+    await history.flushHistory();
+    const saved = history.queryHistory();
+
+    history = await loadHistory();
+    expect(history.queryHistory()).toEqual(saved);
+    expect(history.queryHistory({ text: 'renamed' }).map((record) => record.url)).toEqual(['https://site4.com/']);
+
+    // More changes than records, so this save rewrites the snapshot
+    history.importLegacyHistory(Array.from({ length: 1500 }, (_, i) => ({
+      url: `https://site${i % 700}.com/`,
+      title: `Site ${i % 700}`,
+      visitedAt: NOW + i,
+    })));
+    await history.flushHistory();
+    const rewritten = history.queryHistory();
+    expect(fs.readFileSync(path.join(paths.userData, 'history-journal.jsonl'), 'utf-8')).toBe('');
+
+    history = await loadHistory();
+    expect(history.queryHistory()).toEqual(rewritten);
+  });
+});
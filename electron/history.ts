@@ -0,0 +1,397 @@
+import {
+  appendHistoryChanges,
+  loadHistoryRecords,
+  rewriteHistory,
+  shouldRewriteHistory,
+  whenHistoryWritten,
+} from './historyStore';
+import { readJsonFile, writeJsonFile } from './store';
+
+// Browsing history, kept by the main process since it sees every navigation.
+// There is one record per URL holding its visits, and a word index over
+// titles and URLs answers searches without scanning every record. Only
+// records that changed are written out; see historyStore. Private windows
+// never record anything.
+
+// How a visit came about
+export type VisitTransition = 'typed' | 'link' | 'reload' | 'back_forward';
+
+export interface HistoryVisit {
+  visitedAt: number;
+  transition: VisitTransition;
+}
+
+export interface HistoryRecord {
+  id: string;
+  url: string;
+  title: string;
+  // Newest first, capped at MAX_VISITS_PER_URL
+  visits: HistoryVisit[];
+  // Counts every visit ever made, including ones dropped from the list
+  visitCount: number;
+  typedCount: number;
+  lastVisitedAt: number;
+}
+
+// One visit, as the History page lists them
+export interface HistoryVisitEntry {
+  id: string;
+  url: string;
+  title: string;
+  visitedAt: number;
+  transition: VisitTransition;
+}
+
+export interface HistoryQuery {
+  // Every word must start a word of the title or URL
+  text?: string;
+  startTime?: number;
+  endTime?: number;
+  // Only pages on this host or its subdomains
+  host?: string;
+  // Most recent first, or most visited first
+  sort?: 'recent' | 'visits';
+  // Results to skip, then how many to return, for paging
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryPreferences {
+  // 0 keeps history forever
+  retentionDays: number;
+}
+
+// Identifies a single visit to delete
+export interface HistoryVisitKey {
+  url: string;
+  visitedAt: number;
+}
+
+// An entry from the old renderer-side history list
+export interface LegacyHistoryEntry {
+  title: string;
+  url: string;
+  visitedAt: number;
+}
+
+const PREFERENCES_FILE = 'history-preferences.json';
+
+const MAX_VISITS_PER_URL = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Navigations come in bursts, so writes wait for things to settle
+const SAVE_DELAY = 2000;
+
+// Records by URL
+const records = new Map<string, HistoryRecord>();
+// URLs by each word in their title or URL
+const wordIndex = new Map<string, Set<string>>();
+// What changed since the last save, by URL
+const changedUrls = new Set<string>();
+const removedUrls = new Set<string>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function getWords(record: Pick<HistoryRecord, 'url' | 'title'>): Set<string> {
+  return new Set(`${record.title} ${record.url}`.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function indexRecord(record: HistoryRecord) {
+  for (const word of getWords(record)) {
+    let urls = wordIndex.get(word);
+    if (!urls) {
+      urls = new Set();
+      wordIndex.set(word, urls);
+    }
+    urls.add(record.url);
+  }
+}
+
+function unindexRecord(record: HistoryRecord) {
+  for (const word of getWords(record)) {
+    const urls = wordIndex.get(word);
+    urls?.delete(record.url);
+    if (urls?.size === 0) wordIndex.delete(word);
+  }
+}
+
+export function getHistoryPreferences(): HistoryPreferences {
+  return {
+    retentionDays: 90,
+    ...readJsonFile<Partial<HistoryPreferences>>(PREFERENCES_FILE, {}),
+  };
+}
+
+export function setHistoryPreferences(preferences: Partial<HistoryPreferences>): HistoryPreferences {
+  const updated = { ...getHistoryPreferences(), ...preferences };
+  writeJsonFile(PREFERENCES_FILE, updated);
+  pruneExpired();
+  scheduleSave();
+  return updated;
+}
+
+// Drop visits older than the retention period, and URLs left without any
+function pruneExpired() {
+  const { retentionDays } = getHistoryPreferences();
+  if (retentionDays <= 0) return;
+
+  const cutoff = Date.now() - retentionDays * DAY;
+  for (const record of records.values()) {
+    if (record.lastVisitedAt < cutoff) {
+      removeRecord(record);
+    } else if (record.visits.some((visit) => visit.visitedAt < cutoff)) {
+      record.visits = record.visits.filter((visit) => visit.visitedAt >= cutoff);
+      changedUrls.add(record.url);
+    }
+  }
+}
+
+function removeRecord(record: HistoryRecord) {
+  unindexRecord(record);
+  records.delete(record.url);
+  changedUrls.delete(record.url);
+  removedUrls.add(record.url);
+}
+
+function saveNow(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  pruneExpired();
+
+  // A URL removed and visited again since the last save is just changed
+  const changed = [...changedUrls].flatMap((url) => records.get(url) ?? []);
+  const removed = [...removedUrls].filter((url) => !records.has(url));
+  changedUrls.clear();
+  removedUrls.clear();
+  appendHistoryChanges(changed, removed);
+  if (shouldRewriteHistory(records.size)) {
+    rewriteHistory([...records.values()]);
+  }
+  return whenHistoryWritten();
+}
+
+function scheduleSave() {
+  if (saveTimer) return;
+  saveTimer = setTimeout(saveNow, SAVE_DELAY);
+}
+
+export function initHistory() {
+  for (const record of loadHistoryRecords()) {
+    records.set(record.url, record);
+    indexRecord(record);
+  }
+  pruneExpired();
+  if (changedUrls.size > 0 || removedUrls.size > 0 || shouldRewriteHistory(records.size)) {
+    scheduleSave();
+  }
+}
+
+// Write anything still waiting, e.g. when the app quits
+export function flushHistory(): Promise<void> {
+  return saveTimer ? saveNow() : whenHistoryWritten();
+}
+
+function addVisit(url: string, title: string, visit: HistoryVisit) {
+  let record = records.get(url);
+  if (!record) {
+    record = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      url,
+      title: title || url,
+      visits: [],
+      visitCount: 0,
+      typedCount: 0,
+      lastVisitedAt: 0,
+    };
+    records.set(url, record);
+    indexRecord(record);
+  }
+  changedUrls.add(url);
+
+  // Visits stay newest first even when older ones are imported later
+  const index = record.visits.findIndex((existing) => existing.visitedAt < visit.visitedAt);
+  record.visits.splice(index === -1 ? record.visits.length : index, 0, visit);
+  record.visits.length = Math.min(record.visits.length, MAX_VISITS_PER_URL);
+  record.visitCount++;
+  if (visit.transition === 'typed') record.typedCount++;
+  record.lastVisitedAt = Math.max(record.lastVisitedAt, visit.visitedAt);
+}
+
+// Only web pages are worth remembering
+function isRecordable(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+export function recordVisit(url: string, title: string, transition: VisitTransition) {
+  if (!isRecordable(url)) return;
+  addVisit(url, title, { visitedAt: Date.now(), transition });
+  scheduleSave();
+}
+
+function setRecordTitle(record: HistoryRecord, title: string) {
+  unindexRecord(record);
+  record.title = title;
+  indexRecord(record);
+  changedUrls.add(record.url);
+}
+
+// Titles usually arrive after the navigation that recorded the visit
+export function updateHistoryTitle(url: string, title: string) {
+  const record = records.get(url);
+  if (!record || !title || record.title === title) return;
+  setRecordTitle(record, title);
+  scheduleSave();
+}
+
+// Moves history the renderer used to keep in localStorage over to the store
+export function importLegacyHistory(entries: LegacyHistoryEntry[]) {
+  // Oldest first, so the newest title is the one that sticks
+  for (const entry of [...entries].sort((a, b) => a.visitedAt - b.visitedAt)) {
+    if (!isRecordable(entry.url)) continue;
+    addVisit(entry.url, entry.title, { visitedAt: entry.visitedAt, transition: 'link' });
+    const record = records.get(entry.url);
+    if (record && entry.title && record.title !== entry.title) setRecordTitle(record, entry.title);
+  }
+  scheduleSave();
+}
+
+// URLs where every query word starts some word of the title or URL
+function searchUrls(text: string): Set<string> | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+
+  let matches: Set<string> | null = null;
+  for (const term of terms) {
+    const termMatches = new Set<string>();
+    for (const [word, urls] of wordIndex) {
+      if (!word.startsWith(term)) continue;
+      for (const url of urls) {
+        if (!matches || matches.has(url)) termMatches.add(url);
+      }
+    }
+    matches = termMatches;
+    if (matches.size === 0) break;
+  }
+  return matches;
+}
+
+function isInRange(visitedAt: number, { startTime, endTime }: HistoryQuery): boolean {
+  return (startTime === undefined || visitedAt >= startTime) && (endTime === undefined || visitedAt < endTime);
+}
+
+function isOnHost(url: string, host: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return hostname === host || hostname.endsWith(`.${host}`);
+  } catch {
+    return false;
+  }
+}
+
+function findRecords(query: HistoryQuery): HistoryRecord[] {
+  const urls = query.text ? searchUrls(query.text) : null;
+  const candidates = urls
+    ? [...urls].flatMap((url) => records.get(url) ?? [])
+    : [...records.values()];
+  return candidates.filter((record) =>
+    (!query.host || isOnHost(record.url, query.host))
+    && (
+      (query.startTime === undefined && query.endTime === undefined)
+      || record.visits.some((visit) => isInRange(visit.visitedAt, query))
+    )
+  );
+}
+
+function page<T>(results: T[], { offset = 0, limit }: HistoryQuery): T[] {
+  return results.slice(offset, limit ? offset + limit : undefined);
+}
+
+export function queryHistory(query: HistoryQuery = {}): HistoryRecord[] {
+  const matches = findRecords(query).sort((a, b) =>
+    query.sort === 'visits'
+      ? b.visitCount - a.visitCount || b.lastVisitedAt - a.lastVisitedAt
+      : b.lastVisitedAt - a.lastVisitedAt
+  );
+  return page(matches, query);
+}
+
+// Single visits, newest first
+export function getHistoryVisits(query: HistoryQuery = {}): HistoryVisitEntry[] {
+  const visits = findRecords(query).flatMap((record) =>
+    record.visits
+      .filter((visit) => isInRange(visit.visitedAt, query))
+      .map((visit) => ({
+        id: `${record.id}-${visit.visitedAt}`,
+        url: record.url,
+        title: record.title,
+        visitedAt: visit.visitedAt,
+        transition: visit.transition,
+      }))
+  );
+  visits.sort((a, b) => b.visitedAt - a.visitedAt);
+  return page(visits, query);
+}
+
+export function removeHistoryUrl(url: string) {
+  const record = records.get(url);
+  if (!record) return;
+  removeRecord(record);
+  scheduleSave();
+}
+
+// Deleting visits also takes them out of the counts, unlike visits that
+// simply age out of the list
+function deleteVisits(record: HistoryRecord, shouldDelete: (visit: HistoryVisit) => boolean) {
+  const deleted = record.visits.filter(shouldDelete);
+  if (deleted.length === 0) return;
+
+  record.visits = record.visits.filter((visit) => !shouldDelete(visit));
+  if (record.visits.length === 0) {
+    removeRecord(record);
+    return;
+  }
+  changedUrls.add(record.url);
+  record.visitCount = Math.max(record.visits.length, record.visitCount - deleted.length);
+  record.typedCount = Math.max(
+    0,
+    record.typedCount - deleted.filter((visit) => visit.transition === 'typed').length
+  );
+  record.lastVisitedAt = record.visits[0].visitedAt;
+}
+
+export function removeHistoryVisits(visits: HistoryVisitKey[]) {
+  const timesByUrl = new Map<string, Set<number>>();
+  for (const { url, visitedAt } of visits) {
+    const times = timesByUrl.get(url) ?? new Set();
+    times.add(visitedAt);
+    timesByUrl.set(url, times);
+  }
+
+  for (const [url, times] of timesByUrl) {
+    const record = records.get(url);
+    if (record) deleteVisits(record, (visit) => times.has(visit.visitedAt));
+  }
+  scheduleSave();
+}
+
+// Clear visits made since a point in time, or everything without one
+export function clearHistory(since?: number) {
+  if (since === undefined) {
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      saveTimer = null;
+    }
+    records.clear();
+    wordIndex.clear();
+    changedUrls.clear();
+    removedUrls.clear();
+    rewriteHistory([]);
+    return;
+  }
+
+  for (const record of [...records.values()]) {
+    deleteVisits(record, (visit) => visit.visitedAt >= since);
+  }
+  saveNow();
+}
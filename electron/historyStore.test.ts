@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HistoryRecord } from './history';
+
+const paths = vi.hoisted(() => ({ userData: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => paths.userData },
+}));
+
+// A fresh copy of the store, as after a restart
+const loadStore = async () => {
+  vi.resetModules();
+  return import('./historyStore');
+};
+
+const record = (url: string, visitedAt = 1000): HistoryRecord => ({
+  id: url,
+  url,
+  title: url,
+  visits: [{ visitedAt, transition: 'link' }],
+  visitCount: 1,
+  typedCount: 0,
+  lastVisitedAt: visitedAt,
+});
+
+const readFile = (name: string) => fs.readFileSync(path.join(paths.userData, name), 'utf-8');
+const writeFile = (name: string, text: string) => fs.writeFileSync(path.join(paths.userData, name), text);
+
+beforeEach(() => {
+  paths.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'history-store-'));
+});
+
+afterEach(() => {
+  fs.rmSync(paths.userData, { recursive: true, force: true });
+});
+
+describe('historyStore', () => {
+  it('starts empty', async () => {
+    const store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([]);
+  });
+
+  it('reads back appended changes and removals', async () => {
+    let store = await loadStore();
+    store.loadHistoryRecords();
+    await store.appendHistoryChanges([record('https://a.com/'), record('https://b.com/')], []);
+    await store.appendHistoryChanges([record('https://a.com/', 2000)], ['https://b.com/']);
+
+    store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([record('https://a.com/', 2000)]);
+  });
+
+  it('skips a journal line cut short by a crash mid-append', async () => {
+    let store = await loadStore();
+    store.loadHistoryRecords();
+    await store.appendHistoryChanges([record('https://a.com/')], []);
+    fs.appendFileSync(path.join(paths.userData, 'history-journal.jsonl'), '{"seq":2,"record":{"url":"https://b.c');
+
+    store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([record('https://a.com/')]);
+
+    // Later appends still land on lines of their own
+    await store.appendHistoryChanges([record('https://c.com/')], []);
+    store = await loadStore();
+    expect(store.loadHistoryRecords().map((r) => r.url)).toEqual(['https://a.com/', 'https://c.com/']);
+  });
+
+  it('loads the same records after a rewrite as from the journal', async () => {
+    let store = await loadStore();
+    store.loadHistoryRecords();
+    const records = Array.from({ length: 1200 }, (_, i) => record(`https://site${i}.com/`, i));
+    await store.appendHistoryChanges(records, []);
+    await store.appendHistoryChanges([record('https://site0.com/', 5000)], ['https://site1.com/']);
+
+    store = await loadStore();
+    const fromJournal = store.loadHistoryRecords();
+    expect(store.shouldRewriteHistory(fromJournal.length)).toBe(true);
+    await store.rewriteHistory(fromJournal);
+    expect(readFile('history-journal.jsonl')).toBe('');
+
+    store = await loadStore();
+    const fromSnapshot = store.loadHistoryRecords();
+    expect(fromSnapshot).toEqual(fromJournal);
+    expect(store.shouldRewriteHistory(fromSnapshot.length)).toBe(false);
+  });
+
+  it('skips journal lines the snapshot already covers', async () => {
+    // As if the app stopped after writing the snapshot but before emptying
+    // the journal
+    writeFile('history-records.jsonl', `{"seq":2}\n${JSON.stringify(record('https://a.com/', 2000))}\n`);
+    writeFile('history-journal.jsonl', [
+      JSON.stringify({ seq: 1, record: record('https://a.com/', 1000) }),
+      JSON.stringify({ seq: 2, removedUrl: 'https://a.com/' }),
+      JSON.stringify({ seq: 3, record: record('https://b.com/') }),
+    ].join('\n'));
+
+    const store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([record('https://a.com/', 2000), record('https://b.com/')]);
+  });
+
+  it('keeps numbering after the journal once it has been replayed', async () => {
+    writeFile('history-records.jsonl', '{"seq":5}\n');
+    writeFile('history-journal.jsonl', `${JSON.stringify({ seq: 9, record: record('https://a.com/') })}\n`);
+
+    let store = await loadStore();
+    store.loadHistoryRecords();
+    await store.appendHistoryChanges([], ['https://a.com/']);
+    expect(readFile('history-journal.jsonl')).toContain('{"seq":10,"removedUrl":"https://a.com/"}');
+
+    store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([]);
+  });
+
+  it('moves the legacy history file into a snapshot', async () => {
+    writeFile('history.json', JSON.stringify([record('https://a.com/')]));
+
+    let store = await loadStore();
+    const records = store.loadHistoryRecords();
+    expect(records).toEqual([record('https://a.com/')]);
+    expect(store.shouldRewriteHistory(records.length)).toBe(true);
+    await store.rewriteHistory(records);
+    expect(fs.existsSync(path.join(paths.userData, 'history.json'))).toBe(false);
+
+    store = await loadStore();
+    expect(store.loadHistoryRecords()).toEqual([record('https://a.com/')]);
+  });
+});
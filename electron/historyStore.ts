@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import type { HistoryRecord } from './history';
+import { getStorePath, readJsonFile } from './store';
+
+// History on disk, written as it changes rather than all at once. Changed
+// records are appended to a journal, one JSON line each. Once the journal
+// outgrows the records it describes, the records are rewritten as a new
+// snapshot and the journal starts over. Every line carries a sequence
+// number, so journal lines the snapshot already covers are skipped if the
+// app stops between writing the snapshot and emptying the journal.
+
+const SNAPSHOT_FILE = 'history-records.jsonl';
+const JOURNAL_FILE = 'history-journal.jsonl';
+// Written before the journal, as a single JSON array
+const LEGACY_FILE = 'history.json';
+
+// Small histories rewrite the snapshot now and then rather than constantly
+const MIN_JOURNAL_LENGTH = 1000;
+// Records written to the snapshot at a time, letting other work run between
+const SNAPSHOT_CHUNK_SIZE = 500;
+
+interface SnapshotHeader {
+  seq: number;
+}
+
+type JournalEntry =
+  | { seq: number; record: HistoryRecord }
+  | { seq: number; removedUrl: string };
+
+let seq = 0;
+let journalLength = 0;
+// Set while the records only exist in the legacy file
+let needsSnapshot = false;
+// Set when the journal ends in a line cut short, which the next append must
+// not carry on
+let journalCutShort = false;
+// Writes run one after another, in the order they were asked for
+let writes: Promise<void> = Promise.resolve();
+
+function readText(name: string): string {
+  try {
+    return fs.readFileSync(getStorePath(name), 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+// Parsed lines of a file, skipping one cut short by a crash
+function parseLines(text: string): unknown[] {
+  return text.split('\n').flatMap((line) => {
+    if (!line) return [];
+    try {
+      return [JSON.parse(line)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function enqueue(write: () => Promise<void>): Promise<void> {
+  writes = writes.then(write).catch((error) => {
+    console.error('Failed to save history:', error);
+  });
+  return writes;
+}
+
+// Read once at startup, before any window can ask for history
+export function loadHistoryRecords(): HistoryRecord[] {
+  const records = new Map<string, HistoryRecord>();
+  const [header, ...snapshot] = parseLines(readText(SNAPSHOT_FILE));
+  if (header) {
+    seq = (header as SnapshotHeader).seq;
+    for (const record of snapshot as HistoryRecord[]) records.set(record.url, record);
+  } else {
+    for (const record of readJsonFile<HistoryRecord[]>(LEGACY_FILE, [])) records.set(record.url, record);
+    needsSnapshot = records.size > 0;
+  }
+
+  const journal = readText(JOURNAL_FILE);
+  journalCutShort = journal !== '' && !journal.endsWith('\n');
+  const snapshotSeq = seq;
+  for (const entry of parseLines(journal) as JournalEntry[]) {
+    if (entry.seq <= snapshotSeq) continue;
+    seq = Math.max(seq, entry.seq);
+    journalLength++;
+    if ('record' in entry) {
+      records.set(entry.record.url, entry.record);
+    } else {
+      records.delete(entry.removedUrl);
+    }
+  }
+  return [...records.values()];
+}
+
+// Records are written as they are now, so later changes wait for the next call
+export function appendHistoryChanges(changed: HistoryRecord[], removedUrls: string[]): Promise<void> {
+  const lines = [
+    ...changed.map((record) => JSON.stringify({ seq: ++seq, record })),
+    ...removedUrls.map((url) => JSON.stringify({ seq: ++seq, removedUrl: url })),
+  ];
+  if (lines.length === 0) return writes;
+
+  journalLength += lines.length;
+  const file = getStorePath(JOURNAL_FILE);
+  const text = `${journalCutShort ? '\n' : ''}${lines.join('\n')}\n`;
+  journalCutShort = false;
+  return enqueue(async () => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.appendFile(file, text);
+  });
+}
+
+export function shouldRewriteHistory(recordCount: number): boolean {
+  return needsSnapshot || journalLength > Math.max(MIN_JOURNAL_LENGTH, recordCount);
+}
+
+// Replace the snapshot with these records and empty the journal. Records
+// changing while this runs are also in the journal lines written after it.
+export function rewriteHistory(records: HistoryRecord[]): Promise<void> {
+  const snapshotSeq = seq;
+  journalLength = 0;
+  needsSnapshot = false;
+  journalCutShort = false;
+
+  const file = getStorePath(SNAPSHOT_FILE);
+  const tempFile = `${file}.tmp`;
+  return enqueue(async () => {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const handle = await fs.promises.open(tempFile, 'w');
+    try {
+      const header: SnapshotHeader = { seq: snapshotSeq };
+      await handle.write(`${JSON.stringify(header)}\n`);
+      for (let i = 0; i < records.length; i += SNAPSHOT_CHUNK_SIZE) {
+        const chunk = records.slice(i, i + SNAPSHOT_CHUNK_SIZE);
+        await handle.write(chunk.map((record) => `${JSON.stringify(record)}\n`).join(''));
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempFile, file);
+    await fs.promises.writeFile(getStorePath(JOURNAL_FILE), '');
+    await fs.promises.rm(getStorePath(LEGACY_FILE), { force: true });
+  });
+}
+
+// Resolves once everything asked for so far is on disk
+export function whenHistoryWritten(): Promise<void> {
+  return writes;
+}
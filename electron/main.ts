@@ -1,155 +1,842 @@
-import { app, BrowserWindow, BrowserView, ipcMain } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  BrowserView,
+  clipboard,
+  ipcMain,
+  Menu,
+  screen,
+  session,
+  type BaseWindow,
+  type ContextMenuParams,
+  type Input,
+  type IpcMainInvokeEvent,
+  type MenuItemConstructorOptions,
+  type HandlerDetails,
+  type Point,
+  type WebContents,
+  type WindowOpenHandlerResponse,
+} from 'electron';
+import { randomUUID } from 'crypto';
 import path from 'path';
+import { buildAppMenu } from './appMenu';
+import {
+  forgetPrivateBlocking,
+  getBlockerState,
+  getDisabledSites,
+  getFilterLists,
+  getPageHidingCss,
+  importFilterLists,
+  initContentBlocker,
+  removeFilterList,
+  resetBlockedCount,
+  setSiteBlocking,
+  watchSessionBlocking,
+} from './contentBlocker';
+import {
+  cancelDownload,
+  chooseDownloadFolder,
+  clearFinishedDownloads,
+  forgetPrivateDownloads,
+  getDownloadPreferences,
+  getDownloads,
+  initDownloads,
+  openDownload,
+  pauseDownload,
+  removeDownload,
+  resumeDownload,
+  retryDownload,
+  setDownloadPreferences,
+  showDownloadInFolder,
+  watchSessionDownloads,
+  type DownloadPreferences,
+} from './downloads';
+import { forgetPrivateFavicons, getFavicons, initFavicons, updateFavicon } from './favicons';
+import {
+  clearHistory,
+  flushHistory,
+  getHistoryPreferences,
+  getHistoryVisits,
+  importLegacyHistory,
+  initHistory,
+  queryHistory,
+  recordVisit,
+  removeHistoryUrl,
+  removeHistoryVisits,
+  setHistoryPreferences,
+  updateHistoryTitle,
+  type HistoryPreferences,
+  type HistoryQuery,
+  type HistoryVisitKey,
+  type LegacyHistoryEntry,
+  type VisitTransition,
+} from './history';
+import {
+  answerPermissionRequest,
+  cancelPermissionRequests,
+  forgetPrivatePermissions,
+  getSitePermissions,
+  initPermissions,
+  removeSitePermissions,
+  setSitePermission,
+  watchSessionPermissions,
+  type PermissionDecision,
+  type PermissionKind,
+} from './permissions';
+import {
+  allowPopup,
+  blockPopup,
+  clearBlockedPopups,
+  getBlockedPopups,
+  watchUserActivation,
+} from './popupBlocker';
+import {
+  forgetPrivateRecentlyClosed,
+  getRecentlyClosed,
+  recordClosedTabs,
+  recordClosedWindow,
+  takeRecentlyClosed,
+} from './recentlyClosed';
+import {
+  loadPreviousSession,
+  markCleanExit,
+  markQuitting,
+  removeWindowSession,
+  saveWindowSession,
+  takeLastWindowSession,
+  takePreviousExtraWindows,
+  takePreviousSession,
+  type SessionState,
+  type SessionTab,
+  type SessionTabGroup,
+  type TabGroupColor,
+} from './session';
+import {
+  clearCache,
+  clearSiteData,
+  getSiteCookies,
+  getSiteDataOverview,
+  removeCookie,
+  saveCookie,
+  type CookieInfo,
+  type CookieKey,
+} from './siteData';
+import {
+  findShortcutCommand,
+  getShortcuts,
+  initShortcuts,
+  resetShortcuts,
+  setShortcut,
+  toAccelerator,
+  type ShortcutCommand,
+} from './shortcuts';
+import { classifyInput } from './urlInput';
+import {
+  changeZoom,
+  forgetPrivateZoom,
+  getZoomFactor,
+  getZoomPreferences,
+  initZoom,
+  setZoomPreferences,
+  type ZoomAction,
+  type ZoomPreferences,
+} from './zoom';
 
-let mainWindow: BrowserWindow;
-let browserView: BrowserView | null = null;
+interface WindowState {
+  window: BrowserWindow;
+  // Private windows browse in an in-memory session and leave no history
+  isPrivate: boolean;
+  // One BrowserView per tab, keyed by the renderer's Tab.id. Views are only
+  // detached when a tab is hidden, so each keeps its own history, scroll
+  // position and form state until the tab is closed.
+  tabViews: Map<string, BrowserView>;
+  // Native views draw above the renderer, so DOM overlays that reach into the
+  // page area (like omnibox suggestions) hide the attached view while open
+  overlayHiddenView: BrowserView | null;
+  // Extra room the renderer asks for below the toolbar, e.g. for the find bar
+  contentTopOffset: number;
+  // Tabs the renderer starts with instead of a new tab page, when the window
+  // was opened for a moved tab or to restore a window
+  initialSession: SessionState | null;
+  // The tabs as the renderer last reported them, private windows included,
+  // so closing the window can be undone
+  session: SessionState | null;
+  // Set while Settings waits for the keys of a new shortcut
+  shortcutRecorder: ((accelerator: string | null) => void) | null;
+}
+
+// What the tab strip knows about a tab the menu is for
+interface TabMenuState {
+  isOnlyTab: boolean;
+  isPinned: boolean;
+  // Whether "Close Other Tabs" and "Close Tabs to the Right" have anything to close
+  hasOtherTabs: boolean;
+  hasTabsToRight: boolean;
+  // How many tabs the group items apply to: all selected tabs, when the
+  // menu is for one of them
+  groupTabCount: number;
+  isGrouped: boolean;
+  // Groups the tabs could join
+  groups: SessionTabGroup[];
+}
+
+// Tab menu items the renderer carries out, since it owns the tabs
+type TabMenuAction =
+  | 'reload'
+  | 'duplicate'
+  | 'pin'
+  | 'unpin'
+  | 'close'
+  | 'closeOthers'
+  | 'closeToRight'
+  | 'newGroup'
+  | 'addToGroup'
+  | 'removeFromGroup';
+
+// Group chip menu items, carried out by the renderer too
+type TabGroupAction = 'newTab' | 'rename' | 'color' | 'toggleCollapsed' | 'saveAsBookmarks' | 'ungroup' | 'close';
+
+const TAB_GROUP_COLORS: { color: TabGroupColor; label: string }[] = [
+  { color: 'pink', label: 'Pink' },
+  { color: 'lavender', label: 'Lavender' },
+  { color: 'mint', label: 'Mint' },
+  { color: 'golden', label: 'Golden' },
+];
+
+interface CreateWindowOptions {
+  isPrivate?: boolean;
+  initialSession?: SessionState | null;
+  position?: Point;
+}
+
+// Every open window, keyed by the id of the web contents running its
+// renderer, which is what IPC events identify the caller by
+const windows = new Map<number, WindowState>();
+
+// All private windows share one partition. Without the "persist:" prefix
+// Electron keeps it in memory only.
+const PRIVATE_PARTITION = 'cookie-private';
+
+// Tells the preload script which kind of window it is running in
+const PRIVATE_WINDOW_ARG = '--cookie-private-window';
+
+let privateSessionWatched = false;
 
 // Track toolbar height for BrowserView positioning
 // Tab bar (~52px) + Toolbar (~64px) = ~116px, using 140px for safe buffer
 const TOOLBAR_HEIGHT = 140;
 
-function createWindow() {
-  mainWindow = new BrowserWindow({
+function getPrivateSession() {
+  const privateSession = session.fromPartition(PRIVATE_PARTITION);
+  if (!privateSessionWatched) {
+    watchSessionDownloads(privateSession, true);
+    watchSessionPermissions(privateSession, true);
+    watchSessionBlocking(privateSession, true);
+    privateSessionWatched = true;
+  }
+  return privateSession;
+}
+
+function getWindowSession(win: WindowState) {
+  return win.isPrivate ? getPrivateSession() : session.defaultSession;
+}
+
+// Resolve the window whose renderer sent an IPC message
+function getWindowState(event: IpcMainInvokeEvent): WindowState {
+  const win = windows.get(event.sender.id);
+  if (!win) {
+    throw new Error('IPC message from an unknown window');
+  }
+  return win;
+}
+
+function sendToWindows(channel: string, payload: unknown, isPrivate: boolean) {
+  for (const win of windows.values()) {
+    if (win.isPrivate === isPrivate && !win.window.isDestroyed()) {
+      win.window.webContents.send(channel, payload);
+    }
+  }
+}
+
+// Once the last private window is gone nothing from the private session
+// may survive, including what's still held in memory
+async function endPrivateSession() {
+  forgetPrivateDownloads();
+  forgetPrivatePermissions();
+  forgetPrivateBlocking();
+  forgetPrivateFavicons();
+  forgetPrivateZoom();
+  forgetPrivateRecentlyClosed();
+  const privateSession = session.fromPartition(PRIVATE_PARTITION);
+  await privateSession.clearStorageData();
+  await privateSession.clearCache();
+}
+
+function createWindow({ isPrivate = false, initialSession = null, position }: CreateWindowOptions = {}) {
+  const window = new BrowserWindow({
     width: 1200,
     height: 800,
+    ...position,
     minWidth: 800,
     minHeight: 600,
     webPreferences: {
       preload: path.join(__dirname, 'preload.cjs'),
       contextIsolation: true,
       nodeIntegration: false,
+      additionalArguments: isPrivate ? [PRIVATE_WINDOW_ARG] : [],
     },
-    backgroundColor: '#FFE8E0', // Cream background
+    backgroundColor: isPrivate ? '#3A2E3F' : '#FFE8E0', // Plum for private, cream otherwise
     titleBarStyle: 'hiddenInset',
     trafficLightPosition: { x: 16, y: 16 },
   });
 
+  const win: WindowState = {
+    window,
+    isPrivate,
+    tabViews: new Map(),
+    overlayHiddenView: null,
+    contentTopOffset: 0,
+    initialSession,
+    session: null,
+    shortcutRecorder: null,
+  };
+  const webContentsId = window.webContents.id;
+  windows.set(webContentsId, win);
+
   // Load the React app
   if (process.env.NODE_ENV === 'development') {
-    mainWindow.loadURL('http://localhost:5173');
-    mainWindow.webContents.openDevTools();
+    window.loadURL('http://localhost:5173');
+    window.webContents.openDevTools();
   } else {
-    mainWindow.loadFile(path.join(__dirname, '../dist/index.html'));
+    window.loadFile(path.join(__dirname, '../dist/index.html'));
   }
 
+  window.webContents.on('before-input-event', (event, input) => {
+    if (win.shortcutRecorder) {
+      recordShortcutKey(win, event, input);
+    } else {
+      handleShortcutKey(win, event, input);
+    }
+  });
+
+  // Ctrl+scroll over the app's own pages zooms whatever the tab shows, which
+  // only the renderer knows, instead of the whole window
+  window.webContents.on('zoom-changed', (_event, direction) => {
+    sendCommand(win, direction === 'in' ? 'zoomIn' : 'zoomOut');
+  });
+
   // Handle window resize to update BrowserView bounds
-  mainWindow.on('resize', () => {
-    updateBrowserViewBounds();
+  window.on('resize', () => {
+    updateBrowserViewBounds(win);
   });
+
+  // The renderer that owned the tabs is gone, so are its views
+  window.on('closed', () => {
+    for (const view of win.tabViews.values()) {
+      cancelPermissionRequests(view.webContents);
+      view.webContents.close();
+    }
+    win.tabViews.clear();
+    windows.delete(webContentsId);
+    removeWindowSession(webContentsId);
+
+    if (win.session) {
+      recordClosedWindow(isPrivate, webContentsId, win.session);
+      sendToWindows('recently-closed-changed', null, isPrivate);
+    }
+
+    if (isPrivate && ![...windows.values()].some((w) => w.isPrivate)) {
+      endPrivateSession().catch((error) => {
+        console.error('Failed to clear the private session:', error);
+      });
+    }
+  });
+
+  return win;
+}
+
+// Commands that work in the app window's UI take focus away from the page
+const SHELL_COMMANDS = new Set<ShortcutCommand>(['focusAddressBar', 'find']);
+
+// The renderer runs every command, since it owns the tabs
+function sendCommand(win: WindowState, command: ShortcutCommand) {
+  if (win.window.isDestroyed()) return;
+  if (SHELL_COMMANDS.has(command)) win.window.webContents.focus();
+  win.window.webContents.send('run-command', command);
+}
+
+function handleShortcutKey(win: WindowState, event: Electron.Event, input: Input) {
+  const command = findShortcutCommand(input);
+  if (!command) return;
+  event.preventDefault();
+  sendCommand(win, command);
+}
+
+// The first full key combination pressed while recording, Escape cancels
+function recordShortcutKey(win: WindowState, event: Electron.Event, input: Input) {
+  if (input.type !== 'keyDown') return;
+  const accelerator = toAccelerator(input);
+  // Modifiers on their own are still being held down for the combination
+  if (!accelerator) return;
+
+  event.preventDefault();
+  const finish = win.shortcutRecorder;
+  win.shortcutRecorder = null;
+  finish?.(accelerator === 'Escape' ? null : accelerator);
+}
+
+// Menu items act on the focused window. With none open (on macOS), the
+// ones that open something get a new window.
+function runMenuCommand(command: ShortcutCommand, window: BaseWindow | undefined) {
+  const win = [...windows.values()].find((entry) => entry.window === window);
+  if (win) {
+    sendCommand(win, command);
+  } else if (command === 'newTab' || command === 'newWindow' || command === 'newPrivateWindow') {
+    createWindow({ isPrivate: command === 'newPrivateWindow' });
+  }
 }
 
-function updateBrowserViewBounds() {
-  if (browserView && mainWindow) {
-    const bounds = mainWindow.getBounds();
-    browserView.setBounds({
+function updateBrowserViewBounds(win: WindowState) {
+  if (win.window.isDestroyed()) return;
+  const bounds = win.window.getBounds();
+  const top = TOOLBAR_HEIGHT + win.contentTopOffset;
+  for (const view of win.window.getBrowserViews()) {
+    view.setBounds({
       x: 0,
-      y: TOOLBAR_HEIGHT,
+      y: top,
       width: bounds.width,
-      height: bounds.height - TOOLBAR_HEIGHT,
+      height: bounds.height - top,
     });
   }
 }
 
+function isViewAttached(win: WindowState, view: BrowserView): boolean {
+  return win.window.getBrowserViews().includes(view);
+}
+
+function detachTabView(win: WindowState, view: BrowserView) {
+  if (win.overlayHiddenView === view) {
+    win.overlayHiddenView = null;
+  }
+  if (isViewAttached(win, view)) {
+    win.window.removeBrowserView(view);
+  }
+}
+
 // Helper functions using the new navigationHistory API
-function canGoBack(): boolean {
-  if (!browserView) return false;
-  return browserView.webContents.navigationHistory.canGoBack();
+function canGoBack(view: BrowserView | undefined): boolean {
+  if (!view) return false;
+  return view.webContents.navigationHistory.canGoBack();
+}
+
+function canGoForward(view: BrowserView | undefined): boolean {
+  if (!view) return false;
+  return view.webContents.navigationHistory.canGoForward();
+}
+
+function getViewState(view: BrowserView) {
+  return {
+    url: view.webContents.getURL(),
+    title: view.webContents.getTitle(),
+    canGoBack: canGoBack(view),
+    canGoForward: canGoForward(view),
+  };
+}
+
+// Tabs can move between windows, so view events look up their current owner
+function findTabWindow(tabId: string): WindowState | undefined {
+  for (const win of windows.values()) {
+    if (win.tabViews.has(tabId)) return win;
+  }
+  return undefined;
 }
 
-function canGoForward(): boolean {
-  if (!browserView) return false;
-  return browserView.webContents.navigationHistory.canGoForward();
+// The tab showing some web contents, e.g. the page asking for a permission
+function findContentsTab(contents: WebContents): { win: WindowState; tabId: string } | undefined {
+  for (const win of windows.values()) {
+    for (const [tabId, view] of win.tabViews) {
+      if (view.webContents === contents) return { win, tabId };
+    }
+  }
+  return undefined;
 }
 
-function sendNavigationUpdate() {
-  if (!browserView || !mainWindow) return;
-  
-  mainWindow.webContents.send('browser-view-navigated', {
-    url: browserView.webContents.getURL(),
-    title: browserView.webContents.getTitle(),
-    canGoBack: canGoBack(),
-    canGoForward: canGoForward(),
+function sendToTabWindow(tabId: string, channel: string, payload: unknown) {
+  const win = findTabWindow(tabId);
+  if (win && !win.window.isDestroyed()) {
+    win.window.webContents.send(channel, payload);
+  }
+}
+
+function sendBlockerState(win: WindowState, tabId: string, contents: WebContents) {
+  if (win.window.isDestroyed()) return;
+  win.window.webContents.send('content-blocker-updated', getBlockerState(tabId, contents, win.isPrivate));
+}
+
+function sendBlockedPopups(win: WindowState, tabId: string, contents: WebContents) {
+  if (win.window.isDestroyed()) return;
+  win.window.webContents.send('blocked-popups-updated', getBlockedPopups(tabId, contents));
+}
+
+function sendNavigationUpdate(tabId: string, view: BrowserView) {
+  sendToTabWindow(tabId, 'browser-view-navigated', {
+    tabId,
+    ...getViewState(view),
+  });
+}
+
+// The tab strip shows a speaker on tabs playing sound, crossed out when muted
+function sendAudioState(tabId: string, contents: WebContents) {
+  sendToTabWindow(tabId, 'browser-view-audio-changed', {
+    tabId,
+    isAudible: contents.isCurrentlyAudible(),
+    isMuted: contents.isAudioMuted(),
   });
 }
 
-function setupBrowserViewListeners() {
-  if (!browserView) return;
+// Apply zoom levels to every page in windows of one kind, and let their
+// renderers know so they can update the zoom badge and internal pages
+function refreshZoom(isPrivate: boolean) {
+  for (const win of windows.values()) {
+    if (win.isPrivate !== isPrivate) continue;
+    for (const view of win.tabViews.values()) {
+      view.webContents.setZoomFactor(getZoomFactor(view.webContents.getURL(), isPrivate));
+    }
+  }
+  sendToWindows('zoom-changed', null, isPrivate);
+}
+
+function zoomPage(url: string, action: ZoomAction, isPrivate: boolean): number {
+  const factor = changeZoom(url, action, isPrivate);
+  refreshZoom(isPrivate);
+  return factor;
+}
+
+// Chromium's net::ERR_ABORTED
+const ERR_ABORTED = -3;
+
+// How the next navigation of each tab's web contents was started, set by
+// the IPC handlers that start one. Anything else is the page's own doing.
+const pendingTransitions = new Map<number, VisitTransition>();
+
+function takeTransition(contents: WebContents): VisitTransition {
+  const transition = pendingTransitions.get(contents.id) ?? 'link';
+  pendingTransitions.delete(contents.id);
+  return transition;
+}
+
+function setupBrowserViewListeners(tabId: string, view: BrowserView, isPrivate: boolean) {
+  // The last address recorded, so in-page updates to it aren't new visits
+  let lastVisitedUrl = '';
+
+  const recordNavigation = (url: string) => {
+    const transition = takeTransition(view.webContents);
+    lastVisitedUrl = url;
+    if (!isPrivate) recordVisit(url, view.webContents.getTitle(), transition);
+  };
+
+  const contentsId = view.webContents.id;
+  view.webContents.once('destroyed', () => pendingTransitions.delete(contentsId));
 
   // Send navigation updates on various events
-  browserView.webContents.on('did-navigate', () => {
-    console.log('did-navigate, canGoBack:', canGoBack(), 'canGoForward:', canGoForward());
-    sendNavigationUpdate();
+  view.webContents.on('did-navigate', (_event, url) => {
+    // Prompts and blocked counts belong to the page that asked
+    cancelPermissionRequests(view.webContents);
+    resetBlockedCount(view.webContents);
+    const hadBlockedPopups = clearBlockedPopups(view.webContents);
+    view.webContents.setZoomFactor(getZoomFactor(url, isPrivate));
+    recordNavigation(url);
+    sendNavigationUpdate(tabId, view);
+
+    const win = findTabWindow(tabId);
+    if (win) {
+      sendBlockerState(win, tabId, view.webContents);
+      if (hadBlockedPopups) sendBlockedPopups(win, tabId, view.webContents);
+    }
   });
 
-  browserView.webContents.on('did-navigate-in-page', () => {
-    console.log('did-navigate-in-page, canGoBack:', canGoBack(), 'canGoForward:', canGoForward());
-    sendNavigationUpdate();
+  // Element hiding rules from the filter lists
+  view.webContents.on('dom-ready', () => {
+    const css = getPageHidingCss(view.webContents.getURL(), isPrivate);
+    if (css) {
+      view.webContents.insertCSS(css, { cssOrigin: 'user' });
+    }
+  });
+
+  view.webContents.on('did-navigate-in-page', (_event, url, isMainFrame) => {
+    // Only a new address counts as a visit, not every history.replaceState
+    if (isMainFrame && url !== lastVisitedUrl) recordNavigation(url);
+    sendNavigationUpdate(tabId, view);
   });
 
-  browserView.webContents.on('did-finish-load', () => {
-    console.log('did-finish-load, canGoBack:', canGoBack(), 'canGoForward:', canGoForward());
-    sendNavigationUpdate();
+  view.webContents.on('did-finish-load', () => {
+    sendNavigationUpdate(tabId, view);
   });
 
-  browserView.webContents.on('page-title-updated', (_event, title) => {
-    mainWindow.webContents.send('browser-view-title-updated', {
+  view.webContents.on('page-title-updated', (_event, title) => {
+    if (!isPrivate) updateHistoryTitle(view.webContents.getURL(), title);
+    sendToTabWindow(tabId, 'browser-view-title-updated', {
+      tabId,
       title,
-      url: browserView?.webContents.getURL() || '',
+      url: view.webContents.getURL(),
+    });
+  });
+
+  view.webContents.on('page-favicon-updated', (_event, favicons) => {
+    updateFavicon(view.webContents.getURL(), favicons, view.webContents.session, isPrivate);
+  });
+
+  // The tab strip shows a spinner while loading, and the toolbar a progress
+  // bar. Chromium doesn't report how far along a load is, so progress steps
+  // up as the load reaches each stage.
+  const sendLoading = (isLoading: boolean, progress: number) => {
+    sendToTabWindow(tabId, 'browser-view-loading', { tabId, isLoading, progress });
+  };
+
+  view.webContents.on('did-start-loading', () => sendLoading(true, 0.1));
+  view.webContents.on('did-navigate', () => sendLoading(true, 0.4));
+  view.webContents.on('dom-ready', () => sendLoading(true, 0.7));
+  view.webContents.on('did-stop-loading', () => sendLoading(false, 1));
+
+  // Pages that fail to load get the browser's own error page. Aborted loads
+  // were stopped or replaced by another navigation, so aren't errors.
+  view.webContents.on('did-fail-load', (_event, errorCode, errorDescription, validatedURL, isMainFrame) => {
+    if (!isMainFrame || errorCode === ERR_ABORTED) return;
+    sendToTabWindow(tabId, 'browser-view-load-failed', {
+      tabId,
+      url: validatedURL,
+      errorCode,
+      errorDescription,
     });
   });
+
+  view.webContents.on('render-process-gone', (_event, details) => {
+    if (details.reason === 'clean-exit') return;
+    sendToTabWindow(tabId, 'browser-view-crashed', {
+      tabId,
+      url: view.webContents.getURL(),
+      reason: details.reason,
+    });
+  });
+
+  view.webContents.on('audio-state-changed', () => sendAudioState(tabId, view.webContents));
+
+  view.webContents.on('zoom-changed', (_event, direction) => {
+    zoomPage(view.webContents.getURL(), direction, isPrivate);
+  });
+
+  view.webContents.on('found-in-page', (_event, result) => {
+    sendToTabWindow(tabId, 'found-in-page', {
+      tabId,
+      requestId: result.requestId,
+      activeMatchOrdinal: result.activeMatchOrdinal,
+      matches: result.matches,
+      finalUpdate: result.finalUpdate,
+    });
+  });
+
+  view.webContents.on('context-menu', (_event, params) => {
+    const win = findTabWindow(tabId);
+    if (win) showPageMenu(win, tabId, view, params);
+  });
+
+  watchUserActivation(view.webContents);
+  view.webContents.setWindowOpenHandler((details) => handleWindowOpen(tabId, view, isPrivate, details));
+
+  // Keys pressed while the page has focus never reach the renderer, so
+  // match the browser's own shortcuts here
+  view.webContents.on('before-input-event', (event, input) => {
+    const win = findTabWindow(tabId);
+    if (win) handleShortcutKey(win, event, input);
+  });
+}
+
+// window.open and target=_blank links open tabs instead of bare windows.
+// Chromium already turned modifier keys and middle clicks into the
+// disposition. Background tabs load when first shown; anything else takes
+// over the window Chromium creates, so the page keeps its handle on it, e.g.
+// a sign-in pop-up reporting back to the page that opened it.
+function handleWindowOpen(
+  tabId: string,
+  view: BrowserView,
+  isPrivate: boolean,
+  { url, disposition }: HandlerDetails,
+): WindowOpenHandlerResponse {
+  const win = findTabWindow(tabId);
+  if (!win) return { action: 'deny' };
+
+  if (!allowPopup(view.webContents, isPrivate)) {
+    if (blockPopup(view.webContents, url, isPrivate)) {
+      sendBlockedPopups(win, tabId, view.webContents);
+    }
+    return { action: 'deny' };
+  }
+
+  if (disposition === 'background-tab') {
+    win.window.webContents.send('open-tab-requested', { url, openerTabId: tabId, background: true });
+    return { action: 'deny' };
+  }
+
+  return {
+    action: 'allow',
+    // It's a tab now, which stays open like any other
+    outlivesOpener: true,
+    createWindow: (options) => {
+      const popupTabId = randomUUID();
+      const popup = new BrowserView(options);
+      addTabView(win, popupTabId, popup);
+      win.window.webContents.send('open-tab-requested', {
+        url,
+        openerTabId: tabId,
+        background: false,
+        tabId: popupTabId,
+      });
+      return popup.webContents;
+    },
+  };
+}
+
+// The right-click menu inside a page, built from what was clicked: a link,
+// an image, selected text or an editable field
+function showPageMenu(win: WindowState, tabId: string, view: BrowserView, params: ContextMenuParams) {
+  const contents = view.webContents;
+  const openTab = (url: string) => {
+    win.window.webContents.send('open-tab-requested', { url, openerTabId: tabId, background: true });
+  };
+  const sections: MenuItemConstructorOptions[][] = [];
+
+  if (params.linkURL) {
+    sections.push([
+      { label: 'Open Link in New Tab', click: () => openTab(params.linkURL) },
+      { label: 'Copy Link Address', click: () => clipboard.writeText(params.linkURL) },
+    ]);
+  }
+
+  if (params.mediaType === 'image' && params.srcURL) {
+    sections.push([
+      { label: 'Open Image in New Tab', click: () => openTab(params.srcURL) },
+      { label: 'Save Image As…', click: () => contents.downloadURL(params.srcURL) },
+      { label: 'Copy Image', click: () => contents.copyImageAt(params.x, params.y) },
+      { label: 'Copy Image Address', click: () => clipboard.writeText(params.srcURL) },
+    ]);
+  }
+
+  const selection = params.selectionText.trim();
+  if (params.isEditable) {
+    sections.push([
+      { label: 'Cut', enabled: params.editFlags.canCut, click: () => contents.cut() },
+      { label: 'Copy', enabled: params.editFlags.canCopy, click: () => contents.copy() },
+      { label: 'Paste', enabled: params.editFlags.canPaste, click: () => contents.paste() },
+      { label: 'Select All', enabled: params.editFlags.canSelectAll, click: () => contents.selectAll() },
+    ]);
+  } else {
+    sections.push([
+      ...(selection ? [{ label: 'Copy', click: () => contents.copy() }] : []),
+      { label: 'Select All', click: () => contents.selectAll() },
+    ]);
+  }
+
+  // The renderer knows the default search engine
+  if (selection) {
+    const preview = selection.length > 30 ? `${selection.slice(0, 30)}…` : selection;
+    sections.push([{
+      label: `Search the Web for “${preview.replace(/\s+/g, ' ')}”`,
+      click: () => win.window.webContents.send('search-requested', { text: selection, openerTabId: tabId }),
+    }]);
+  }
+
+  sections.push([
+    { label: 'Inspect Element', click: () => contents.inspectElement(params.x, params.y) },
+  ]);
+
+  const template = sections.flatMap((section, index) =>
+    index === 0 ? section : [{ type: 'separator' as const }, ...section]
+  );
+  Menu.buildFromTemplate(template).popup({ window: win.window });
+}
+
+function addTabView(win: WindowState, tabId: string, view: BrowserView) {
+  view.setAutoResize({ width: true, height: true });
+  setupBrowserViewListeners(tabId, view, win.isPrivate);
+  win.tabViews.set(tabId, view);
+
+  // Pages can close themselves, like sign-in pop-ups once they're done.
+  // Views the browser closed are already gone from their window by now.
+  view.webContents.once('destroyed', () => {
+    const owner = [...windows.values()].find((w) => w.tabViews.get(tabId) === view);
+    if (!owner) return;
+    detachTabView(owner, view);
+    owner.tabViews.delete(tabId);
+    if (!owner.window.isDestroyed()) {
+      owner.window.webContents.send('tab-closed-by-page', tabId);
+    }
+  });
 }
 
-// Get or create BrowserView (reuse existing one to preserve history)
-function getOrCreateBrowserView(): BrowserView {
-  if (!browserView) {
-    browserView = new BrowserView({
+// Get or create the BrowserView that belongs to a tab
+function getOrCreateTabView(win: WindowState, tabId: string): BrowserView {
+  let view = win.tabViews.get(tabId);
+  if (!view) {
+    view = new BrowserView({
       webPreferences: {
         contextIsolation: true,
         nodeIntegration: false,
+        session: getWindowSession(win),
       },
     });
-    setupBrowserViewListeners();
+    addTabView(win, tabId, view);
   }
-  
-  // Make sure it's attached to the window
-  const currentViews = mainWindow.getBrowserViews();
-  if (!currentViews.includes(browserView)) {
-    mainWindow.setBrowserView(browserView);
+  return view;
+}
+
+// Whether a view has a page to show. Pop-ups start loading before they
+// commit an address.
+function hasPage(view: BrowserView): boolean {
+  return view.webContents.getURL() !== '' || view.webContents.isLoading();
+}
+
+// Attach a tab's view, replacing whichever tab's view was showing before
+function attachTabView(win: WindowState, view: BrowserView) {
+  win.overlayHiddenView = null;
+  if (!isViewAttached(win, view)) {
+    win.window.setBrowserView(view);
   }
-  
-  browserView.setAutoResize({ width: true, height: true });
-  updateBrowserViewBounds();
-  
-  return browserView;
+  updateBrowserViewBounds(win);
+}
+
+// Wait for a back/forward navigation to settle before reporting state
+function waitForNavigation(view: BrowserView): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const handler = () => {
+      view.webContents.removeListener('did-finish-load', handler);
+      view.webContents.removeListener('did-fail-load', handler);
+      resolve();
+    };
+    view.webContents.once('did-finish-load', handler);
+    view.webContents.once('did-fail-load', handler);
+    setTimeout(resolve, 5000);
+  });
 }
 
-// Navigate to external URL using BrowserView
-ipcMain.handle('navigate-to-url', async (_event, url: string) => {
+// Navigate a tab to an external URL using its BrowserView
+ipcMain.handle('navigate-to-url', async (event, tabId: string, url: string, transition: VisitTransition = 'typed') => {
+  // The renderer resolves searches before getting here, and internal
+  // cookie:// pages never load in a BrowserView
+  const target = classifyInput(url);
+  if (target.kind === 'search' || target.kind === 'internal') {
+    return { success: false, error: `Not a web address: ${url}` };
+  }
+
   try {
-    // Ensure URL has protocol
-    let normalizedUrl = url;
-    if (!url.startsWith('http://') && !url.startsWith('https://')) {
-      normalizedUrl = 'https://' + url;
-    }
+    const win = getWindowState(event);
+    const view = getOrCreateTabView(win, tabId);
+    attachTabView(win, view);
+    pendingTransitions.set(view.webContents.id, transition);
+    await view.webContents.loadURL(target.url);
 
-    const view = getOrCreateBrowserView();
-    await view.webContents.loadURL(normalizedUrl);
-    
-    const back = canGoBack();
-    const forward = canGoForward();
-    
-    console.log('Navigation complete:', {
-      url: normalizedUrl,
-      canGoBack: back,
-      canGoForward: forward,
-    });
-    
     return {
       success: true,
-      title: view.webContents.getTitle(),
-      url: view.webContents.getURL(),
-      canGoBack: back,
-      canGoForward: forward,
+      ...getViewState(view),
     };
   } catch (error) {
     return {
@@ -159,148 +846,743 @@ ipcMain.handle('navigate-to-url', async (_event, url: string) => {
   }
 });
 
-// Hide BrowserView (for internal pages) - but don't destroy it!
-ipcMain.handle('close-browser-view', async () => {
-  if (browserView) {
+// Hide a tab's BrowserView (for internal pages) - but don't destroy it!
+ipcMain.handle('close-browser-view', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (view) {
     // Just hide it by removing from window, but keep the instance
-    mainWindow.removeBrowserView(browserView);
+    detachTabView(win, view);
   }
   // Return whether there's a BrowserView with history we can go back to
-  return { 
+  return {
     success: true,
-    hasBrowserViewHistory: browserView !== null && browserView.webContents.getURL() !== '',
-    browserViewUrl: browserView?.webContents.getURL() || '',
+    hasBrowserViewHistory: view !== undefined && view.webContents.getURL() !== '',
+    browserViewUrl: view?.webContents.getURL() || '',
   };
 });
 
-// Check if there's a hidden BrowserView we can return to
-ipcMain.handle('get-browser-view-state', async () => {
-  if (!browserView) {
+// Destroy a tab's BrowserView when the tab itself is closed
+ipcMain.handle('destroy-browser-view', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (!view) {
+    return { success: false, reason: 'No BrowserView exists' };
+  }
+  cancelPermissionRequests(view.webContents);
+  detachTabView(win, view);
+  view.webContents.close();
+  win.tabViews.delete(tabId);
+  return { success: true };
+});
+
+// Check if a tab has a hidden BrowserView we can return to
+ipcMain.handle('get-browser-view-state', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (!view) {
     return { exists: false };
   }
   return {
     exists: true,
-    url: browserView.webContents.getURL(),
-    title: browserView.webContents.getTitle(),
-    canGoBack: canGoBack(),
-    canGoForward: canGoForward(),
-    isVisible: mainWindow.getBrowserViews().includes(browserView),
+    ...getViewState(view),
+    isVisible: isViewAttached(win, view),
   };
 });
 
-// Show BrowserView again
-ipcMain.handle('show-browser-view', async () => {
-  if (browserView) {
-    const currentViews = mainWindow.getBrowserViews();
-    if (!currentViews.includes(browserView)) {
-      mainWindow.setBrowserView(browserView);
-      updateBrowserViewBounds();
-    }
+// Show a tab's BrowserView again
+ipcMain.handle('show-browser-view', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (view && hasPage(view)) {
+    attachTabView(win, view);
     return {
       success: true,
-      url: browserView.webContents.getURL(),
-      title: browserView.webContents.getTitle(),
-      canGoBack: canGoBack(),
-      canGoForward: canGoForward(),
+      ...getViewState(view),
     };
   }
   return { success: false, reason: 'No BrowserView exists' };
 });
 
-// Navigation controls
-ipcMain.handle('go-back', async () => {
-  console.log('go-back called, canGoBack:', canGoBack());
-  
-  if (browserView && canGoBack()) {
-    const navigationPromise = new Promise<void>((resolve) => {
-      const handler = () => {
-        browserView?.webContents.removeListener('did-finish-load', handler);
-        browserView?.webContents.removeListener('did-fail-load', handler);
-        resolve();
-      };
-      browserView?.webContents.once('did-finish-load', handler);
-      browserView?.webContents.once('did-fail-load', handler);
-      setTimeout(resolve, 5000);
-    });
+ipcMain.handle('set-overlay-visible', async (event, visible: boolean) => {
+  const win = getWindowState(event);
+  if (visible) {
+    const [view] = win.window.getBrowserViews();
+    if (view) {
+      win.window.removeBrowserView(view);
+      win.overlayHiddenView = view;
+    }
+  } else if (win.overlayHiddenView) {
+    attachTabView(win, win.overlayHiddenView);
+  }
+});
 
-    browserView.webContents.navigationHistory.goBack();
+ipcMain.handle('set-content-top-offset', async (event, offset: number) => {
+  const win = getWindowState(event);
+  win.contentTopOffset = Math.max(0, Math.round(offset));
+  updateBrowserViewBounds(win);
+});
+
+// Find in page
+ipcMain.handle('find-in-page', async (event, tabId: string, text: string, options: Electron.FindInPageOptions) => {
+  const view = getWindowState(event).tabViews.get(tabId);
+  if (!view || !text) return null;
+  return view.webContents.findInPage(text, options);
+});
+
+ipcMain.handle('stop-find-in-page', async (event, tabId: string, action: 'clearSelection' | 'keepSelection' | 'activateSelection') => {
+  getWindowState(event).tabViews.get(tabId)?.webContents.stopFindInPage(action);
+});
+
+// Navigation controls
+ipcMain.handle('go-back', async (event, tabId: string) => {
+  const view = getWindowState(event).tabViews.get(tabId);
+  if (view && canGoBack(view)) {
+    const navigationPromise = waitForNavigation(view);
+    pendingTransitions.set(view.webContents.id, 'back_forward');
+    view.webContents.navigationHistory.goBack();
     await navigationPromise;
 
     return {
       success: true,
-      url: browserView.webContents.getURL(),
-      title: browserView.webContents.getTitle(),
-      canGoBack: canGoBack(),
-      canGoForward: canGoForward(),
+      ...getViewState(view),
     };
   }
   return { success: false, reason: 'Cannot go back' };
 });
 
-ipcMain.handle('go-forward', async () => {
-  console.log('go-forward called, canGoForward:', canGoForward());
-  
-  if (browserView && canGoForward()) {
-    const navigationPromise = new Promise<void>((resolve) => {
-      const handler = () => {
-        browserView?.webContents.removeListener('did-finish-load', handler);
-        browserView?.webContents.removeListener('did-fail-load', handler);
-        resolve();
-      };
-      browserView?.webContents.once('did-finish-load', handler);
-      browserView?.webContents.once('did-fail-load', handler);
-      setTimeout(resolve, 5000);
-    });
-
-    browserView.webContents.navigationHistory.goForward();
+ipcMain.handle('go-forward', async (event, tabId: string) => {
+  const view = getWindowState(event).tabViews.get(tabId);
+  if (view && canGoForward(view)) {
+    const navigationPromise = waitForNavigation(view);
+    pendingTransitions.set(view.webContents.id, 'back_forward');
+    view.webContents.navigationHistory.goForward();
     await navigationPromise;
 
     return {
       success: true,
-      url: browserView.webContents.getURL(),
-      title: browserView.webContents.getTitle(),
-      canGoBack: canGoBack(),
-      canGoForward: canGoForward(),
+      ...getViewState(view),
     };
   }
   return { success: false, reason: 'Cannot go forward' };
 });
 
-ipcMain.handle('reload', async () => {
-  if (browserView) {
-    browserView.webContents.reload();
+ipcMain.handle('reload', async (event, tabId: string) => {
+  const view = getWindowState(event).tabViews.get(tabId);
+  if (view) {
+    pendingTransitions.set(view.webContents.id, 'reload');
+    view.webContents.reload();
     return { success: true };
   }
   return { success: false, reason: 'No page to reload' };
 });
 
-ipcMain.handle('get-current-url', async () => {
-  return browserView?.webContents.getURL() || '';
+ipcMain.handle('stop-loading', async (event, tabId: string) => {
+  getWindowState(event).tabViews.get(tabId)?.webContents.stop();
 });
 
-ipcMain.handle('get-page-title', async () => {
-  return browserView?.webContents.getTitle() || '';
+ipcMain.handle('set-tab-muted', async (event, tabId: string, muted: boolean) => {
+  const contents = getWindowState(event).tabViews.get(tabId)?.webContents;
+  if (!contents) return;
+  contents.setAudioMuted(muted);
+  sendAudioState(tabId, contents);
 });
 
-ipcMain.handle('can-go-back', async () => {
-  const result = canGoBack();
-  console.log('can-go-back:', result);
-  return result;
+ipcMain.handle('get-current-url', async (event, tabId: string) => {
+  return getWindowState(event).tabViews.get(tabId)?.webContents.getURL() || '';
 });
 
-ipcMain.handle('can-go-forward', async () => {
-  const result = canGoForward();
-  console.log('can-go-forward:', result);
-  return result;
+ipcMain.handle('get-page-title', async (event, tabId: string) => {
+  return getWindowState(event).tabViews.get(tabId)?.webContents.getTitle() || '';
 });
 
-ipcMain.handle('is-browser-view-active', async () => {
-  if (!browserView) return false;
-  const currentViews = mainWindow.getBrowserViews();
-  return currentViews.includes(browserView);
+ipcMain.handle('can-go-back', async (event, tabId: string) => {
+  return canGoBack(getWindowState(event).tabViews.get(tabId));
 });
 
-app.whenReady().then(createWindow);
+ipcMain.handle('can-go-forward', async (event, tabId: string) => {
+  return canGoForward(getWindowState(event).tabViews.get(tabId));
+});
+
+ipcMain.handle('is-browser-view-active', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (!view) return false;
+  return isViewAttached(win, view);
+});
+
+// The window under a screen point, e.g. where a dragged tab was dropped
+function findWindowAt(point: Point): WindowState | undefined {
+  const focused = BrowserWindow.getFocusedWindow();
+  const candidates = [...windows.values()].filter(({ window }) => {
+    const bounds = window.getBounds();
+    return point.x >= bounds.x && point.x < bounds.x + bounds.width
+      && point.y >= bounds.y && point.y < bounds.y + bounds.height;
+  });
+  return candidates.find((win) => win.window === focused) ?? candidates[0];
+}
+
+// Hand a tab, and its live BrowserView, to another window or a new one
+function moveTab(from: WindowState, tab: SessionTab, to: WindowState | null, position?: Point) {
+  // Private and normal windows browse in different sessions
+  if (to && (to === from || to.isPrivate !== from.isPrivate)) return false;
+
+  const view = from.tabViews.get(tab.id);
+  if (view) {
+    cancelPermissionRequests(view.webContents);
+    detachTabView(from, view);
+    from.tabViews.delete(tab.id);
+  }
+  // Still open elsewhere, so not something closing this window loses
+  if (from.session) {
+    from.session = { ...from.session, tabs: from.session.tabs.filter((t) => t.id !== tab.id) };
+  }
+
+  if (to) {
+    if (view) to.tabViews.set(tab.id, view);
+    to.window.webContents.send('tab-received', tab);
+    to.window.focus();
+  } else {
+    const created = createWindow({
+      isPrivate: from.isPrivate,
+      initialSession: { tabs: [tab], activeTabId: tab.id },
+      position,
+    });
+    if (view) created.tabViews.set(tab.id, view);
+  }
+
+  from.window.webContents.send('tab-moved-away', tab.id);
+  return true;
+}
+
+// Windows
+ipcMain.handle('open-new-window', async () => {
+  createWindow();
+});
+
+ipcMain.handle('open-private-window', async () => {
+  createWindow({ isPrivate: true });
+});
+
+ipcMain.handle('close-window', async (event) => {
+  getWindowState(event).window.close();
+});
+
+// A tab was dragged out of its tab bar: drop it into the window under the
+// cursor, or into a new window there
+ipcMain.handle('detach-tab', async (event, tab: SessionTab, isOnlyTab: boolean) => {
+  const from = getWindowState(event);
+  const point = screen.getCursorScreenPoint();
+  const target = findWindowAt(point);
+
+  if (target) return moveTab(from, tab, target);
+  // A new window for a window's only tab would just be the same window again
+  if (isOnlyTab) return false;
+  return moveTab(from, tab, null, { x: point.x - 100, y: point.y - 20 });
+});
+
+ipcMain.handle('show-tab-menu', async (event, tab: SessionTab, state: TabMenuState) => {
+  const from = getWindowState(event);
+  const otherWindows = [...windows.values()].filter(
+    (win) => win !== from && win.isPrivate === from.isPrivate
+  );
+  const contents = from.tabViews.get(tab.id)?.webContents;
+  const runAction = (action: TabMenuAction, groupId?: string) => {
+    from.window.webContents.send('tab-menu-action', { tabId: tab.id, action, groupId });
+  };
+  const tabsLabel = state.groupTabCount > 1 ? `${state.groupTabCount} Tabs` : 'Tab';
+
+  const menu = Menu.buildFromTemplate([
+    { label: 'Reload', click: () => runAction('reload') },
+    { label: 'Duplicate', click: () => runAction('duplicate') },
+    state.isPinned
+      ? { label: 'Unpin Tab', click: () => runAction('unpin') }
+      : { label: 'Pin Tab', click: () => runAction('pin') },
+    {
+      label: contents?.isAudioMuted() ? 'Unmute Tab' : 'Mute Tab',
+      enabled: contents !== undefined,
+      click: () => {
+        if (!contents) return;
+        contents.setAudioMuted(!contents.isAudioMuted());
+        sendAudioState(tab.id, contents);
+      },
+    },
+    { type: 'separator' },
+    {
+      label: `Add ${tabsLabel} to New Group`,
+      enabled: !state.isPinned,
+      click: () => runAction('newGroup'),
+    },
+    ...(state.groups.length > 0 ? [{
+      label: `Add ${tabsLabel} to Group`,
+      enabled: !state.isPinned,
+      submenu: state.groups.map((group) => ({
+        label: group.name || 'Unnamed Group',
+        click: () => runAction('addToGroup', group.id),
+      })),
+    }] : []),
+    ...(state.isGrouped ? [{
+      label: `Remove ${tabsLabel} from Group`,
+      click: () => runAction('removeFromGroup'),
+    }] : []),
+    { type: 'separator' },
+    {
+      label: 'Move Tab to New Window',
+      enabled: !state.isOnlyTab,
+      click: () => moveTab(from, tab, null),
+    },
+    ...(otherWindows.length > 0 ? [{
+      label: 'Move Tab to Window',
+      submenu: otherWindows.map((win) => ({
+        label: win.window.getTitle() || 'Cookie Browser',
+        click: () => moveTab(from, tab, win),
+      })),
+    }] : []),
+    { type: 'separator' },
+    { label: 'Close Tab', click: () => runAction('close') },
+    { label: 'Close Other Tabs', enabled: state.hasOtherTabs, click: () => runAction('closeOthers') },
+    { label: 'Close Tabs to the Right', enabled: state.hasTabsToRight, click: () => runAction('closeToRight') },
+  ]);
+  menu.popup({ window: from.window });
+});
+
+ipcMain.handle('show-tab-group-menu', async (event, group: SessionTabGroup) => {
+  const win = getWindowState(event);
+  const runAction = (action: TabGroupAction, color?: TabGroupColor) => {
+    win.window.webContents.send('tab-group-action', { groupId: group.id, action, color });
+  };
+
+  const menu = Menu.buildFromTemplate([
+    { label: 'New Tab in Group', click: () => runAction('newTab') },
+    { label: 'Rename Group…', click: () => runAction('rename') },
+    {
+      label: 'Color',
+      submenu: TAB_GROUP_COLORS.map(({ color, label }) => ({
+        label,
+        type: 'radio' as const,
+        checked: group.color === color,
+        click: () => runAction('color', color),
+      })),
+    },
+    { label: group.collapsed ? 'Expand Group' : 'Collapse Group', click: () => runAction('toggleCollapsed') },
+    { type: 'separator' },
+    { label: 'Save Group as Bookmarks', click: () => runAction('saveAsBookmarks') },
+    { label: 'Ungroup', click: () => runAction('ungroup') },
+    { label: 'Close Group', click: () => runAction('close') },
+  ]);
+  menu.popup({ window: win.window });
+});
+
+// The URL bar's notice about blocked pop-ups
+ipcMain.handle('show-blocked-popups-menu', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  if (!view) return;
+
+  const { origin, urls } = getBlockedPopups(tabId, view.webContents);
+  const openTab = (url: string) => {
+    win.window.webContents.send('open-tab-requested', { url, openerTabId: tabId, background: false });
+  };
+
+  const menu = Menu.buildFromTemplate([
+    ...urls.map((url) => ({
+      label: `Open ${url.length > 60 ? `${url.slice(0, 60)}…` : url}`,
+      click: () => openTab(url),
+    })),
+    { type: 'separator' },
+    ...(origin ? [{
+      label: `Always Allow Pop-ups from ${origin}`,
+      click: () => {
+        setSitePermission(win.isPrivate, origin, 'popups', 'allow');
+        clearBlockedPopups(view.webContents);
+        sendBlockedPopups(win, tabId, view.webContents);
+      },
+    }] : []),
+    { label: 'Manage Pop-up Settings…', click: () => sendCommand(win, 'showSettings') },
+  ]);
+  menu.popup({ window: win.window });
+});
+
+// Session restore: each normal window saves its tabs continuously. The first
+// window asks for the previous run's session at startup, and windows opened
+// for a moved tab or reopened on macOS get their tabs the same way.
+ipcMain.handle('get-saved-session', async (event) => {
+  const win = getWindowState(event);
+  if (win.initialSession) {
+    const session = win.initialSession;
+    win.initialSession = null;
+    return { session, crashed: false, restore: true };
+  }
+  if (win.isPrivate) {
+    return { session: null, crashed: false };
+  }
+  return takePreviousSession();
+});
+
+// Once the first window restored, bring back the previous run's other windows
+ipcMain.handle('restore-session-windows', async () => {
+  for (const initialSession of takePreviousExtraWindows()) {
+    createWindow({ initialSession });
+  }
+});
+
+ipcMain.handle('save-session', async (event, session: SessionState) => {
+  const win = getWindowState(event);
+  win.session = session;
+  if (win.isPrivate) return;
+  saveWindowSession(win.window.webContents.id, session);
+});
+
+// Recently closed tabs and windows
+// Closed tabs keep their views' back/forward lists. The renderer records them
+// before asking for their views to be destroyed.
+ipcMain.handle('record-closed-tabs', async (event, tabs: { tab: SessionTab; index: number }[]) => {
+  const win = getWindowState(event);
+  recordClosedTabs(win.isPrivate, win.window.webContents.id, tabs.map((closed) => {
+    const view = win.tabViews.get(closed.tab.id);
+    if (!view || view.webContents.isDestroyed()) return closed;
+    const { navigationHistory } = view.webContents;
+    return {
+      ...closed,
+      navigation: { entries: navigationHistory.getAllEntries(), index: navigationHistory.getActiveIndex() },
+    };
+  }));
+  sendToWindows('recently-closed-changed', null, win.isPrivate);
+});
+
+ipcMain.handle('get-recently-closed', async (event) => {
+  return getRecentlyClosed(getWindowState(event).isPrivate);
+});
+
+// Restore one entry, or the latest. Tabs go back to their own window while
+// it's still open, otherwise to the window asking, under a new id and with
+// their back/forward list loaded into a new view before the renderer shows it.
+ipcMain.handle('restore-closed', async (event, id?: string) => {
+  const from = getWindowState(event);
+  const entry = takeRecentlyClosed(from.isPrivate, id);
+  if (!entry) return;
+
+  if (entry.kind === 'window') {
+    createWindow({ isPrivate: from.isPrivate, initialSession: entry.session });
+  } else {
+    const original = windows.get(entry.windowId);
+    const target = original && !original.window.isDestroyed() ? original : from;
+    const tabId = randomUUID();
+    if (entry.navigation && entry.navigation.entries.length > 0) {
+      const view = getOrCreateTabView(target, tabId);
+      await view.webContents.navigationHistory.restore(entry.navigation).catch((error) => {
+        console.error('Failed to restore tab history:', error);
+      });
+    }
+    // The window may have closed while the history loaded
+    if (!target.window.isDestroyed()) {
+      target.window.webContents.send('tab-restored', { tab: { ...entry.tab, id: tabId }, index: entry.index });
+      target.window.focus();
+    }
+  }
+  sendToWindows('recently-closed-changed', null, from.isPrivate);
+});
+
+// Downloads
+ipcMain.handle('get-downloads', async (event) => {
+  return getDownloads(getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('pause-download', async (_event, id: string) => {
+  return pauseDownload(id);
+});
+
+ipcMain.handle('resume-download', async (_event, id: string) => {
+  return resumeDownload(id);
+});
+
+ipcMain.handle('cancel-download', async (_event, id: string) => {
+  return cancelDownload(id);
+});
+
+ipcMain.handle('retry-download', async (event, id: string) => {
+  return retryDownload(getWindowSession(getWindowState(event)), id);
+});
+
+ipcMain.handle('remove-download', async (_event, id: string) => {
+  removeDownload(id);
+});
+
+ipcMain.handle('clear-downloads', async (event) => {
+  clearFinishedDownloads(getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('open-download', async (_event, id: string) => {
+  return openDownload(id);
+});
+
+ipcMain.handle('show-download-in-folder', async (_event, id: string) => {
+  return showDownloadInFolder(id);
+});
+
+ipcMain.handle('get-download-preferences', async () => {
+  return getDownloadPreferences();
+});
+
+ipcMain.handle('set-download-preferences', async (_event, preferences: Partial<DownloadPreferences>) => {
+  return setDownloadPreferences(preferences);
+});
+
+ipcMain.handle('choose-download-folder', async () => {
+  return chooseDownloadFolder();
+});
+
+// Cached site icons for the given page origins, as data URLs
+ipcMain.handle('get-favicons', async (event, origins: string[]) => {
+  return getFavicons(origins, getWindowState(event).isPrivate);
+});
+
+// Private windows can look at history but never add to it
+ipcMain.handle('query-history', async (_event, query?: HistoryQuery) => {
+  return queryHistory(query);
+});
+
+// A page of visits at a time; the History page asks for more as it scrolls
+const MAX_HISTORY_VISITS = 1000;
+
+ipcMain.handle('get-history-visits', async (_event, query: HistoryQuery = {}) => {
+  return getHistoryVisits({ ...query, limit: Math.min(query.limit ?? MAX_HISTORY_VISITS, MAX_HISTORY_VISITS) });
+});
+
+ipcMain.handle('remove-history-url', async (_event, url: string) => {
+  removeHistoryUrl(url);
+});
+
+ipcMain.handle('remove-history-visits', async (_event, visits: HistoryVisitKey[]) => {
+  removeHistoryVisits(visits);
+});
+
+// Private windows never write history, so they can't clear it either
+ipcMain.handle('clear-history', async (event, since?: number) => {
+  if (!getWindowState(event).isPrivate) clearHistory(since);
+});
+
+ipcMain.handle('import-legacy-history', async (event, entries: LegacyHistoryEntry[]) => {
+  if (!getWindowState(event).isPrivate) importLegacyHistory(entries);
+});
+
+ipcMain.handle('get-history-preferences', async () => {
+  return getHistoryPreferences();
+});
+
+ipcMain.handle('set-history-preferences', async (_event, preferences: Partial<HistoryPreferences>) => {
+  return setHistoryPreferences(preferences);
+});
+
+// Zoom levels for the page a tab shows, internal pages included
+ipcMain.handle('get-zoom-factor', async (event, url: string) => {
+  return getZoomFactor(url, getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('change-zoom', async (event, url: string, action: ZoomAction) => {
+  return zoomPage(url, action, getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('get-zoom-preferences', async () => {
+  return getZoomPreferences();
+});
+
+ipcMain.handle('set-zoom-preferences', async (_event, preferences: Partial<ZoomPreferences>) => {
+  const updated = setZoomPreferences(preferences);
+  refreshZoom(false);
+  refreshZoom(true);
+  return updated;
+});
+
+ipcMain.handle('get-shortcuts', async () => {
+  return getShortcuts();
+});
+
+ipcMain.handle('set-shortcut', async (_event, command: ShortcutCommand, accelerator: string) => {
+  return setShortcut(command, accelerator);
+});
+
+ipcMain.handle('reset-shortcuts', async (_event, command?: ShortcutCommand) => {
+  return resetShortcuts(command);
+});
+
+// Resolves with the next key combination pressed in the window, or null
+ipcMain.handle('record-shortcut', async (event) => {
+  const win = getWindowState(event);
+  win.shortcutRecorder?.(null);
+  return new Promise<string | null>((resolve) => {
+    win.shortcutRecorder = resolve;
+  });
+});
+
+ipcMain.handle('cancel-shortcut-recording', async (event) => {
+  const win = getWindowState(event);
+  const finish = win.shortcutRecorder;
+  win.shortcutRecorder = null;
+  finish?.(null);
+});
+
+// Cookies and site data, for the session of the window asking
+ipcMain.handle('get-site-data', async (event) => {
+  return getSiteDataOverview(getWindowSession(getWindowState(event)));
+});
+
+ipcMain.handle('get-site-cookies', async (event, site: string) => {
+  return getSiteCookies(getWindowSession(getWindowState(event)), site);
+});
+
+ipcMain.handle('save-cookie', async (event, cookie: CookieInfo, original?: CookieKey) => {
+  try {
+    await saveCookie(getWindowSession(getWindowState(event)), cookie, original);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+});
+
+ipcMain.handle('remove-cookie', async (event, cookie: CookieKey) => {
+  await removeCookie(getWindowSession(getWindowState(event)), cookie);
+});
+
+// Origins a site's storage may be under: pages open in the session's
+// windows and, outside private windows, pages in history
+function getKnownOrigins(win: WindowState, site: string): string[] {
+  const urls = [...windows.values()]
+    .filter((other) => other.isPrivate === win.isPrivate)
+    .flatMap((other) => [...other.tabViews.values()].map((view) => view.webContents.getURL()));
+  if (!win.isPrivate) {
+    urls.push(...queryHistory({ host: site }).map((record) => record.url));
+  }
+  return [...new Set(urls.flatMap((url) => {
+    try {
+      const { protocol, origin } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:' ? [origin] : [];
+    } catch {
+      return [];
+    }
+  }))];
+}
+
+ipcMain.handle('clear-site-data', async (event, site: string) => {
+  const win = getWindowState(event);
+  await clearSiteData(getWindowSession(win), site, getKnownOrigins(win, site));
+});
+
+ipcMain.handle('clear-cache', async (event) => {
+  await clearCache(getWindowSession(getWindowState(event)));
+});
+
+// Site permissions, for the session of the window asking
+ipcMain.handle('answer-permission-request', async (_event, id: string, allow: boolean, remember: boolean) => {
+  answerPermissionRequest(id, allow, remember);
+});
+
+ipcMain.handle('get-site-permissions', async (event) => {
+  return getSitePermissions(getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('set-site-permission', async (event, origin: string, kind: PermissionKind, decision: PermissionDecision) => {
+  setSitePermission(getWindowState(event).isPrivate, origin, kind, decision);
+});
+
+ipcMain.handle('remove-site-permissions', async (event, origin: string) => {
+  removeSitePermissions(getWindowState(event).isPrivate, origin);
+});
+
+// Content blocking
+ipcMain.handle('get-content-blocker-state', async (event, tabId: string) => {
+  const win = getWindowState(event);
+  const view = win.tabViews.get(tabId);
+  return view ? getBlockerState(tabId, view.webContents, win.isPrivate) : null;
+});
+
+// The renderer reloads the tab afterwards, so the change shows right away
+ipcMain.handle('set-site-blocking', async (event, site: string, enabled: boolean) => {
+  setSiteBlocking(site, enabled, getWindowState(event).isPrivate);
+});
+
+ipcMain.handle('get-blocking-disabled-sites', async () => {
+  return getDisabledSites();
+});
+
+ipcMain.handle('get-filter-lists', async () => {
+  return getFilterLists();
+});
+
+ipcMain.handle('import-filter-lists', async () => {
+  return importFilterLists();
+});
+
+ipcMain.handle('remove-filter-list', async (_event, id: string) => {
+  return removeFilterList(id);
+});
+
+app.whenReady().then(() => {
+  loadPreviousSession();
+  initHistory();
+  initZoom();
+  initShortcuts(() => buildAppMenu(runMenuCommand));
+  buildAppMenu(runMenuCommand);
+
+  // Updates only go to windows of the same kind as the download
+  initDownloads((record) => {
+    sendToWindows('download-updated', record, Boolean(record.isPrivate));
+  });
+  watchSessionDownloads(session.defaultSession, false);
+
+  // Every window of the same kind may be showing the site somewhere
+  initFavicons((update, isPrivate) => {
+    sendToWindows('favicon-updated', update, isPrivate);
+  });
+
+  // Prompts show up in the window of the tab that asked
+  initPermissions({
+    isTab: (contents) => findContentsTab(contents) !== undefined,
+    show: (contents, prompt) => {
+      const owner = findContentsTab(contents);
+      owner?.win.window.webContents.send('permission-requested', { ...prompt, tabId: owner.tabId });
+    },
+    close: (contents, id) => {
+      const owner = findContentsTab(contents);
+      if (owner && !owner.win.window.isDestroyed()) {
+        owner.win.window.webContents.send('permission-request-closed', id);
+      }
+    },
+  });
+  watchSessionPermissions(session.defaultSession, false);
+
+  initContentBlocker({
+    isTab: (contents) => findContentsTab(contents) !== undefined,
+    onBlocked: (contents) => {
+      const owner = findContentsTab(contents);
+      if (owner) sendBlockerState(owner.win, owner.tabId, contents);
+    },
+  });
+  watchSessionBlocking(session.defaultSession, false);
+
+  createWindow();
+});
+
+app.on('before-quit', () => {
+  markQuitting();
+});
+
+// History is written asynchronously, so quitting waits for it once
+let historyFlushed = false;
+app.on('will-quit', (event) => {
+  if (!historyFlushed) {
+    event.preventDefault();
+    flushHistory().finally(() => {
+      historyFlushed = true;
+      app.quit();
+    });
+    return;
+  }
+  markCleanExit();
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -308,8 +1590,9 @@ app.on('window-all-closed', () => {
   }
 });
 
+// On macOS the app outlives its windows; reopen the last one as it was
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
-    createWindow();
+    createWindow({ initialSession: takeLastWindowSession() });
   }
 });
@@ -0,0 +1,223 @@
+import type { Session, WebContents } from 'electron';
+import { readJsonFile, writeJsonFile } from './store';
+
+// Per-site answers to what pages may use. Pages in tabs get an in-app prompt
+// for anything not decided yet; everything else keeps Electron's default of
+// allowing the request.
+
+// Pop-ups aren't a Chromium permission; the pop-up blocker keeps its answers here
+export type PermissionKind =
+  | 'camera'
+  | 'microphone'
+  | 'geolocation'
+  | 'notifications'
+  | 'clipboard'
+  | 'fullscreen'
+  | 'popups';
+
+// "ask" keeps prompting every time, but still shows up in Settings
+export type PermissionDecision = 'allow' | 'block' | 'ask';
+
+export type SitePermissionDecisions = Partial<Record<PermissionKind, PermissionDecision>>;
+
+export interface SitePermissions {
+  origin: string;
+  permissions: SitePermissionDecisions;
+}
+
+// What the renderer shows a prompt for
+export interface PermissionPromptInfo {
+  id: string;
+  origin: string;
+  kinds: PermissionKind[];
+}
+
+interface PendingRequest {
+  prompt: PermissionPromptInfo;
+  contents: WebContents;
+  isPrivate: boolean;
+  callback: (granted: boolean) => void;
+}
+
+export interface PermissionPrompter {
+  // Whether the web contents belong to a tab. The app's own windows are trusted.
+  isTab: (contents: WebContents) => boolean;
+  show: (contents: WebContents, prompt: PermissionPromptInfo) => void;
+  close: (contents: WebContents, id: string) => void;
+}
+
+const PERMISSIONS_FILE = 'permissions.json';
+
+let decisions: Record<string, SitePermissionDecisions> = {};
+// Decisions made in private windows, dropped when the private session ends
+let privateDecisions: Record<string, SitePermissionDecisions> = {};
+const pending = new Map<string, PendingRequest>();
+let prompter: PermissionPrompter | null = null;
+
+function getDecisions(isPrivate: boolean) {
+  return isPrivate ? privateDecisions : decisions;
+}
+
+function persistDecisions() {
+  writeJsonFile(PERMISSIONS_FILE, decisions);
+}
+
+export function getOrigin(url: string): string | null {
+  try {
+    const { origin } = new URL(url);
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+// The kinds a request needs, or null for permissions we leave alone
+function getRequestedKinds(permission: string, mediaTypes: string[] = []): PermissionKind[] | null {
+  switch (permission) {
+    case 'media': {
+      const kinds: PermissionKind[] = [];
+      if (mediaTypes.includes('video')) kinds.push('camera');
+      if (mediaTypes.includes('audio')) kinds.push('microphone');
+      return kinds.length > 0 ? kinds : ['camera', 'microphone'];
+    }
+    case 'geolocation':
+    case 'notifications':
+    case 'fullscreen':
+      return [permission];
+    case 'clipboard-read':
+    case 'deprecated-sync-clipboard-read':
+      return ['clipboard'];
+    default:
+      return null;
+  }
+}
+
+// true or false once every kind has a lasting answer, undefined to ask
+function decide(isPrivate: boolean, origin: string, kinds: PermissionKind[]): boolean | undefined {
+  const site = getDecisions(isPrivate)[origin] ?? {};
+  if (kinds.some((kind) => site[kind] === 'block')) return false;
+  if (kinds.every((kind) => site[kind] === 'allow')) return true;
+  return undefined;
+}
+
+function settle(id: string, granted: boolean) {
+  const request = pending.get(id);
+  if (!request) return;
+  pending.delete(id);
+  request.callback(granted);
+  if (!request.contents.isDestroyed()) {
+    prompter?.close(request.contents, id);
+  }
+}
+
+export function initPermissions(permissionPrompter: PermissionPrompter) {
+  prompter = permissionPrompter;
+  decisions = readJsonFile<Record<string, SitePermissionDecisions>>(PERMISSIONS_FILE, {});
+}
+
+export function watchSessionPermissions(ses: Session, isPrivate: boolean) {
+  ses.setPermissionRequestHandler((contents, permission, callback, details) => {
+    const mediaTypes = 'mediaTypes' in details ? details.mediaTypes : undefined;
+    const kinds = getRequestedKinds(permission, mediaTypes);
+    if (!kinds || !prompter?.isTab(contents)) {
+      callback(true);
+      return;
+    }
+
+    const origin = getOrigin(details.requestingUrl);
+    if (!origin) {
+      callback(false);
+      return;
+    }
+
+    const decided = decide(isPrivate, origin, kinds);
+    if (decided !== undefined) {
+      callback(decided);
+      return;
+    }
+
+    const prompt: PermissionPromptInfo = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      origin,
+      kinds,
+    };
+    pending.set(prompt.id, { prompt, contents, isPrivate, callback });
+    prompter.show(contents, prompt);
+  });
+
+  // Only a block fails the check. Sites often check before they ask, and an
+  // undecided permission failing would stop them from ever asking.
+  ses.setPermissionCheckHandler((contents, permission, requestingOrigin, details) => {
+    const mediaTypes = details.mediaType && details.mediaType !== 'unknown' ? [details.mediaType] : [];
+    const kinds = getRequestedKinds(permission, mediaTypes);
+    if (!kinds || !contents || !prompter?.isTab(contents)) return true;
+
+    const origin = getOrigin(requestingOrigin);
+    return origin !== null && decide(isPrivate, origin, kinds) !== false;
+  });
+}
+
+// The user answered a prompt. Unless they asked to be asked every time, the
+// answer sticks and settles any other waiting prompts it covers.
+export function answerPermissionRequest(id: string, allow: boolean, remember: boolean) {
+  const request = pending.get(id);
+  if (!request) return;
+
+  const { origin, kinds } = request.prompt;
+  const siteDecisions = getDecisions(request.isPrivate);
+  const site = { ...siteDecisions[origin] };
+  for (const kind of kinds) {
+    site[kind] = remember ? (allow ? 'allow' : 'block') : 'ask';
+  }
+  siteDecisions[origin] = site;
+  if (!request.isPrivate) persistDecisions();
+
+  settle(id, allow);
+
+  for (const other of [...pending.values()]) {
+    if (other.isPrivate !== request.isPrivate || other.prompt.origin !== origin) continue;
+    const decided = decide(other.isPrivate, origin, other.prompt.kinds);
+    if (decided !== undefined) settle(other.prompt.id, decided);
+  }
+}
+
+// Deny whatever a page was still waiting on, e.g. when it navigates away,
+// its tab closes, or it moves to another window
+export function cancelPermissionRequests(contents: WebContents) {
+  for (const request of [...pending.values()]) {
+    if (request.contents === contents) {
+      settle(request.prompt.id, false);
+    }
+  }
+}
+
+export function getSitePermissions(isPrivate: boolean): SitePermissions[] {
+  return Object.entries(getDecisions(isPrivate))
+    .filter(([, permissions]) => Object.keys(permissions).length > 0)
+    .map(([origin, permissions]) => ({ origin, permissions }))
+    .sort((a, b) => a.origin.localeCompare(b.origin));
+}
+
+export function getSitePermission(isPrivate: boolean, origin: string, kind: PermissionKind): PermissionDecision | undefined {
+  return getDecisions(isPrivate)[origin]?.[kind];
+}
+
+export function setSitePermission(isPrivate: boolean, origin: string, kind: PermissionKind, decision: PermissionDecision) {
+  const siteDecisions = getDecisions(isPrivate);
+  siteDecisions[origin] = { ...siteDecisions[origin], [kind]: decision };
+  if (!isPrivate) persistDecisions();
+}
+
+// Forget every decision for a site, so it has to ask again
+export function removeSitePermissions(isPrivate: boolean, origin: string) {
+  delete getDecisions(isPrivate)[origin];
+  if (!isPrivate) persistDecisions();
+}
+
+// Called when the last private window closes
+export function forgetPrivatePermissions() {
+  for (const request of [...pending.values()]) {
+    if (request.isPrivate) settle(request.prompt.id, false);
+  }
+  privateDecisions = {};
+}
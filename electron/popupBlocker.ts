@@ -0,0 +1,73 @@
+import type { WebContents } from 'electron';
+import { getOrigin, getSitePermission } from './permissions';
+
+// Blocks windows pages open on their own, like Chromium does. A click or key
+// press lets the page open one window for a few seconds afterwards. Sites
+// allowed pop-ups in their permissions may open them any time, and sites
+// set to block them are blocked without telling the user.
+
+// What the URL bar shows for a tab
+export interface BlockedPopupsState {
+  tabId: string;
+  // Where the blocked pop-ups came from, for allowing the site
+  origin: string | null;
+  urls: string[];
+}
+
+// How long a click or key press counts, like Chromium's transient activation
+const ACTIVATION_MS = 5000;
+
+const ACTIVATING_INPUTS = new Set(['mouseDown', 'rawKeyDown', 'keyDown', 'touchStart', 'gestureTap']);
+
+// When each page last had input from the user, keyed by web contents id
+const activations = new Map<number, number>();
+// Pop-ups blocked on each tab's current page, keyed by web contents id
+const blockedUrls = new Map<number, string[]>();
+
+export function watchUserActivation(contents: WebContents) {
+  const contentsId = contents.id;
+  contents.on('input-event', (_event, input) => {
+    if (ACTIVATING_INPUTS.has(input.type)) {
+      activations.set(contentsId, Date.now());
+    }
+  });
+  contents.once('destroyed', () => {
+    activations.delete(contentsId);
+    blockedUrls.delete(contentsId);
+  });
+}
+
+// Whether a page may open a window now. Each activation is good for one.
+export function allowPopup(contents: WebContents, isPrivate: boolean): boolean {
+  const activatedAt = activations.get(contents.id);
+  if (activatedAt !== undefined && Date.now() - activatedAt < ACTIVATION_MS) {
+    activations.delete(contents.id);
+    return true;
+  }
+  const origin = getOrigin(contents.getURL());
+  return origin !== null && getSitePermission(isPrivate, origin, 'popups') === 'allow';
+}
+
+// Note a pop-up that wasn't allowed. Returns whether the user should hear about it.
+export function blockPopup(contents: WebContents, url: string, isPrivate: boolean): boolean {
+  const origin = getOrigin(contents.getURL());
+  if (origin && getSitePermission(isPrivate, origin, 'popups') === 'block') return false;
+  const urls = blockedUrls.get(contents.id) ?? [];
+  if (!urls.includes(url)) {
+    blockedUrls.set(contents.id, [...urls, url]);
+  }
+  return true;
+}
+
+export function getBlockedPopups(tabId: string, contents: WebContents): BlockedPopupsState {
+  return {
+    tabId,
+    origin: getOrigin(contents.getURL()),
+    urls: blockedUrls.get(contents.id) ?? [],
+  };
+}
+
+// A new page starts without blocked pop-ups. Returns whether there were any.
+export function clearBlockedPopups(contents: WebContents): boolean {
+  return blockedUrls.delete(contents.id);
+}
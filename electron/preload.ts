@@ -1,29 +1,233 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  navigateToUrl: (url: string) => ipcRenderer.invoke('navigate-to-url', url),
-  closeBrowserView: () => ipcRenderer.invoke('close-browser-view'),
-  showBrowserView: () => ipcRenderer.invoke('show-browser-view'),
-  getBrowserViewState: () => ipcRenderer.invoke('get-browser-view-state'),
-  goBack: () => ipcRenderer.invoke('go-back'),
-  goForward: () => ipcRenderer.invoke('go-forward'),
-  reload: () => ipcRenderer.invoke('reload'),
-  getCurrentUrl: () => ipcRenderer.invoke('get-current-url'),
-  getPageTitle: () => ipcRenderer.invoke('get-page-title'),
-  canGoBack: () => ipcRenderer.invoke('can-go-back'),
-  canGoForward: () => ipcRenderer.invoke('can-go-forward'),
-  isBrowserViewActive: () => ipcRenderer.invoke('is-browser-view-active'),
-  
+  // Set by main through additionalArguments when it opens a private window
+  isPrivate: process.argv.includes('--cookie-private-window'),
+
+  navigateToUrl: (tabId: string, url: string, transition?: string) =>
+    ipcRenderer.invoke('navigate-to-url', tabId, url, transition),
+  closeBrowserView: (tabId: string) => ipcRenderer.invoke('close-browser-view', tabId),
+  destroyBrowserView: (tabId: string) => ipcRenderer.invoke('destroy-browser-view', tabId),
+  showBrowserView: (tabId: string) => ipcRenderer.invoke('show-browser-view', tabId),
+  getBrowserViewState: (tabId: string) => ipcRenderer.invoke('get-browser-view-state', tabId),
+  goBack: (tabId: string) => ipcRenderer.invoke('go-back', tabId),
+  goForward: (tabId: string) => ipcRenderer.invoke('go-forward', tabId),
+  reload: (tabId: string) => ipcRenderer.invoke('reload', tabId),
+  stopLoading: (tabId: string) => ipcRenderer.invoke('stop-loading', tabId),
+  setTabMuted: (tabId: string, muted: boolean) => ipcRenderer.invoke('set-tab-muted', tabId, muted),
+  getCurrentUrl: (tabId: string) => ipcRenderer.invoke('get-current-url', tabId),
+  getPageTitle: (tabId: string) => ipcRenderer.invoke('get-page-title', tabId),
+  canGoBack: (tabId: string) => ipcRenderer.invoke('can-go-back', tabId),
+  canGoForward: (tabId: string) => ipcRenderer.invoke('can-go-forward', tabId),
+  isBrowserViewActive: (tabId: string) => ipcRenderer.invoke('is-browser-view-active', tabId),
+  setOverlayVisible: (visible: boolean) => ipcRenderer.invoke('set-overlay-visible', visible),
+  setContentTopOffset: (offset: number) => ipcRenderer.invoke('set-content-top-offset', offset),
+  findInPage: (tabId: string, text: string, options: unknown) => ipcRenderer.invoke('find-in-page', tabId, text, options),
+  stopFindInPage: (tabId: string, action: string) => ipcRenderer.invoke('stop-find-in-page', tabId, action),
+  getDownloads: () => ipcRenderer.invoke('get-downloads'),
+  pauseDownload: (id: string) => ipcRenderer.invoke('pause-download', id),
+  resumeDownload: (id: string) => ipcRenderer.invoke('resume-download', id),
+  cancelDownload: (id: string) => ipcRenderer.invoke('cancel-download', id),
+  retryDownload: (id: string) => ipcRenderer.invoke('retry-download', id),
+  removeDownload: (id: string) => ipcRenderer.invoke('remove-download', id),
+  clearDownloads: () => ipcRenderer.invoke('clear-downloads'),
+  openDownload: (id: string) => ipcRenderer.invoke('open-download', id),
+  showDownloadInFolder: (id: string) => ipcRenderer.invoke('show-download-in-folder', id),
+  getDownloadPreferences: () => ipcRenderer.invoke('get-download-preferences'),
+  setDownloadPreferences: (preferences: unknown) => ipcRenderer.invoke('set-download-preferences', preferences),
+  chooseDownloadFolder: () => ipcRenderer.invoke('choose-download-folder'),
+  getFavicons: (origins: string[]) => ipcRenderer.invoke('get-favicons', origins),
+  queryHistory: (query?: unknown) => ipcRenderer.invoke('query-history', query),
+  getHistoryVisits: (query?: unknown) => ipcRenderer.invoke('get-history-visits', query),
+  removeHistoryUrl: (url: string) => ipcRenderer.invoke('remove-history-url', url),
+  removeHistoryVisits: (visits: unknown) => ipcRenderer.invoke('remove-history-visits', visits),
+  clearHistory: (since?: number) => ipcRenderer.invoke('clear-history', since),
+  importLegacyHistory: (entries: unknown) => ipcRenderer.invoke('import-legacy-history', entries),
+  getHistoryPreferences: () => ipcRenderer.invoke('get-history-preferences'),
+  setHistoryPreferences: (preferences: unknown) => ipcRenderer.invoke('set-history-preferences', preferences),
+  getZoomFactor: (url: string) => ipcRenderer.invoke('get-zoom-factor', url),
+  changeZoom: (url: string, action: string) => ipcRenderer.invoke('change-zoom', url, action),
+  getZoomPreferences: () => ipcRenderer.invoke('get-zoom-preferences'),
+  setZoomPreferences: (preferences: unknown) => ipcRenderer.invoke('set-zoom-preferences', preferences),
+  getShortcuts: () => ipcRenderer.invoke('get-shortcuts'),
+  setShortcut: (command: string, accelerator: string) => ipcRenderer.invoke('set-shortcut', command, accelerator),
+  resetShortcuts: (command?: string) => ipcRenderer.invoke('reset-shortcuts', command),
+  recordShortcut: () => ipcRenderer.invoke('record-shortcut'),
+  cancelShortcutRecording: () => ipcRenderer.invoke('cancel-shortcut-recording'),
+  getSiteData: () => ipcRenderer.invoke('get-site-data'),
+  getSiteCookies: (site: string) => ipcRenderer.invoke('get-site-cookies', site),
+  saveCookie: (cookie: unknown, original?: unknown) => ipcRenderer.invoke('save-cookie', cookie, original),
+  removeCookie: (cookie: unknown) => ipcRenderer.invoke('remove-cookie', cookie),
+  clearSiteData: (site: string) => ipcRenderer.invoke('clear-site-data', site),
+  clearCache: () => ipcRenderer.invoke('clear-cache'),
+  answerPermissionRequest: (id: string, allow: boolean, remember: boolean) =>
+    ipcRenderer.invoke('answer-permission-request', id, allow, remember),
+  getSitePermissions: () => ipcRenderer.invoke('get-site-permissions'),
+  setSitePermission: (origin: string, kind: string, decision: string) =>
+    ipcRenderer.invoke('set-site-permission', origin, kind, decision),
+  removeSitePermissions: (origin: string) => ipcRenderer.invoke('remove-site-permissions', origin),
+  getContentBlockerState: (tabId: string) => ipcRenderer.invoke('get-content-blocker-state', tabId),
+  setSiteBlocking: (site: string, enabled: boolean) => ipcRenderer.invoke('set-site-blocking', site, enabled),
+  getBlockingDisabledSites: () => ipcRenderer.invoke('get-blocking-disabled-sites'),
+  getFilterLists: () => ipcRenderer.invoke('get-filter-lists'),
+  importFilterLists: () => ipcRenderer.invoke('import-filter-lists'),
+  removeFilterList: (id: string) => ipcRenderer.invoke('remove-filter-list', id),
+  openNewWindow: () => ipcRenderer.invoke('open-new-window'),
+  openPrivateWindow: () => ipcRenderer.invoke('open-private-window'),
+  closeWindow: () => ipcRenderer.invoke('close-window'),
+  detachTab: (tab: unknown, isOnlyTab: boolean) => ipcRenderer.invoke('detach-tab', tab, isOnlyTab),
+  showTabMenu: (tab: unknown, state: unknown) => ipcRenderer.invoke('show-tab-menu', tab, state),
+  showTabGroupMenu: (group: unknown) => ipcRenderer.invoke('show-tab-group-menu', group),
+  showBlockedPopupsMenu: (tabId: string) => ipcRenderer.invoke('show-blocked-popups-menu', tabId),
+  getSavedSession: () => ipcRenderer.invoke('get-saved-session'),
+  restoreSessionWindows: () => ipcRenderer.invoke('restore-session-windows'),
+  saveSession: (session: unknown) => ipcRenderer.invoke('save-session', session),
+  recordClosedTabs: (tabs: unknown) => ipcRenderer.invoke('record-closed-tabs', tabs),
+  getRecentlyClosed: () => ipcRenderer.invoke('get-recently-closed'),
+  restoreClosed: (id?: string) => ipcRenderer.invoke('restore-closed', id),
+
   // Event listeners for BrowserView navigation events
-  onBrowserViewNavigated: (callback: (data: { url: string; title: string; canGoBack: boolean; canGoForward: boolean }) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, data: { url: string; title: string; canGoBack: boolean; canGoForward: boolean }) => callback(data);
+  onBrowserViewNavigated: (callback: (data: { tabId: string; url: string; title: string; canGoBack: boolean; canGoForward: boolean }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { tabId: string; url: string; title: string; canGoBack: boolean; canGoForward: boolean }) => callback(data);
     ipcRenderer.on('browser-view-navigated', handler);
     return () => ipcRenderer.removeListener('browser-view-navigated', handler);
   },
-  
-  onBrowserViewTitleUpdated: (callback: (data: { title: string; url: string }) => void) => {
-    const handler = (_event: Electron.IpcRendererEvent, data: { title: string; url: string }) => callback(data);
+
+  onBrowserViewTitleUpdated: (callback: (data: { tabId: string; title: string; url: string }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { tabId: string; title: string; url: string }) => callback(data);
     ipcRenderer.on('browser-view-title-updated', handler);
     return () => ipcRenderer.removeListener('browser-view-title-updated', handler);
   },
+
+  onBrowserViewLoading: (callback: (data: { tabId: string; isLoading: boolean; progress: number }) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: { tabId: string; isLoading: boolean; progress: number }) => callback(data);
+    ipcRenderer.on('browser-view-loading', handler);
+    return () => ipcRenderer.removeListener('browser-view-loading', handler);
+  },
+
+  onBrowserViewLoadFailed: (callback: (data: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data);
+    ipcRenderer.on('browser-view-load-failed', handler);
+    return () => ipcRenderer.removeListener('browser-view-load-failed', handler);
+  },
+
+  onBrowserViewCrashed: (callback: (data: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data);
+    ipcRenderer.on('browser-view-crashed', handler);
+    return () => ipcRenderer.removeListener('browser-view-crashed', handler);
+  },
+
+  onBrowserViewAudioChanged: (callback: (data: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data);
+    ipcRenderer.on('browser-view-audio-changed', handler);
+    return () => ipcRenderer.removeListener('browser-view-audio-changed', handler);
+  },
+
+  onFaviconUpdated: (callback: (update: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, update: unknown) => callback(update);
+    ipcRenderer.on('favicon-updated', handler);
+    return () => ipcRenderer.removeListener('favicon-updated', handler);
+  },
+
+  onFoundInPage: (callback: (result: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, result: unknown) => callback(result);
+    ipcRenderer.on('found-in-page', handler);
+    return () => ipcRenderer.removeListener('found-in-page', handler);
+  },
+
+  onCommand: (callback: (command: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, command: string) => callback(command);
+    ipcRenderer.on('run-command', handler);
+    return () => ipcRenderer.removeListener('run-command', handler);
+  },
+
+  onZoomChanged: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('zoom-changed', handler);
+    return () => ipcRenderer.removeListener('zoom-changed', handler);
+  },
+
+  onTabMovedAway: (callback: (tabId: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, tabId: string) => callback(tabId);
+    ipcRenderer.on('tab-moved-away', handler);
+    return () => ipcRenderer.removeListener('tab-moved-away', handler);
+  },
+
+  onTabClosedByPage: (callback: (tabId: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, tabId: string) => callback(tabId);
+    ipcRenderer.on('tab-closed-by-page', handler);
+    return () => ipcRenderer.removeListener('tab-closed-by-page', handler);
+  },
+
+  onTabReceived: (callback: (tab: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, tab: unknown) => callback(tab);
+    ipcRenderer.on('tab-received', handler);
+    return () => ipcRenderer.removeListener('tab-received', handler);
+  },
+
+  onTabRestored: (callback: (closed: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, closed: unknown) => callback(closed);
+    ipcRenderer.on('tab-restored', handler);
+    return () => ipcRenderer.removeListener('tab-restored', handler);
+  },
+
+  onRecentlyClosedChanged: (callback: () => void) => {
+    const handler = () => callback();
+    ipcRenderer.on('recently-closed-changed', handler);
+    return () => ipcRenderer.removeListener('recently-closed-changed', handler);
+  },
+
+  onTabMenuAction: (callback: (data: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data);
+    ipcRenderer.on('tab-menu-action', handler);
+    return () => ipcRenderer.removeListener('tab-menu-action', handler);
+  },
+
+  onTabGroupAction: (callback: (data: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, data: unknown) => callback(data);
+    ipcRenderer.on('tab-group-action', handler);
+    return () => ipcRenderer.removeListener('tab-group-action', handler);
+  },
+
+  onOpenTabRequested: (callback: (request: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, request: unknown) => callback(request);
+    ipcRenderer.on('open-tab-requested', handler);
+    return () => ipcRenderer.removeListener('open-tab-requested', handler);
+  },
+
+  onSearchRequested: (callback: (request: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, request: unknown) => callback(request);
+    ipcRenderer.on('search-requested', handler);
+    return () => ipcRenderer.removeListener('search-requested', handler);
+  },
+
+  onDownloadUpdated: (callback: (record: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, record: unknown) => callback(record);
+    ipcRenderer.on('download-updated', handler);
+    return () => ipcRenderer.removeListener('download-updated', handler);
+  },
+
+  onContentBlockerUpdated: (callback: (state: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: unknown) => callback(state);
+    ipcRenderer.on('content-blocker-updated', handler);
+    return () => ipcRenderer.removeListener('content-blocker-updated', handler);
+  },
+
+  onBlockedPopupsUpdated: (callback: (state: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, state: unknown) => callback(state);
+    ipcRenderer.on('blocked-popups-updated', handler);
+    return () => ipcRenderer.removeListener('blocked-popups-updated', handler);
+  },
+
+  onPermissionRequested: (callback: (request: unknown) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, request: unknown) => callback(request);
+    ipcRenderer.on('permission-requested', handler);
+    return () => ipcRenderer.removeListener('permission-requested', handler);
+  },
+
+  onPermissionRequestClosed: (callback: (id: string) => void) => {
+    const handler = (_event: Electron.IpcRendererEvent, id: string) => callback(id);
+    ipcRenderer.on('permission-request-closed', handler);
+    return () => ipcRenderer.removeListener('permission-request-closed', handler);
+  },
 });
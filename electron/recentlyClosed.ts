@@ -0,0 +1,107 @@
+import type { NavigationEntry } from 'electron';
+import type { SessionState, SessionTab } from './session';
+
+// Tabs and windows closed during this run, newest last, so they can be
+// brought back. Closing a window keeps all of its tabs as one entry. Private
+// windows keep their own list, dropped when the private session ends.
+
+export interface ClosedTabEntry {
+  kind: 'tab';
+  id: string;
+  closedAt: number;
+  tab: SessionTab;
+  // Where the tab was: its window, and its place in that window's tab bar
+  windowId: number;
+  index: number;
+  // The back/forward list of its view, kept in the main process only
+  navigation?: ClosedTabNavigation;
+}
+
+export interface ClosedTabNavigation {
+  entries: NavigationEntry[];
+  index: number;
+}
+
+export interface ClosedTab {
+  tab: SessionTab;
+  index: number;
+  navigation?: ClosedTabNavigation;
+}
+
+export interface ClosedWindowEntry {
+  kind: 'window';
+  id: string;
+  closedAt: number;
+  session: SessionState;
+}
+
+export type ClosedEntry = ClosedTabEntry | ClosedWindowEntry;
+
+const MAX_ENTRIES = 25;
+
+let entries: ClosedEntry[] = [];
+let privateEntries: ClosedEntry[] = [];
+
+function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function addEntries(isPrivate: boolean, added: ClosedEntry[]) {
+  const next = [...(isPrivate ? privateEntries : entries), ...added].slice(-MAX_ENTRIES);
+  if (isPrivate) {
+    privateEntries = next;
+  } else {
+    entries = next;
+  }
+}
+
+export function recordClosedTabs(isPrivate: boolean, windowId: number, tabs: ClosedTab[]) {
+  const closedAt = Date.now();
+  addEntries(isPrivate, tabs.map(({ tab, index, navigation }) => ({
+    kind: 'tab',
+    id: createId(),
+    closedAt,
+    tab,
+    windowId,
+    index,
+    navigation,
+  })));
+}
+
+// A window with a single tab is remembered as that tab
+export function recordClosedWindow(isPrivate: boolean, windowId: number, session: SessionState) {
+  if (session.tabs.length === 0) return;
+  if (session.tabs.length === 1) {
+    recordClosedTabs(isPrivate, windowId, [{ tab: session.tabs[0], index: 0 }]);
+    return;
+  }
+  addEntries(isPrivate, [{ kind: 'window', id: createId(), closedAt: Date.now(), session }]);
+}
+
+// Newest first, for display. Navigation entries can carry page state, which
+// the renderer has no use for.
+export function getRecentlyClosed(isPrivate: boolean): ClosedEntry[] {
+  return [...(isPrivate ? privateEntries : entries)]
+    .reverse()
+    .map((entry) => (entry.kind === 'tab' ? { ...entry, navigation: undefined } : entry));
+}
+
+// Remove an entry to restore it: the one asked for, or the latest
+export function takeRecentlyClosed(isPrivate: boolean, id?: string): ClosedEntry | null {
+  const list = isPrivate ? privateEntries : entries;
+  const entry = id ? list.find((candidate) => candidate.id === id) : list[list.length - 1];
+  if (!entry) return null;
+
+  const rest = list.filter((candidate) => candidate !== entry);
+  if (isPrivate) {
+    privateEntries = rest;
+  } else {
+    entries = rest;
+  }
+  return entry;
+}
+
+// Called when the last private window closes
+export function forgetPrivateRecentlyClosed() {
+  privateEntries = [];
+}
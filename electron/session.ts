@@ -0,0 +1,133 @@
+import fs from 'fs';
+import { getStorePath, readJsonFile, writeJsonFile } from './store';
+
+export interface SessionHistoryEntry {
+  url: string;
+  title: string;
+}
+
+export interface SessionTab {
+  id: string;
+  title: string;
+  url: string;
+  history: SessionHistoryEntry[];
+  historyIndex: number;
+  pinned?: boolean;
+  groupId?: string;
+}
+
+export type TabGroupColor = 'pink' | 'lavender' | 'mint' | 'golden';
+
+// Tabs gathered under a name and color. A group's tabs sit next to each other.
+export interface SessionTabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+}
+
+// The tabs of a single window
+export interface SessionState {
+  tabs: SessionTab[];
+  activeTabId: string;
+  // Missing from sessions saved before tab groups
+  groups?: SessionTabGroup[];
+}
+
+// What's on disk: every normal window, in the order they were opened
+interface SavedSession {
+  windows: SessionState[];
+}
+
+const SESSION_FILE = 'session.json';
+
+// Exists while the app is running. Finding it at startup means the previous
+// run never reached a clean quit.
+const RUNNING_MARKER = 'session.running';
+
+// The windows from the previous run, read once before the renderers start
+// overwriting the file with the current ones
+let previousWindows: SessionState[] = [];
+let previousSessionCrashed = false;
+
+// Latest state of each open window, keyed by the window's id
+const windowSessions = new Map<number, SessionState>();
+
+// While quitting, windows close one after another but all belong in the
+// session that gets restored next time
+let quitting = false;
+
+function isValidSession(session: unknown): session is SessionState {
+  if (!session || typeof session !== 'object') return false;
+  const { tabs, activeTabId } = session as SessionState;
+  return Array.isArray(tabs) && tabs.length > 0 && typeof activeTabId === 'string';
+}
+
+function writeSessions() {
+  const saved: SavedSession = { windows: [...windowSessions.values()] };
+  writeJsonFile(SESSION_FILE, saved);
+}
+
+export function loadPreviousSession() {
+  const stored = readJsonFile<unknown>(SESSION_FILE, null);
+  if (isValidSession(stored)) {
+    // Written before multiple windows, when the file held a single window
+    previousWindows = [stored];
+  } else {
+    const windows = (stored as SavedSession | null)?.windows;
+    previousWindows = Array.isArray(windows) ? windows.filter(isValidSession) : [];
+  }
+
+  const marker = getStorePath(RUNNING_MARKER);
+  previousSessionCrashed = fs.existsSync(marker);
+  fs.writeFileSync(marker, String(process.pid));
+}
+
+export function markQuitting() {
+  quitting = true;
+}
+
+export function markCleanExit() {
+  fs.rmSync(getStorePath(RUNNING_MARKER), { force: true });
+}
+
+// The previous run's first window, handed out once to the first window that
+// asks. Later windows start fresh.
+export function takePreviousSession() {
+  const result = {
+    session: previousWindows[0] ?? null,
+    crashed: previousSessionCrashed,
+  };
+  previousWindows = previousWindows.slice(1);
+  previousSessionCrashed = false;
+  return result;
+}
+
+// The rest of the previous run's windows, once the first window restored
+export function takePreviousExtraWindows(): SessionState[] {
+  const windows = previousWindows;
+  previousWindows = [];
+  return windows;
+}
+
+export function saveWindowSession(windowId: number, session: SessionState) {
+  if (!isValidSession(session)) return;
+  windowSessions.set(windowId, session);
+  writeSessions();
+}
+
+// Closing a window drops it from the session, except for the last one: that
+// is what a restart (or reopening the app on macOS) brings back
+export function removeWindowSession(windowId: number) {
+  if (quitting || windowSessions.size <= 1) return;
+  windowSessions.delete(windowId);
+  writeSessions();
+}
+
+// The last window's state after every window was closed, for reopening it
+export function takeLastWindowSession(): SessionState | null {
+  const [entry] = [...windowSessions.entries()].slice(-1);
+  if (!entry) return null;
+  windowSessions.delete(entry[0]);
+  return entry[1];
+}
@@ -0,0 +1,122 @@
+import type { Input } from 'electron';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { findShortcutCommand, initShortcuts, resetShortcuts, setShortcut, toAccelerator } from './shortcuts';
+
+vi.mock('./store', () => ({
+  readJsonFile: <T>(_name: string, fallback: T) => fallback,
+  writeJsonFile: () => {},
+}));
+
+// Control stands in for CmdOrCtrl, as these run off macOS
+const press = (key: string, code: string, modifiers: Partial<Pick<Input, 'shift' | 'control' | 'alt' | 'meta'>> = {}): Input => ({
+  type: 'keyDown',
+  key,
+  code,
+  isAutoRepeat: false,
+  isComposing: false,
+  shift: false,
+  control: true,
+  alt: false,
+  meta: false,
+  location: 0,
+  modifiers: [],
+  ...modifiers,
+});
+
+beforeEach(() => {
+  initShortcuts(() => {});
+  resetShortcuts();
+});
+
+describe('toAccelerator', () => {
+  it('spells modifiers in a fixed order before the key', () => {
+    expect(toAccelerator(press('T', 'KeyT', { shift: true, alt: true }))).toBe('Ctrl+Alt+Shift+T');
+  });
+
+  it('returns null for a lone modifier key', () => {
+    expect(toAccelerator(press('Control', 'ControlLeft'))).toBeNull();
+  });
+});
+
+describe('findShortcutCommand', () => {
+  it('matches the default bindings', () => {
+    expect(findShortcutCommand(press('t', 'KeyT'))).toBe('newTab');
+    expect(findShortcutCommand(press('T', 'KeyT', { shift: true }))).toBe('reopenClosedTab');
+    expect(findShortcutCommand(press('Tab', 'Tab', { shift: true }))).toBe('previousTab');
+    expect(findShortcutCommand(press('[', 'BracketLeft'))).toBe('back');
+  });
+
+  it('only matches key presses', () => {
+    expect(findShortcutCommand({ ...press('t', 'KeyT'), type: 'keyUp' })).toBeNull();
+  });
+
+  it('goes by the letter a key types, not where it sits', () => {
+    // The key labelled W on an AZERTY keyboard sits where Z is on QWERTY
+    expect(findShortcutCommand(press('w', 'KeyZ'))).toBe('closeTab');
+    // Dvorak's L is QWERTY's P
+    expect(findShortcutCommand(press('l', 'KeyP'))).toBe('focusAddressBar');
+  });
+
+  it('falls back to the key position for layouts without Latin letters', () => {
+    expect(findShortcutCommand(press('е', 'KeyT'))).toBe('newTab');
+  });
+
+  it('goes by position for digits typed with Shift', () => {
+    // AZERTY types '&' on the 1 key without Shift
+    expect(findShortcutCommand(press('&', 'Digit1'))).toBe('selectTab1');
+  });
+
+  it('zooms in with + typed with or without Shift', () => {
+    expect(findShortcutCommand(press('=', 'Equal'))).toBe('zoomIn');
+    expect(findShortcutCommand(press('+', 'Equal', { shift: true }))).toBe('zoomIn');
+    expect(findShortcutCommand(press('=', 'Equal', { shift: true }))).toBe('zoomIn');
+    // A German keyboard has its own + key
+    expect(findShortcutCommand(press('+', 'BracketRight'))).toBe('zoomIn');
+  });
+
+  it('zooms out with - and _', () => {
+    expect(findShortcutCommand(press('-', 'Minus'))).toBe('zoomOut');
+    expect(findShortcutCommand(press('_', 'Minus', { shift: true }))).toBe('zoomOut');
+  });
+
+  it('zooms with the numeric keypad', () => {
+    expect(findShortcutCommand(press('+', 'NumpadAdd'))).toBe('zoomIn');
+    expect(findShortcutCommand(press('-', 'NumpadSubtract'))).toBe('zoomOut');
+    expect(findShortcutCommand(press('0', 'Numpad0'))).toBe('zoomReset');
+    expect(findShortcutCommand(press('0', 'Digit0'))).toBe('zoomReset');
+  });
+
+  it('leaves keypad digits apart from the digit row', () => {
+    expect(findShortcutCommand(press('1', 'Numpad1'))).toBeNull();
+    expect(toAccelerator(press('Insert', 'Numpad0'))).toBe('Ctrl+Insert');
+  });
+
+  it('follows rebound shortcuts', () => {
+    expect(setShortcut('newTab', 'Ctrl+Alt+Y').error).toBeUndefined();
+    expect(findShortcutCommand(press('y', 'KeyY', { alt: true }))).toBe('newTab');
+    expect(findShortcutCommand(press('t', 'KeyT'))).toBeNull();
+  });
+
+  it('drops zoom aliases once the command is rebound', () => {
+    setShortcut('zoomIn', 'Ctrl+Alt+I');
+    expect(findShortcutCommand(press('+', 'NumpadAdd'))).toBeNull();
+    expect(findShortcutCommand(press('i', 'KeyI', { alt: true }))).toBe('zoomIn');
+  });
+
+  it('lets a binding take a key from an alias', () => {
+    setShortcut('showSettings', 'Ctrl+numadd');
+    expect(findShortcutCommand(press('+', 'NumpadAdd'))).toBe('showSettings');
+  });
+});
+
+describe('setShortcut', () => {
+  it('refuses keys without Ctrl, Alt or Cmd, except function keys', () => {
+    expect(setShortcut('newTab', 'Shift+T').error).toBeDefined();
+    expect(setShortcut('newTab', 'F6').error).toBeUndefined();
+  });
+
+  it('refuses keys already in use', () => {
+    expect(setShortcut('newTab', 'Ctrl+W').error).toBe('Ctrl+W is already used by Close tab.');
+    expect(setShortcut('newTab', 'Ctrl+C').error).toBe('Ctrl+C is already used by Copy.');
+  });
+});
@@ -0,0 +1,319 @@
+import type { Input } from 'electron';
+import { readJsonFile, writeJsonFile } from './store';
+
+// Keyboard shortcuts for the browser's own commands. Keys pressed in a page
+// never reach the app window's renderer, so main matches them against these
+// bindings for both and tells the window which command to run. People can
+// rebind any of them; only their changes are saved.
+
+export type ShortcutCommand =
+  | 'newTab'
+  | 'closeTab'
+  | 'reopenClosedTab'
+  | 'newWindow'
+  | 'newPrivateWindow'
+  | 'focusAddressBar'
+  | 'reload'
+  | 'back'
+  | 'forward'
+  | 'nextTab'
+  | 'previousTab'
+  | 'selectTab1'
+  | 'selectTab2'
+  | 'selectTab3'
+  | 'selectTab4'
+  | 'selectTab5'
+  | 'selectTab6'
+  | 'selectTab7'
+  | 'selectTab8'
+  | 'selectLastTab'
+  | 'find'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomReset'
+  | 'showHistory'
+  | 'showBookmarks'
+  | 'showDownloads'
+  | 'showSettings';
+
+export interface ShortcutInfo {
+  command: ShortcutCommand;
+  label: string;
+  accelerator: string;
+  defaultAccelerator: string;
+}
+
+export interface ShortcutUpdateResult {
+  shortcuts: ShortcutInfo[];
+  // Why the binding wasn't changed, e.g. another command already uses it
+  error?: string;
+}
+
+const SHORTCUTS_FILE = 'shortcuts.json';
+
+const isMac = process.platform === 'darwin';
+
+// Defaults use Electron's CmdOrCtrl, which is stored as whichever it means here
+const DEFINITIONS: { command: ShortcutCommand; label: string; defaultAccelerator: string }[] = [
+  { command: 'newTab', label: 'New tab', defaultAccelerator: 'CmdOrCtrl+T' },
+  { command: 'closeTab', label: 'Close tab', defaultAccelerator: 'CmdOrCtrl+W' },
+  { command: 'reopenClosedTab', label: 'Reopen closed tab', defaultAccelerator: 'CmdOrCtrl+Shift+T' },
+  { command: 'newWindow', label: 'New window', defaultAccelerator: 'CmdOrCtrl+N' },
+  { command: 'newPrivateWindow', label: 'New private window', defaultAccelerator: 'CmdOrCtrl+Shift+N' },
+  { command: 'focusAddressBar', label: 'Focus the address bar', defaultAccelerator: 'CmdOrCtrl+L' },
+  { command: 'reload', label: 'Reload', defaultAccelerator: 'CmdOrCtrl+R' },
+  { command: 'back', label: 'Back', defaultAccelerator: 'CmdOrCtrl+[' },
+  { command: 'forward', label: 'Forward', defaultAccelerator: 'CmdOrCtrl+]' },
+  { command: 'nextTab', label: 'Next tab', defaultAccelerator: 'Ctrl+Tab' },
+  { command: 'previousTab', label: 'Previous tab', defaultAccelerator: 'Ctrl+Shift+Tab' },
+  { command: 'selectTab1', label: 'First tab', defaultAccelerator: 'CmdOrCtrl+1' },
+  { command: 'selectTab2', label: 'Second tab', defaultAccelerator: 'CmdOrCtrl+2' },
+  { command: 'selectTab3', label: 'Third tab', defaultAccelerator: 'CmdOrCtrl+3' },
+  { command: 'selectTab4', label: 'Fourth tab', defaultAccelerator: 'CmdOrCtrl+4' },
+  { command: 'selectTab5', label: 'Fifth tab', defaultAccelerator: 'CmdOrCtrl+5' },
+  { command: 'selectTab6', label: 'Sixth tab', defaultAccelerator: 'CmdOrCtrl+6' },
+  { command: 'selectTab7', label: 'Seventh tab', defaultAccelerator: 'CmdOrCtrl+7' },
+  { command: 'selectTab8', label: 'Eighth tab', defaultAccelerator: 'CmdOrCtrl+8' },
+  { command: 'selectLastTab', label: 'Last tab', defaultAccelerator: 'CmdOrCtrl+9' },
+  { command: 'find', label: 'Find in page', defaultAccelerator: 'CmdOrCtrl+F' },
+  { command: 'zoomIn', label: 'Zoom in', defaultAccelerator: 'CmdOrCtrl+=' },
+  { command: 'zoomOut', label: 'Zoom out', defaultAccelerator: 'CmdOrCtrl+-' },
+  { command: 'zoomReset', label: 'Reset zoom', defaultAccelerator: 'CmdOrCtrl+0' },
+  { command: 'showHistory', label: 'History', defaultAccelerator: 'CmdOrCtrl+H' },
+  { command: 'showBookmarks', label: 'Bookmarks', defaultAccelerator: 'CmdOrCtrl+Shift+O' },
+  { command: 'showDownloads', label: 'Downloads', defaultAccelerator: 'CmdOrCtrl+J' },
+  { command: 'showSettings', label: 'Settings', defaultAccelerator: 'CmdOrCtrl+,' },
+];
+
+// What the Edit menu's roles use, so they can't be taken
+const RESERVED: Record<string, string> = {
+  'CmdOrCtrl+C': 'Copy',
+  'CmdOrCtrl+X': 'Cut',
+  'CmdOrCtrl+V': 'Paste',
+  'CmdOrCtrl+A': 'Select all',
+  'CmdOrCtrl+Z': 'Undo',
+  'CmdOrCtrl+Shift+Z': 'Redo',
+};
+
+const MODIFIER_ORDER = ['Cmd', 'Ctrl', 'Alt', 'Shift', 'Super'];
+
+// Shift alone only changes what a key types, and shortcuts swallow their
+// keys everywhere, so it can't make one
+const COMMAND_MODIFIERS = new Set(['Cmd', 'Ctrl', 'Alt', 'Super']);
+
+// Other spellings of a default binding, matched while the command keeps it.
+// '+' is typed with Shift on some keyboards and without it on others.
+const DEFAULT_ALIASES: Partial<Record<ShortcutCommand, string[]>> = {
+  zoomIn: ['CmdOrCtrl+Plus', 'CmdOrCtrl+Shift+Plus', 'CmdOrCtrl+Shift+=', 'CmdOrCtrl+numadd'],
+  zoomOut: ['CmdOrCtrl+Shift+-', 'CmdOrCtrl+numsub'],
+  zoomReset: ['CmdOrCtrl+num0'],
+};
+
+// Punctuation named after its position, for when what it types is no help
+const CODE_KEYS: Record<string, string> = {
+  Equal: '=',
+  Minus: '-',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+};
+
+// Named like Electron's accelerators, so they differ from the main keys
+const NUMPAD_KEYS: Record<string, string> = {
+  NumpadAdd: 'numadd',
+  NumpadSubtract: 'numsub',
+  NumpadMultiply: 'nummult',
+  NumpadDivide: 'numdiv',
+};
+
+const NAMED_KEYS: Record<string, string> = {
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ' ': 'Space',
+  Tab: 'Tab',
+  Enter: 'Enter',
+  Escape: 'Escape',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+};
+
+// Command by accelerator, for matching key presses
+let bindings = new Map<string, ShortcutCommand>();
+let overrides: Partial<Record<ShortcutCommand, string>> = {};
+let notify: () => void = () => {};
+
+// One spelling per shortcut: platform modifiers in a fixed order, then the key
+function normalizeAccelerator(accelerator: string): string {
+  const parts = accelerator.split('+');
+  const key = parts.pop() ?? '';
+  const modifiers = new Set(parts.map((part) => {
+    switch (part) {
+      case 'CmdOrCtrl':
+      case 'CommandOrControl':
+        return isMac ? 'Cmd' : 'Ctrl';
+      case 'Command':
+        return 'Cmd';
+      case 'Control':
+        return 'Ctrl';
+      case 'Option':
+        return 'Alt';
+      default:
+        return part;
+    }
+  }));
+  const ordered = MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier));
+  return [...ordered, key.length === 1 ? key.toUpperCase() : key].join('+');
+}
+
+// Function keys work alone; anything else needs a modifier besides Shift
+function isUsableAccelerator(accelerator: string): boolean {
+  const parts = accelerator.split('+');
+  const key = parts.pop() ?? '';
+  return /^F\d{1,2}$/.test(key) || parts.some((part) => COMMAND_MODIFIERS.has(part));
+}
+
+// Letters and punctuation go by what the key types in the current layout,
+// so Ctrl+Z is the key labelled Z. Layouts without Latin letters fall back
+// to the key's position, as do digits, which some layouts type with Shift,
+// and punctuation while Shift changes what it types.
+function getKeyName(input: Input): string | null {
+  if (NUMPAD_KEYS[input.code]) return NUMPAD_KEYS[input.code];
+  // With Num Lock off these are arrows and the like, named below
+  if (/^Numpad[0-9]$/.test(input.code) && /^[0-9]$/.test(input.key)) return `num${input.key}`;
+  // Accelerators are joined with '+', so it has a name of its own
+  if (input.key === '+') return 'Plus';
+  if (/^[a-z]$/i.test(input.key)) return input.key.toUpperCase();
+  if (/^Key[A-Z]$/.test(input.code)) return input.code.slice(3);
+  if (/^Digit[0-9]$/.test(input.code)) return input.code.slice(5);
+  if (!input.shift && /^[!-~]$/.test(input.key)) return input.key;
+  if (CODE_KEYS[input.code]) return CODE_KEYS[input.code];
+  if (/^F\d{1,2}$/.test(input.key)) return input.key;
+  return NAMED_KEYS[input.key] ?? null;
+}
+
+// The accelerator a key press spells, or null for a lone modifier key
+export function toAccelerator(input: Input): string | null {
+  const key = getKeyName(input);
+  if (!key) return null;
+  const modifiers = [
+    input.meta && (isMac ? 'Cmd' : 'Super'),
+    input.control && 'Ctrl',
+    input.alt && 'Alt',
+    input.shift && 'Shift',
+  ].filter((modifier): modifier is string => Boolean(modifier));
+  return normalizeAccelerator([...modifiers, key].join('+'));
+}
+
+// Saved bindings that aren't usable, e.g. from before that was checked, fall
+// back to the default
+function getAccelerator(command: ShortcutCommand, defaultAccelerator: string): string {
+  const override = overrides[command] && normalizeAccelerator(overrides[command]);
+  return override && isUsableAccelerator(override) ? override : normalizeAccelerator(defaultAccelerator);
+}
+
+// Aliases never take a key another command is bound to
+function rebuildBindings() {
+  bindings = new Map();
+  for (const { command, defaultAccelerator } of DEFINITIONS) {
+    bindings.set(getAccelerator(command, defaultAccelerator), command);
+  }
+  for (const { command, defaultAccelerator } of DEFINITIONS) {
+    if (getAccelerator(command, defaultAccelerator) !== normalizeAccelerator(defaultAccelerator)) continue;
+    for (const alias of DEFAULT_ALIASES[command] ?? []) {
+      const accelerator = normalizeAccelerator(alias);
+      if (!bindings.has(accelerator)) bindings.set(accelerator, command);
+    }
+  }
+}
+
+function saveOverrides() {
+  writeJsonFile(SHORTCUTS_FILE, overrides);
+  rebuildBindings();
+  notify();
+}
+
+// onChange runs whenever a binding changes, e.g. to relabel the app menu
+export function initShortcuts(onChange: () => void) {
+  notify = onChange;
+  overrides = readJsonFile<Partial<Record<ShortcutCommand, string>>>(SHORTCUTS_FILE, {});
+  rebuildBindings();
+}
+
+export function getShortcuts(): ShortcutInfo[] {
+  return DEFINITIONS.map(({ command, label, defaultAccelerator }) => ({
+    command,
+    label,
+    accelerator: getAccelerator(command, defaultAccelerator),
+    defaultAccelerator: normalizeAccelerator(defaultAccelerator),
+  }));
+}
+
+export function getShortcutAccelerator(command: ShortcutCommand): string | undefined {
+  return getShortcuts().find((shortcut) => shortcut.command === command)?.accelerator;
+}
+
+export function findShortcutCommand(input: Input): ShortcutCommand | null {
+  if (input.type !== 'keyDown') return null;
+  const accelerator = toAccelerator(input);
+  return accelerator ? bindings.get(accelerator) ?? null : null;
+}
+
+function findConflict(command: ShortcutCommand, accelerator: string): string | null {
+  for (const [reserved, label] of Object.entries(RESERVED)) {
+    if (normalizeAccelerator(reserved) === accelerator) return label;
+  }
+  const other = getShortcuts().find((shortcut) => shortcut.command !== command && shortcut.accelerator === accelerator);
+  return other?.label ?? null;
+}
+
+export function setShortcut(command: ShortcutCommand, accelerator: string): ShortcutUpdateResult {
+  const definition = DEFINITIONS.find((entry) => entry.command === command);
+  if (!definition) return { shortcuts: getShortcuts(), error: 'Unknown command.' };
+
+  const normalized = normalizeAccelerator(accelerator);
+  if (!isUsableAccelerator(normalized)) {
+    return { shortcuts: getShortcuts(), error: 'Shortcuts need Ctrl, Alt or Cmd, unless they use a function key.' };
+  }
+
+  const conflict = findConflict(command, normalized);
+  if (conflict) {
+    return { shortcuts: getShortcuts(), error: `${normalized} is already used by ${conflict}.` };
+  }
+
+  if (normalized === normalizeAccelerator(definition.defaultAccelerator)) {
+    delete overrides[command];
+  } else {
+    overrides[command] = normalized;
+  }
+  saveOverrides();
+  return { shortcuts: getShortcuts() };
+}
+
+// Back to the default binding for one command, or for all of them
+export function resetShortcuts(command?: ShortcutCommand): ShortcutUpdateResult {
+  if (command) {
+    const definition = DEFINITIONS.find((entry) => entry.command === command);
+    const conflict = definition && findConflict(command, normalizeAccelerator(definition.defaultAccelerator));
+    if (conflict) {
+      return { shortcuts: getShortcuts(), error: `The default is now used by ${conflict}.` };
+    }
+    delete overrides[command];
+  } else {
+    overrides = {};
+  }
+  saveOverrides();
+  return { shortcuts: getShortcuts() };
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import type { Cookie, Session } from 'electron';
+
+// Cookies and site storage for the cookie://cookies page. Electron only
+// exposes cookies and the cache's total size directly. IndexedDB sizes come
+// from Chromium's per-origin folders in the session's storage path. Other
+// storage, like localStorage, has no per-site record that can be read
+// reliably, so it isn't listed, and the page says so. Clearing a site still
+// removes it, for every origin known under the site.
+
+export type SameSite = Cookie['sameSite'];
+
+export interface CookieInfo {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  session: boolean;
+  // Seconds since the epoch, like Electron's cookies API
+  expirationDate?: number;
+  sameSite: SameSite;
+}
+
+// Identifies the cookie an edit replaces, since any of these may change
+export interface CookieKey {
+  name: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+}
+
+export interface SiteDataSummary {
+  site: string;
+  cookieCount: number;
+  indexedDBBytes: number;
+}
+
+export interface SiteDataOverview {
+  sites: SiteDataSummary[];
+  // Chromium's HTTP cache isn't split by site, so only the total is known
+  cacheBytes: number;
+}
+
+// Group cookie domains and storage origins under one site name, so
+// ".example.com", "www.example.com" and "https://example.com" meet
+export function getSiteName(host: string): string {
+  return host.replace(/^\./, '').replace(/^www\./, '').toLowerCase();
+}
+
+function cookieBelongsToSite(cookie: { domain?: string }, site: string): boolean {
+  return getSiteName(cookie.domain ?? '') === site;
+}
+
+// The site itself or any of its subdomains
+function isUnderSite(host: string, site: string): boolean {
+  const name = getSiteName(host);
+  return name === site || name.endsWith(`.${site}`);
+}
+
+// The URL Electron needs to address a cookie when setting or removing it
+function getCookieUrl(cookie: { domain: string; path: string; secure: boolean }): string {
+  const host = cookie.domain.replace(/^\./, '');
+  return `${cookie.secure ? 'https' : 'http'}://${host}${cookie.path || '/'}`;
+}
+
+async function getDirectorySize(dir: string): Promise<number> {
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  const sizes = await Promise.all(entries.map(async (entry) => {
+    const entryPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? getDirectorySize(entryPath) : (await fs.promises.stat(entryPath)).size;
+  }));
+  return sizes.reduce((total, size) => total + size, 0);
+}
+
+// IndexedDB keeps a folder per origin, named like
+// "https_www.example.com_0.indexeddb.leveldb", removed when the origin's
+// storage is cleared. Port 0 is the scheme's default.
+function parseIndexedDBFolder(name: string): { host: string; origin: string } | null {
+  const match = name.match(/^(https?)_(.+)_(\d+)\.indexeddb\.(leveldb|blob)$/);
+  if (!match) return null;
+  const [, scheme, host, port] = match;
+  return { host, origin: `${scheme}://${host}${port === '0' ? '' : `:${port}`}` };
+}
+
+async function readIndexedDBFolders(storagePath: string): Promise<string[]> {
+  try {
+    return await fs.promises.readdir(path.join(storagePath, 'IndexedDB'));
+  } catch {
+    return [];
+  }
+}
+
+async function getIndexedDBSizes(storagePath: string): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  for (const entry of await readIndexedDBFolders(storagePath)) {
+    const folder = parseIndexedDBFolder(entry);
+    if (!folder) continue;
+    try {
+      const bytes = await getDirectorySize(path.join(storagePath, 'IndexedDB', entry));
+      const site = getSiteName(folder.host);
+      sizes.set(site, (sizes.get(site) ?? 0) + bytes);
+    } catch {
+      // Removed while being measured
+    }
+  }
+  return sizes;
+}
+
+export async function getSiteDataOverview(ses: Session): Promise<SiteDataOverview> {
+  const cookies = await ses.cookies.get({});
+  const summaries = new Map<string, SiteDataSummary>();
+  const getSummary = (site: string) => {
+    let summary = summaries.get(site);
+    if (!summary) {
+      summary = { site, cookieCount: 0, indexedDBBytes: 0 };
+      summaries.set(site, summary);
+    }
+    return summary;
+  };
+
+  for (const cookie of cookies) {
+    getSummary(getSiteName(cookie.domain ?? '')).cookieCount++;
+  }
+
+  // In-memory sessions, like the private one, have no storage on disk
+  const storagePath = ses.getStoragePath();
+  if (storagePath) {
+    for (const [site, bytes] of await getIndexedDBSizes(storagePath)) {
+      getSummary(site).indexedDBBytes = bytes;
+    }
+  }
+
+  return {
+    sites: [...summaries.values()].sort((a, b) => a.site.localeCompare(b.site)),
+    cacheBytes: await ses.getCacheSize(),
+  };
+}
+
+export async function getSiteCookies(ses: Session, site: string): Promise<CookieInfo[]> {
+  const cookies = await ses.cookies.get({});
+  return cookies
+    .filter((cookie) => cookieBelongsToSite(cookie, site))
+    .map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain ?? '',
+      hostOnly: cookie.hostOnly ?? false,
+      path: cookie.path ?? '/',
+      secure: cookie.secure ?? false,
+      httpOnly: cookie.httpOnly ?? false,
+      session: cookie.session ?? false,
+      expirationDate: cookie.expirationDate,
+      sameSite: cookie.sameSite,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function removeCookie(ses: Session, cookie: CookieKey) {
+  await ses.cookies.remove(getCookieUrl(cookie), cookie.name);
+}
+
+// Save a cookie, replacing the one it was edited from if its identity changed
+export async function saveCookie(ses: Session, cookie: CookieInfo, original?: CookieKey) {
+  if (original && (
+    original.name !== cookie.name
+    || original.domain !== cookie.domain
+    || original.path !== cookie.path
+    || original.secure !== cookie.secure
+  )) {
+    await removeCookie(ses, original);
+  }
+
+  await ses.cookies.set({
+    url: getCookieUrl(cookie),
+    name: cookie.name,
+    value: cookie.value,
+    // Host-only cookies must not get a domain, or they'd start matching subdomains
+    domain: cookie.hostOnly ? undefined : cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    expirationDate: cookie.session ? undefined : cookie.expirationDate,
+    sameSite: cookie.sameSite,
+  });
+}
+
+// Clears the site and all of its subdomains. Storage is kept per origin
+// with no way to list them, so it's cleared for every origin that can be
+// found: the site's own, those of its cookies and IndexedDB folders, and
+// knownOrigins, e.g. from history and open tabs.
+export async function clearSiteData(ses: Session, site: string, knownOrigins: string[] = []) {
+  const cookies = (await ses.cookies.get({})).filter((cookie) => isUnderSite(cookie.domain ?? '', site));
+  await Promise.all(cookies.map((cookie) => removeCookie(ses, {
+    name: cookie.name,
+    domain: cookie.domain ?? '',
+    path: cookie.path ?? '/',
+    secure: cookie.secure ?? false,
+  })));
+
+  const hosts = [site, `www.${site}`, ...cookies.map((cookie) => (cookie.domain ?? '').replace(/^\./, ''))];
+  const origins = new Set(hosts.flatMap((host) => [`https://${host}`, `http://${host}`]));
+  const storagePath = ses.getStoragePath();
+  if (storagePath) {
+    for (const entry of await readIndexedDBFolders(storagePath)) {
+      const folder = parseIndexedDBFolder(entry);
+      if (folder && isUnderSite(folder.host, site)) origins.add(folder.origin);
+    }
+  }
+  for (const origin of knownOrigins) {
+    if (isUnderSite(new URL(origin).hostname, site)) origins.add(origin);
+  }
+  await Promise.all([...origins].map((origin) => ses.clearStorageData({ origin })));
+}
+
+export async function clearCache(ses: Session) {
+  await ses.clearCache();
+}
@@ -0,0 +1,27 @@
+import { app } from 'electron';
+import fs from 'fs';
+import path from 'path';
+
+// Small JSON file helpers for state the main process keeps in userData.
+
+export function getStorePath(name: string): string {
+  return path.join(app.getPath('userData'), name);
+}
+
+export function readJsonFile<T>(name: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(getStorePath(name), 'utf-8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Write through a temp file and rename, so a crash mid-write never leaves a
+// truncated file behind
+export function writeJsonFile(name: string, data: unknown): void {
+  const file = getStorePath(name);
+  const tempFile = `${file}.tmp`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(tempFile, JSON.stringify(data));
+  fs.renameSync(tempFile, file);
+}
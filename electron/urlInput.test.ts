@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { classifyInput, normalizeUrlInput } from './urlInput';
+
+describe('classifyInput', () => {
+  it('treats phrases, lone words and empty input as searches', () => {
+    expect(classifyInput('how to bake cookies')).toEqual({ kind: 'search', query: 'how to bake cookies' });
+    expect(classifyInput('cookies')).toEqual({ kind: 'search', query: 'cookies' });
+    expect(classifyInput('   ')).toEqual({ kind: 'search', query: '' });
+  });
+
+  it('treats things that only look like hosts as searches', () => {
+    expect(classifyInput('user@example.com').kind).toBe('search');
+    expect(classifyInput('3.14').kind).toBe('search');
+    expect(classifyInput('example.notatld1').kind).toBe('search');
+    expect(classifyInput('javascript://alert(1)').kind).toBe('search');
+  });
+
+  it('loads bare domains over https', () => {
+    expect(classifyInput('example.com')).toEqual({ kind: 'url', url: 'https://example.com/' });
+    expect(classifyInput('Example.COM/Path?q=Cookies')).toEqual({
+      kind: 'url',
+      url: 'https://example.com/Path?q=Cookies',
+    });
+  });
+
+  it('keeps the scheme of full web URLs', () => {
+    expect(classifyInput('http://Example.com/Path')).toEqual({ kind: 'url', url: 'http://example.com/Path' });
+  });
+
+  it('loads localhost over http, with its port', () => {
+    expect(classifyInput('localhost:3000')).toEqual({ kind: 'localhost', url: 'http://localhost:3000/' });
+    expect(classifyInput('app.localhost/admin')).toEqual({ kind: 'localhost', url: 'http://app.localhost/admin' });
+  });
+
+  it('recognizes IPv4 addresses', () => {
+    expect(classifyInput('192.168.1.1')).toEqual({ kind: 'ipv4', url: 'http://192.168.1.1/' });
+    expect(classifyInput('10.0.0.2:8080/status')).toEqual({ kind: 'ipv4', url: 'http://10.0.0.2:8080/status' });
+    expect(classifyInput('300.1.1.1').kind).toBe('search');
+  });
+
+  it('recognizes IPv6 addresses', () => {
+    expect(classifyInput('[::1]:8080')).toEqual({ kind: 'ipv6', url: 'http://[::1]:8080/' });
+    expect(classifyInput('https://[2001:db8::1]/')).toEqual({ kind: 'ipv6', url: 'https://[2001:db8::1]/' });
+  });
+
+  it('recognizes file URLs and local paths', () => {
+    expect(classifyInput('file:///home/me/notes.txt')).toEqual({ kind: 'file', url: 'file:///home/me/notes.txt' });
+    expect(classifyInput('/home/me/my notes.txt')).toEqual({ kind: 'file', url: 'file:///home/me/my%20notes.txt' });
+    expect(classifyInput('C:\\Users\\me\\notes.txt')).toEqual({ kind: 'file', url: 'file:///C:/Users/me/notes.txt' });
+  });
+
+  it('lowercases only the page of cookie:// URLs', () => {
+    expect(classifyInput('COOKIE://Settings')).toEqual({ kind: 'internal', url: 'cookie://settings' });
+    expect(classifyInput('cookie://Cookies?site=Example.COM')).toEqual({
+      kind: 'internal',
+      url: 'cookie://cookies?site=Example.COM',
+    });
+  });
+
+  it('recognizes about: URLs', () => {
+    expect(classifyInput('About:Blank')).toEqual({ kind: 'about', url: 'about:blank' });
+  });
+
+  it('wraps what follows view-source: like any other input', () => {
+    expect(classifyInput('view-source:example.com')).toEqual({
+      kind: 'view-source',
+      url: 'view-source:https://example.com/',
+    });
+    expect(classifyInput('view-source:hello world').kind).toBe('search');
+    expect(classifyInput('view-source:view-source:example.com').kind).toBe('search');
+  });
+
+  it('punycodes internationalized hosts', () => {
+    expect(classifyInput('bücher.de')).toEqual({ kind: 'url', url: 'https://xn--bcher-kva.de/' });
+    expect(classifyInput('пример.рф')).toEqual({ kind: 'url', url: 'https://xn--e1afmkfd.xn--p1ai/' });
+  });
+
+  it('only treats single-word hosts as intranet hosts with a path or port', () => {
+    expect(classifyInput('wiki/')).toEqual({ kind: 'intranet', url: 'http://wiki/' });
+    expect(classifyInput('wiki/Team_Page')).toEqual({ kind: 'intranet', url: 'http://wiki/Team_Page' });
+    expect(classifyInput('jira:8080')).toEqual({ kind: 'intranet', url: 'http://jira:8080/' });
+    expect(classifyInput('wiki').kind).toBe('search');
+  });
+});
+
+describe('normalizeUrlInput', () => {
+  it('returns the URL to load, or null for searches', () => {
+    expect(normalizeUrlInput('example.com')).toBe('https://example.com/');
+    expect(normalizeUrlInput('chocolate chip')).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+// Classifies what someone typed into the URL bar or the new tab search box.
+// Shared by the renderer and the main process so the same text always does
+// the same thing, wherever it was entered. Keep this free of Electron and DOM
+// imports: it is bundled into both.
+
+export type InputKind =
+  | 'search'
+  | 'url'
+  | 'intranet'
+  | 'localhost'
+  | 'ipv4'
+  | 'ipv6'
+  | 'file'
+  | 'internal'
+  | 'about'
+  | 'view-source';
+
+export type UrlKind = Exclude<InputKind, 'search'>;
+
+export type ClassifiedInput =
+  | { kind: 'search'; query: string }
+  | { kind: UrlKind; url: string };
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// A hostname label after IDN conversion: letters, digits and inner hyphens
+const LABEL_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+// TLDs are alphabetic, or punycode for internationalized ones
+const TLD_PATTERN = /^([a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+const search = (query: string): ClassifiedInput => ({ kind: 'search', query });
+
+const isIPv4 = (host: string): boolean => {
+  const match = host.match(IPV4_PATTERN);
+  return match !== null && match.slice(1).every((part) => Number(part) <= 255);
+};
+
+const isValidHostname = (hostname: string): boolean => {
+  return hostname.split('.').every((label) => LABEL_PATTERN.test(label));
+};
+
+const kindForHost = (hostname: string): UrlKind => {
+  if (hostname.startsWith('[')) return 'ipv6';
+  if (isIPv4(hostname)) return 'ipv4';
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) return 'localhost';
+  if (!hostname.includes('.')) return 'intranet';
+  return 'url';
+};
+
+const parseUrl = (text: string): URL | null => {
+  try {
+    return new URL(text);
+  } catch {
+    return null;
+  }
+};
+
+// Page names are case-insensitive, but their parameters, like a site to
+// show, are kept as typed
+const normalizeInternalUrl = (text: string): string => {
+  const [, page, rest] = text.match(/^cookie:\/\/([^/?#]*)([\s\S]*)$/i) ?? ['', '', ''];
+  return `cookie://${page.toLowerCase()}${rest}`;
+};
+
+// Absolute local paths typed without a scheme, on macOS/Linux or Windows
+const toFileUrl = (path: string): string | null => {
+  if (path.startsWith('/')) {
+    return parseUrl(`file://${path}`)?.href ?? null;
+  }
+  const windowsPath = path.match(/^([a-z]):[\\/](.*)$/i);
+  if (windowsPath) {
+    const [, drive, rest] = windowsPath;
+    return parseUrl(`file:///${drive}:/${rest.replace(/\\/g, '/')}`)?.href ?? null;
+  }
+  return null;
+};
+
+// Input with an explicit http(s):// scheme is always a URL if it parses
+const classifyWebUrl = (text: string): ClassifiedInput => {
+  const url = parseUrl(text);
+  if (!url || !url.hostname) return search(text);
+  return { kind: kindForHost(url.hostname), url: url.href };
+};
+
+// Input without a scheme: decide from the host part whether it's a URL
+const classifySchemeless = (text: string): ClassifiedInput => {
+  const hostPart = text.split(/[/?#]/)[0];
+  const hasPath = text.length > hostPart.length;
+
+  // Reject things like "user@example.com" that URL would happily parse
+  if (!hostPart || hostPart.includes('@')) return search(text);
+
+  // IP addresses and localhost are almost always local services without TLS
+  const host = hostPart.replace(/:\d+$/, '');
+  const isLocal = host.startsWith('[')
+    || isIPv4(host)
+    || /(^|\.)localhost$/i.test(host);
+  const url = parseUrl(`${isLocal ? 'http' : 'https'}://${text}`);
+  if (!url || !url.hostname) return search(text);
+
+  // The URL parser reads numbers like "3.14" as IPv4 shorthand; only a full
+  // dotted quad counts as an address
+  const kind = kindForHost(url.hostname);
+  if (kind === 'ipv4' && !isIPv4(host)) return search(text);
+  if (kind !== 'url' && kind !== 'intranet') {
+    return { kind, url: url.href };
+  }
+
+  // url.hostname is already lowercased and punycoded for IDN hosts
+  if (!isValidHostname(url.hostname)) return search(text);
+
+  if (kind === 'intranet') {
+    // A lone word is a search; "wiki/", "wiki/page" or "jira:8080" is a host
+    if (!hasPath && !url.port) return search(text);
+    return { kind, url: parseUrl(`http://${text}`)?.href ?? url.href };
+  }
+
+  const tld = url.hostname.split('.').pop() ?? '';
+  if (!TLD_PATTERN.test(tld)) return search(text);
+  return { kind, url: url.href };
+};
+
+export const classifyInput = (input: string): ClassifiedInput => {
+  const text = input.trim();
+  if (!text) return search('');
+
+  const lower = text.toLowerCase();
+
+  if (lower.startsWith('cookie://')) {
+    return { kind: 'internal', url: normalizeInternalUrl(text) };
+  }
+  if (lower.startsWith('about:')) {
+    return { kind: 'about', url: lower };
+  }
+  if (lower.startsWith('view-source:')) {
+    const target = classifyInput(text.slice('view-source:'.length));
+    if (target.kind === 'search' || target.kind === 'view-source') return search(text);
+    return { kind: 'view-source', url: `view-source:${target.url}` };
+  }
+  if (lower.startsWith('file://')) {
+    const url = parseUrl(text);
+    return url ? { kind: 'file', url: url.href } : search(text);
+  }
+
+  // Anything with spaces is a search, apart from local paths
+  const fileUrl = toFileUrl(text);
+  if (fileUrl) return { kind: 'file', url: fileUrl };
+  if (/\s/.test(text)) return search(text);
+
+  if (/^https?:\/\//i.test(text)) return classifyWebUrl(text);
+
+  // Other schemes (javascript:, data:, ...) are never navigated to from input
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) return search(text);
+
+  return classifySchemeless(text);
+};
+
+// The URL typed text should load, or null if it's a search
+export const normalizeUrlInput = (input: string): string | null => {
+  const result = classifyInput(input);
+  return result.kind === 'search' ? null : result.url;
+};
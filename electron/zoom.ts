@@ -0,0 +1,92 @@
+import { readJsonFile, writeJsonFile } from './store';
+
+// Zoom levels remembered per site. Web pages are keyed by host and internal
+// cookie:// pages by their address, so each can be zoomed on its own. Private
+// windows start from the normal levels but only keep their changes in memory.
+
+export type ZoomAction = 'in' | 'out' | 'reset';
+
+export interface ZoomPreferences {
+  // Factor for sites without a level of their own
+  defaultZoom: number;
+}
+
+interface ZoomStore extends ZoomPreferences {
+  sites: Record<string, number>;
+}
+
+const ZOOM_FILE = 'zoom.json';
+
+// The steps zoom in/out walk through, like other browsers
+const ZOOM_FACTORS = [0.25, 0.33, 0.5, 0.67, 0.75, 0.8, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2, 2.5, 3, 4, 5];
+
+let store: ZoomStore = { defaultZoom: 1, sites: {} };
+// Levels set in private windows; null means reset to the default there
+const privateSites = new Map<string, number | null>();
+
+export function initZoom() {
+  store = { ...store, ...readJsonFile<Partial<ZoomStore>>(ZOOM_FILE, {}) };
+}
+
+function getZoomKey(url: string): string | null {
+  try {
+    const { protocol, host } = new URL(url);
+    if (protocol === 'http:' || protocol === 'https:') return host;
+    if (protocol === 'cookie:') return `cookie://${host}`;
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export function getZoomPreferences(): ZoomPreferences {
+  return { defaultZoom: store.defaultZoom };
+}
+
+export function setZoomPreferences(preferences: Partial<ZoomPreferences>): ZoomPreferences {
+  store = { ...store, ...preferences };
+  writeJsonFile(ZOOM_FILE, store);
+  return getZoomPreferences();
+}
+
+export function getZoomFactor(url: string, isPrivate: boolean): number {
+  const key = getZoomKey(url);
+  if (!key) return store.defaultZoom;
+  const privateFactor = isPrivate ? privateSites.get(key) : undefined;
+  if (privateFactor !== undefined) return privateFactor ?? store.defaultZoom;
+  return store.sites[key] ?? store.defaultZoom;
+}
+
+function stepZoom(factor: number, action: ZoomAction): number {
+  if (action === 'in') {
+    return ZOOM_FACTORS.find((step) => step > factor + 0.001) ?? factor;
+  }
+  return [...ZOOM_FACTORS].reverse().find((step) => step < factor - 0.001) ?? factor;
+}
+
+// Zoom the site a page belongs to and return its new factor
+export function changeZoom(url: string, action: ZoomAction, isPrivate: boolean): number {
+  const key = getZoomKey(url);
+  if (!key) return store.defaultZoom;
+
+  // Levels equal to the default aren't kept, so they follow it if it changes
+  const next = action === 'reset' ? store.defaultZoom : stepZoom(getZoomFactor(url, isPrivate), action);
+  const level = Math.abs(next - store.defaultZoom) < 0.001 ? null : next;
+
+  if (isPrivate) {
+    privateSites.set(key, level);
+  } else {
+    if (level === null) {
+      delete store.sites[key];
+    } else {
+      store.sites[key] = level;
+    }
+    writeJsonFile(ZOOM_FILE, store);
+  }
+  return next;
+}
+
+// Called when the last private window closes
+export function forgetPrivateZoom() {
+  privateSites.clear();
+}
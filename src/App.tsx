@@ -1,34 +1,204 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { TabBar, type Tab } from './components/TabBar';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { TabBar, type Tab, type TabGroup } from './components/TabBar';
 import { Toolbar } from './components/Toolbar';
+import { FindBar } from './components/FindBar';
+import { PermissionPrompt } from './components/PermissionPrompt';
 import { NewTabPage } from './pages/NewTabPage';
 import { BookmarksPage } from './pages/BookmarksPage';
-import { HistoryPage, addHistoryEntry } from './pages/HistoryPage';
+import { HistoryPage } from './pages/HistoryPage';
+import { RecentlyClosedPage } from './pages/RecentlyClosedPage';
+import { DownloadsPage } from './pages/DownloadsPage';
+import { CookiesPage } from './pages/CookiesPage';
 import { SettingsPage, getCurrentTheme } from './pages/SettingsPage';
+import { ErrorPage } from './pages/ErrorPage';
+import { loadSettings } from './utils/settings';
+import {
+  getErrorPageUrl,
+  getInternalPageTitle,
+  getInternalUrlParam,
+  isFilterablePage,
+  parseInternalUrl,
+} from './utils/internalPages';
+import { getCachedFavicon, getOrigin } from './utils/favicons';
+import { migrateLegacyHistory } from './utils/history';
+import { createSearchIntent } from './utils/searchEngines';
+import { EMPTY_FILTER, type PageFilter } from './utils/pageFilter';
+import { isPrivateWindow } from './utils/privateMode';
+import { createTabGroup, groupTabs, placeTab, saveGroupAsBookmarks, ungroupTabs } from './utils/tabGroups';
 import './App.css';
 import './types/electron.d.ts';
-
-type InternalPage = 'newtab' | 'bookmarks' | 'history' | 'settings' | null;
+import type {
+  ClosedTab,
+  ContentBlockerState,
+  DownloadRecord,
+  PermissionRequest,
+  SessionState,
+  SessionTab,
+  ShortcutCommand,
+  VisitTransition,
+  ZoomAction,
+} from './types/electron.d.ts';
 
 interface HistoryEntry {
   url: string;
   title: string;
 }
 
+// Back/forward stack for a single tab. Internal cookie:// pages only live
+// here; external entries mirror the history of the tab's own BrowserView.
+interface TabHistory {
+  stack: HistoryEntry[];
+  index: number;
+}
+
+// Tab ids name BrowserViews in the main process, so they must never repeat
+const createTabId = (): string => crypto.randomUUID();
+
+const createNewTab = (): Tab => ({
+  id: createTabId(),
+  title: 'New Tab',
+  url: 'cookie://newtab',
+});
+
+const createTabHistory = (tab: Tab): TabHistory => ({
+  stack: [{ url: tab.url, title: tab.title }],
+  index: 0,
+});
+
+const pushHistoryEntry = (history: TabHistory, entry: HistoryEntry): TabHistory => {
+  const stack = history.stack.slice(0, history.index + 1);
+
+  // Don't add duplicate consecutive entries
+  if (stack.length === 0 || stack[stack.length - 1].url !== entry.url) {
+    stack.push(entry);
+  }
+
+  return { stack, index: stack.length - 1 };
+};
+
+const replaceHistoryEntry = (history: TabHistory, entry: HistoryEntry): TabHistory => {
+  const stack = [...history.stack];
+  stack[history.index] = entry;
+  return { ...history, stack };
+};
+
+// Groups are only kept while they have tabs
+const withTabs = (groups: TabGroup[], tabs: Tab[]) =>
+  groups.filter((group) => tabs.some((tab) => tab.groupId === group.id));
+
+const toSessionState = (
+  tabs: Tab[],
+  histories: Record<string, TabHistory>,
+  activeTabId: string,
+  groups: TabGroup[] = [],
+): SessionState => ({
+  tabs: tabs.map((tab) => {
+    const history = histories[tab.id] ?? createTabHistory(tab);
+    return {
+      id: tab.id,
+      title: tab.title,
+      url: tab.url,
+      history: history.stack,
+      historyIndex: history.index,
+      pinned: tab.pinned,
+      groupId: tab.groupId,
+    };
+  }),
+  activeTabId,
+  groups: withTabs(groups, tabs),
+});
+
+// Tabs only keep groups the session has, or the ones given: a single tab
+// arriving in a window can rejoin a group still there
+const fromSessionState = (session: SessionState, groups: TabGroup[] = session.groups ?? []) => {
+  const tabs: Tab[] = session.tabs.map(({ id, title, url, pinned, groupId }) => ({
+    id,
+    title,
+    url,
+    pinned,
+    groupId: groups.some((group) => group.id === groupId) ? groupId : undefined,
+  }));
+  const histories: Record<string, TabHistory> = {};
+  for (const tab of session.tabs) {
+    histories[tab.id] = tab.history.length > 0
+      ? { stack: tab.history, index: Math.min(Math.max(tab.historyIndex, 0), tab.history.length - 1) }
+      : createTabHistory(tab);
+  }
+  const activeTab = tabs.find((tab) => tab.id === session.activeTabId) ?? tabs[0];
+  return { tabs, histories, activeTab, groups: withTabs(groups, tabs) };
+};
+
+// Swap which tab's BrowserView is attached. Internal pages just hide the
+// previously visible view; external pages reuse the tab's existing view so
+// its history, scroll position and form state survive the switch.
+const showTabView = async (tab: Tab, previousTabId: string | null) => {
+  if (!window.electronAPI) return;
+
+  if (parseInternalUrl(tab.url)) {
+    if (previousTabId) {
+      await window.electronAPI.closeBrowserView(previousTabId);
+    }
+    return;
+  }
+
+  const result = await window.electronAPI.showBrowserView(tab.id);
+  if (!result.success) {
+    // The tab never loaded its page (e.g. it was opened in the background)
+    await window.electronAPI.navigateToUrl(tab.id, tab.url, 'link');
+  }
+};
+
 function App() {
-  const [tabs, setTabs] = useState<Tab[]>([
-    { id: '1', title: 'New Tab', url: 'cookie://newtab' },
-  ]);
-  const [activeTabId, setActiveTabId] = useState('1');
-  const [currentUrl, setCurrentUrl] = useState('cookie://newtab');
-  const [internalPage, setInternalPage] = useState<InternalPage>('newtab');
-  
-  // Unified history stack for back/forward navigation
-  const [historyStack, setHistoryStack] = useState<HistoryEntry[]>([
-    { url: 'cookie://newtab', title: 'New Tab' }
-  ]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const isNavigatingRef = useRef(false); // Prevent adding to history during back/forward
+  const [initialTab] = useState(createNewTab);
+  const [tabs, setTabs] = useState<Tab[]>([initialTab]);
+  const [activeTabId, setActiveTabId] = useState(initialTab.id);
+  const [tabGroups, setTabGroups] = useState<TabGroup[]>([]);
+  // Tabs picked with Ctrl/Cmd or Shift clicks, which group items apply to
+  const [selectedTabIds, setSelectedTabIds] = useState<string[]>([]);
+  // The group whose chip shows its name for editing
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+
+  // Per-tab history stacks for back/forward navigation
+  const [tabHistories, setTabHistories] = useState<Record<string, TabHistory>>({
+    [initialTab.id]: createTabHistory(initialTab),
+  });
+  const historiesRef = useRef(tabHistories);
+  const tabsRef = useRef(tabs);
+  const navigatingTabRef = useRef<string | null>(null); // Prevent re-entrant navigation during back/forward
+
+  // Session left behind by a crash, offered on the New Tab page
+  const [crashedSession, setCrashedSession] = useState<SessionState | null>(null);
+
+  const [downloads, setDownloads] = useState<DownloadRecord[]>([]);
+  // Pages waiting on a permission answer, oldest first. Only the active
+  // tab's first request is shown; the rest wait their turn.
+  const [permissionRequests, setPermissionRequests] = useState<PermissionRequest[]>([]);
+  // Content blocker state of each tab's page, as last reported by main
+  const [blockerStates, setBlockerStates] = useState<Record<string, ContentBlockerState>>({});
+  // Pop-ups blocked on each tab's page
+  const [blockedPopups, setBlockedPopups] = useState<Record<string, string[]>>({});
+
+  // Find bar: searches the page's web contents, or filters internal lists
+  const [findBarOpen, setFindBarOpen] = useState(false);
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+  const [pageFilter, setPageFilter] = useState<PageFilter>(EMPTY_FILTER);
+  const [filterMatches, setFilterMatches] = useState(0);
+  const contentBarsRef = useRef<HTMLDivElement>(null);
+  const [addressBarFocusRequest, setAddressBarFocusRequest] = useState(0);
+
+  const activeTab = tabs.find((tab) => tab.id === activeTabId);
+  const groups = useMemo(() => withTabs(tabGroups, tabs), [tabGroups, tabs]);
+  const currentUrl = activeTab?.url ?? 'cookie://newtab';
+  const internalPage = parseInternalUrl(currentUrl);
+  const canFind = !internalPage || isFilterablePage(internalPage);
+
+  // Like other browsers, close the find bar on navigation and tab switches
+  const findLocation = `${activeTabId} ${currentUrl}`;
+  const [findBarLocation, setFindBarLocation] = useState(findLocation);
+  if (findBarLocation !== findLocation) {
+    setFindBarLocation(findLocation);
+    setFindBarOpen(false);
+  }
 
   // Apply saved theme on load
   useEffect(() => {
@@ -36,277 +206,835 @@ function App() {
     document.documentElement.setAttribute('data-theme', theme);
   }, []);
 
-  // Use a ref to track history state for the event listener (avoids stale closure)
-  const historyRef = useRef({ stack: historyStack, index: historyIndex });
   useEffect(() => {
-    historyRef.current = { stack: historyStack, index: historyIndex };
-  }, [historyStack, historyIndex]);
+    if (!isPrivateWindow) migrateLegacyHistory();
+  }, []);
+
+  // The window title names the active tab, e.g. in "Move Tab to Window" menus
+  useEffect(() => {
+    document.title = activeTab?.title || 'Cookie Browser';
+  }, [activeTab?.title]);
+
+  // Histories are read by event listeners, so the ref is updated in the same
+  // step as the state to keep rapid consecutive events from seeing stale stacks
+  const commitHistories = useCallback((next: Record<string, TabHistory>) => {
+    historiesRef.current = next;
+    setTabHistories(next);
+  }, []);
+
+  const updateTabHistory = useCallback((tabId: string, update: (history: TabHistory) => TabHistory) => {
+    const history = historiesRef.current[tabId];
+    if (!history) return;
+    commitHistories({ ...historiesRef.current, [tabId]: update(history) });
+  }, [commitHistories]);
+
+  useEffect(() => {
+    tabsRef.current = tabs;
+  }, [tabs]);
+
+  const restoreSession = useCallback((session: SessionState) => {
+    // The restored tabs replace the current ones, so drop their views
+    if (window.electronAPI) {
+      for (const tab of tabsRef.current) {
+        window.electronAPI.destroyBrowserView(tab.id);
+      }
+    }
+
+    const restored = fromSessionState(session);
+    setTabs(restored.tabs);
+    setTabGroups(restored.groups);
+    setActiveTabId(restored.activeTab.id);
+    commitHistories(restored.histories);
+    setCrashedSession(null);
+
+    // Background tabs load their page the first time they are activated
+    showTabView(restored.activeTab, null);
+  }, [commitHistories]);
+
+  // Bring back the previous session's first window here, and its other
+  // windows alongside
+  const restorePreviousSession = useCallback((session: SessionState) => {
+    restoreSession(session);
+    window.electronAPI?.restoreSessionWindows();
+  }, [restoreSession]);
+
+  // Restore the previous session on launch, or offer to if the last run
+  // crashed. Windows opened for a moved tab get their tabs the same way.
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    window.electronAPI.getSavedSession().then(({ session, crashed, restore }) => {
+      if (!session) return;
+      if (restore) {
+        restoreSession(session);
+      } else if (loadSettings().startupBehavior === 'restore') {
+        restorePreviousSession(session);
+      } else if (crashed) {
+        setCrashedSession(session);
+      }
+    });
+  }, [restoreSession, restorePreviousSession]);
+
+  // Save the session continuously so it survives restarts and crashes.
+  // Main only keeps private windows' tabs in memory, for reopening the
+  // window once it's closed.
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const timer = setTimeout(() => {
+      window.electronAPI.saveSession(toSessionState(tabs, tabHistories, activeTabId, tabGroups));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [tabs, tabHistories, activeTabId, tabGroups]);
+
+  const updateTab = useCallback((tabId: string, updates: Partial<Tab>) => {
+    setTabs((prevTabs) =>
+      prevTabs.map((tab) =>
+        tab.id === tabId ? { ...tab, ...updates } : tab
+      )
+    );
+  }, []);
 
-  // Listen for BrowserView navigation events (for in-page navigation within external sites)
+  // Listen for BrowserView navigation events. Every tab has its own view, so
+  // events carry the tab id and background tabs update their own entry.
   useEffect(() => {
     if (!window.electronAPI) return;
 
     const unsubscribeNavigated = window.electronAPI.onBrowserViewNavigated((data) => {
-      setCurrentUrl(data.url);
-      setTabs((prevTabs) =>
-        prevTabs.map((tab) =>
-          tab.id === activeTabId ? { ...tab, url: data.url, title: data.title } : tab
-        )
-      );
-      
-      // Add to our history stack if this is a user-initiated navigation (not from our back/forward)
-      if (!isNavigatingRef.current) {
-        const { stack, index } = historyRef.current;
-        const newStack = stack.slice(0, index + 1);
-        
-        // Don't add duplicate consecutive entries
-        if (newStack.length > 0 && newStack[newStack.length - 1].url === data.url) {
-          return; // Don't add duplicate
-        }
-        
-        newStack.push({ url: data.url, title: data.title });
-        setHistoryStack(newStack);
-        setHistoryIndex(newStack.length - 1);
-        
-        // Also add to persistent browsing history
-        addHistoryEntry(data.title, data.url);
-      }
+      // A tab moving to another site drops the old site's icon until main
+      // reports the new one
+      const previous = tabsRef.current.find((tab) => tab.id === data.tabId);
+      const favicon = previous && getOrigin(previous.url) === getOrigin(data.url)
+        ? previous.favicon
+        : getCachedFavicon(data.url);
+      updateTab(data.tabId, { url: data.url, title: data.title, favicon });
+
+      // Back/forward already moved the index onto this entry, and load events
+      // repeat for the same page, so only new URLs extend the stack
+      const history = historiesRef.current[data.tabId];
+      if (!history || history.stack[history.index]?.url === data.url) return;
+
+      updateTabHistory(data.tabId, (h) => pushHistoryEntry(h, { url: data.url, title: data.title }));
     });
 
     const unsubscribeTitleUpdated = window.electronAPI.onBrowserViewTitleUpdated((data) => {
-      setTabs((prevTabs) =>
-        prevTabs.map((tab) =>
-          tab.id === activeTabId ? { ...tab, title: data.title } : tab
-        )
-      );
-      // Update title in history stack for current entry
-      setHistoryStack((prev) => {
-        const updated = [...prev];
-        // Update the most recent entry with this URL
-        for (let i = updated.length - 1; i >= 0; i--) {
-          if (updated[i].url === data.url) {
-            updated[i] = { ...updated[i], title: data.title };
+      // A hidden view's page can retitle itself while an internal page shows
+      const tab = tabsRef.current.find((t) => t.id === data.tabId);
+      if (tab && parseInternalUrl(tab.url)) return;
+      updateTab(data.tabId, { title: data.title });
+
+      // Update title in history stack for the most recent entry with this URL
+      updateTabHistory(data.tabId, (history) => {
+        const stack = [...history.stack];
+        for (let i = stack.length - 1; i >= 0; i--) {
+          if (stack[i].url === data.url) {
+            stack[i] = { ...stack[i], title: data.title };
             break;
           }
         }
-        return updated;
+        return { ...history, stack };
       });
     });
 
+    const unsubscribeLoading = window.electronAPI.onBrowserViewLoading((data) => {
+      updateTab(data.tabId, { isLoading: data.isLoading, loadProgress: data.progress });
+    });
+
+    const unsubscribeFavicon = window.electronAPI.onFaviconUpdated(({ origin, favicon }) => {
+      setTabs((prevTabs) =>
+        prevTabs.map((tab) => (getOrigin(tab.url) === origin ? { ...tab, favicon } : tab))
+      );
+    });
+
+    const unsubscribeAudio = window.electronAPI.onBrowserViewAudioChanged(({ tabId, isAudible, isMuted }) => {
+      updateTab(tabId, { isAudible, isMuted });
+    });
+
     return () => {
       unsubscribeNavigated();
       unsubscribeTitleUpdated();
+      unsubscribeLoading();
+      unsubscribeFavicon();
+      unsubscribeAudio();
     };
-  }, [activeTabId]);
+  }, [updateTab, updateTabHistory]);
 
-  const updateActiveTab = useCallback((updates: Partial<Tab>) => {
-    setTabs((prevTabs) =>
-      prevTabs.map((tab) =>
-        tab.id === activeTabId ? { ...tab, ...updates } : tab
-      )
-    );
-  }, [activeTabId]);
+  // Downloads are tracked in main; keep a copy for the toolbar and downloads page
+  const refreshDownloads = useCallback(() => {
+    window.electronAPI?.getDownloads().then(setDownloads);
+  }, []);
 
-  const parseInternalUrl = (url: string): InternalPage => {
-    if (url === 'cookie://newtab') return 'newtab';
-    if (url === 'cookie://bookmarks') return 'bookmarks';
-    if (url === 'cookie://history') return 'history';
-    if (url === 'cookie://settings') return 'settings';
-    return null;
-  };
+  useEffect(() => {
+    if (!window.electronAPI) return;
 
-  const getInternalPageTitle = (page: InternalPage): string => {
-    switch (page) {
-      case 'newtab': return 'New Tab';
-      case 'bookmarks': return 'Bookmarks';
-      case 'history': return 'History';
-      case 'settings': return 'Settings';
-      default: return 'Cookie Browser';
-    }
-  };
+    refreshDownloads();
+    return window.electronAPI.onDownloadUpdated((record) => {
+      setDownloads((prev) => {
+        const index = prev.findIndex((download) => download.id === record.id);
+        if (index === -1) return [record, ...prev];
+        const next = [...prev];
+        next[index] = record;
+        return next;
+      });
+    });
+  }, [refreshDownloads]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const removeRequested = window.electronAPI.onPermissionRequested((request) => {
+      setPermissionRequests((prev) => [...prev, request]);
+    });
+    const removeClosed = window.electronAPI.onPermissionRequestClosed((id) => {
+      setPermissionRequests((prev) => prev.filter((request) => request.id !== id));
+    });
+    return () => {
+      removeRequested();
+      removeClosed();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onContentBlockerUpdated((state) => {
+      setBlockerStates((prev) => ({ ...prev, [state.tabId]: state }));
+    });
+  }, []);
+
+  // Tabs that arrived from another window or were restored have no updates yet
+  useEffect(() => {
+    if (!window.electronAPI || internalPage) return;
+    window.electronAPI.getContentBlockerState(activeTabId).then((state) => {
+      if (state) setBlockerStates((prev) => ({ ...prev, [state.tabId]: state }));
+    });
+  }, [activeTabId, currentUrl, internalPage]);
+
+  const activeBlockerState = internalPage ? null : blockerStates[activeTabId] ?? null;
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    return window.electronAPI.onBlockedPopupsUpdated(({ tabId, urls }) => {
+      setBlockedPopups((prev) => ({ ...prev, [tabId]: urls }));
+    });
+  }, []);
+
+  const activeBlockedPopups = internalPage ? 0 : blockedPopups[activeTabId]?.length ?? 0;
+
+  const activePermissionRequest = permissionRequests.find((request) => request.tabId === activeTabId);
+
+  const handlePermissionAnswer = useCallback((id: string, allow: boolean, remember: boolean) => {
+    setPermissionRequests((prev) => prev.filter((request) => request.id !== id));
+    window.electronAPI?.answerPermissionRequest(id, allow, remember);
+  }, []);
+
+  const openFindBar = useCallback(() => {
+    if (!canFind) return;
+    setFindBarOpen(true);
+    setFindFocusRequest((request) => request + 1);
+  }, [canFind]);
+
+  const closeFindBar = useCallback(() => {
+    setFindBarOpen(false);
+  }, []);
+
+  // Zoom is remembered per site in main. Internal pages are zoomed here, web
+  // pages by main, and the toolbar badges the level either way.
+  const [zoomFactor, setZoomFactor] = useState(1);
 
-  // Navigate to a URL and show the appropriate view
-  // Note: For external URLs, persistent history is added via onBrowserViewNavigated listener
-  // to get the correct title. This function does NOT add external URLs to persistent history.
-  const showUrl = useCallback(async (url: string, title: string, _addToHistory: boolean = true) => {
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const refresh = () => {
+      window.electronAPI.getZoomFactor(currentUrl).then(setZoomFactor);
+    };
+    refresh();
+    return window.electronAPI.onZoomChanged(refresh);
+  }, [currentUrl]);
+
+  const changeZoom = useCallback((action: ZoomAction) => {
+    window.electronAPI?.changeZoom(currentUrl, action);
+  }, [currentUrl]);
+
+  // Bars under the toolbar push the tab's BrowserView down by their height
+  useEffect(() => {
+    const bars = contentBarsRef.current;
+    if (!window.electronAPI || !bars) return;
+
+    const observer = new ResizeObserver(() => {
+      window.electronAPI.setContentTopOffset(bars.offsetHeight);
+    });
+    observer.observe(bars);
+    return () => observer.disconnect();
+  }, []);
+
+  // Navigate a tab to a URL and show the appropriate view. The transition
+  // tells browsing history how the visit came about.
+  const showUrl = useCallback(async (tabId: string, url: string, title: string, transition: VisitTransition = 'typed') => {
     const internal = parseInternalUrl(url);
-    
-    setCurrentUrl(url);
-    setInternalPage(internal);
-    updateActiveTab({ url, title });
-    
+
+    // Internal pages show the cookie instead of a site icon
+    updateTab(tabId, internal ? { url, title, favicon: undefined, isLoading: false } : { url, title });
+
+    if (!window.electronAPI) return;
+
     if (internal) {
-      // Internal page - hide BrowserView
-      if (window.electronAPI) {
-        await window.electronAPI.closeBrowserView();
-      }
+      // Internal page - hide the tab's BrowserView
+      await window.electronAPI.closeBrowserView(tabId);
     } else {
-      // External URL - show BrowserView
-      // Persistent history will be added by onBrowserViewNavigated listener
-      if (window.electronAPI) {
-        try {
-          const result = await window.electronAPI.navigateToUrl(url);
-          if (result.success && result.title) {
-            updateActiveTab({ title: result.title });
-          }
-        } catch (e) {
-          console.error('Failed to navigate:', e);
+      // External URL - show the tab's BrowserView. Main records the visit
+      // in browsing history once the page loads.
+      try {
+        const result = await window.electronAPI.navigateToUrl(tabId, url, transition);
+        if (result.success && result.title) {
+          updateTab(tabId, { title: result.title });
         }
+      } catch (e) {
+        console.error('Failed to navigate:', e);
       }
     }
-  }, [updateActiveTab]);
+  }, [updateTab]);
+
+  // Show the error page in place of a page that failed to load or crashed.
+  // It takes the failed page's history entry if the page got one.
+  const showErrorPage = useCallback((tabId: string, failedUrl: string, errorUrl: string, title: string) => {
+    // Loads a hidden view finishes behind an internal page aren't shown
+    const tab = tabsRef.current.find((t) => t.id === tabId);
+    if (!tab || parseInternalUrl(tab.url)) return;
+
+    const entry = { url: errorUrl, title };
+    updateTabHistory(tabId, (history) =>
+      history.stack[history.index]?.url === failedUrl
+        ? replaceHistoryEntry(history, entry)
+        : pushHistoryEntry(history, entry)
+    );
+    showUrl(tabId, errorUrl, title);
+  }, [showUrl, updateTabHistory]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribeLoadFailed = window.electronAPI.onBrowserViewLoadFailed((data) => {
+      const errorUrl = getErrorPageUrl(data.url, { code: data.errorCode, description: data.errorDescription });
+      showErrorPage(data.tabId, data.url, errorUrl, getInternalPageTitle('error'));
+    });
+
+    const unsubscribeCrashed = window.electronAPI.onBrowserViewCrashed((data) => {
+      showErrorPage(data.tabId, data.url, getErrorPageUrl(data.url, { crashed: data.reason }), 'This tab crashed');
+    });
+
+    return () => {
+      unsubscribeLoadFailed();
+      unsubscribeCrashed();
+    };
+  }, [showErrorPage]);
+
+  // Load the page an error page stands in for again, in the error page's place
+  const retryPage = useCallback(async (tabId: string, url: string) => {
+    const title = 'Loading...';
+    updateTabHistory(tabId, (history) => replaceHistoryEntry(history, { url, title }));
+    await showUrl(tabId, url, title, 'reload');
+  }, [showUrl, updateTabHistory]);
+
+  const reloadTab = useCallback(async (tabId: string) => {
+    const tab = tabsRef.current.find((t) => t.id === tabId);
+    if (!tab) return;
+
+    // On error pages the failed page is the one to reload
+    const page = parseInternalUrl(tab.url);
+    const failedUrl = page === 'error' ? getInternalUrlParam(tab.url, 'url') : null;
+    if (failedUrl) {
+      await retryPage(tabId, failedUrl);
+    } else if (window.electronAPI && !page) {
+      await window.electronAPI.reload(tabId);
+    }
+  }, [retryPage]);
 
   const navigateToUrl = useCallback(async (url: string) => {
-    if (isNavigatingRef.current) return;
-    
+    if (navigatingTabRef.current === activeTabId) return;
+
     const internal = parseInternalUrl(url);
     const title = internal ? getInternalPageTitle(internal) : 'Loading...';
-    
-    // Only add internal pages to history here - external URLs will be added 
+
+    // Only add internal pages to history here - external URLs will be added
     // by the BrowserView navigation event listener to avoid duplicates
     if (internal) {
-      const newStack = historyStack.slice(0, historyIndex + 1);
-      
-      // Don't add duplicate consecutive entries
-      if (newStack.length === 0 || newStack[newStack.length - 1].url !== url) {
-        newStack.push({ url, title });
-      }
-      
-      setHistoryStack(newStack);
-      setHistoryIndex(newStack.length - 1);
+      updateTabHistory(activeTabId, (history) => pushHistoryEntry(history, { url, title }));
     }
-    
+
     // Show the URL
-    await showUrl(url, title);
-  }, [historyStack, historyIndex, showUrl]);
+    await showUrl(activeTabId, url, title);
+  }, [activeTabId, showUrl, updateTabHistory]);
+
+  const goToHistoryIndex = useCallback(async (tabId: string, newIndex: number) => {
+    const history = historiesRef.current[tabId];
+    const entry = history?.stack[newIndex];
+
+    // Safety check
+    if (!history || !entry) {
+      console.error('No history entry at index', newIndex);
+      return;
+    }
+
+    const fromEntry = history.stack[history.index];
+    const direction = newIndex < history.index ? 'back' : 'forward';
+
+    navigatingTabRef.current = tabId;
+    updateTabHistory(tabId, (h) => ({ ...h, index: newIndex }));
+
+    if (parseInternalUrl(entry.url) || !window.electronAPI) {
+      await showUrl(tabId, entry.url, entry.title, 'back_forward');
+    } else {
+      // Step the tab's own web contents through its history where possible,
+      // so the page comes back with its scroll position and form state
+      updateTab(tabId, { url: entry.url, title: entry.title });
+      const result = parseInternalUrl(fromEntry.url)
+        ? await window.electronAPI.showBrowserView(tabId)
+        : direction === 'back'
+          ? await window.electronAPI.goBack(tabId)
+          : await window.electronAPI.goForward(tabId);
+
+      if (!result.success || result.url !== entry.url) {
+        await showUrl(tabId, entry.url, entry.title, 'back_forward');
+      }
+    }
+
+    // Small delay to prevent race conditions
+    setTimeout(() => {
+      if (navigatingTabRef.current === tabId) {
+        navigatingTabRef.current = null;
+      }
+    }, 150);
+  }, [showUrl, updateTab, updateTabHistory]);
 
   const handleTabClick = useCallback((tabId: string) => {
-    setActiveTabId(tabId);
+    setSelectedTabIds([]);
+    if (tabId === activeTabId) return;
+
     const tab = tabs.find((t) => t.id === tabId);
     if (tab) {
-      // Reset history for this tab switch
-      setHistoryStack([{ url: tab.url, title: tab.title }]);
-      setHistoryIndex(0);
-      
-      const internal = parseInternalUrl(tab.url);
-      setInternalPage(internal);
-      setCurrentUrl(tab.url);
-      
-      if (!internal && window.electronAPI) {
-        window.electronAPI.navigateToUrl(tab.url);
-      } else if (internal && window.electronAPI) {
-        window.electronAPI.closeBrowserView();
-      }
+      setActiveTabId(tabId);
+      showTabView(tab, activeTabId);
     }
-  }, [tabs]);
+  }, [tabs, activeTabId]);
 
-  const handleTabClose = useCallback((tabId: string) => {
+  // Ctrl/Cmd+click adds a tab to the selection or takes it out, Shift+click
+  // selects the tabs from the active one to the clicked one. The active tab
+  // counts as selected until then.
+  const handleTabSelect = useCallback((tabId: string, range: boolean) => {
+    if (range) {
+      const from = tabs.findIndex((t) => t.id === activeTabId);
+      const to = tabs.findIndex((t) => t.id === tabId);
+      setSelectedTabIds(tabs.slice(Math.min(from, to), Math.max(from, to) + 1).map((t) => t.id));
+      return;
+    }
+    setSelectedTabIds((prev) => {
+      const selected = prev.length > 0 ? prev : [activeTabId];
+      return selected.includes(tabId) ? selected.filter((id) => id !== tabId) : [...selected, tabId];
+    });
+  }, [tabs, activeTabId]);
+
+  // Group items apply to all selected tabs when the menu is for one of them
+  const getGroupTargets = useCallback((tabId: string) => (
+    selectedTabIds.includes(tabId)
+      ? tabs.filter((t) => selectedTabIds.includes(t.id) && !t.pinned).map((t) => t.id)
+      : [tabId]
+  ), [tabs, selectedTabIds]);
+
+  // Drop a tab from this window. Its view is left alone: closing a tab
+  // destroys it, moving a tab hands it to another window.
+  const removeTab = useCallback((tabId: string) => {
     if (tabs.length === 1) {
-      setTabs([{ id: '1', title: 'New Tab', url: 'cookie://newtab' }]);
-      setActiveTabId('1');
-      setInternalPage('newtab');
-      setCurrentUrl('cookie://newtab');
-      setHistoryStack([{ url: 'cookie://newtab', title: 'New Tab' }]);
-      setHistoryIndex(0);
-      if (window.electronAPI) {
-        window.electronAPI.closeBrowserView();
-      }
+      const newTab = createNewTab();
+      setTabs([newTab]);
+      setActiveTabId(newTab.id);
+      commitHistories({ [newTab.id]: createTabHistory(newTab) });
       return;
     }
 
     const tabIndex = tabs.findIndex((t) => t.id === tabId);
     const newTabs = tabs.filter((t) => t.id !== tabId);
     setTabs(newTabs);
+    commitHistories(Object.fromEntries(
+      Object.entries(historiesRef.current).filter(([id]) => id !== tabId)
+    ));
 
     if (tabId === activeTabId) {
       const newActiveIndex = Math.min(tabIndex, newTabs.length - 1);
       const newActiveTab = newTabs[newActiveIndex];
       setActiveTabId(newActiveTab.id);
-      
-      // Reset history for new active tab
-      setHistoryStack([{ url: newActiveTab.url, title: newActiveTab.title }]);
-      setHistoryIndex(0);
-      
-      const internal = parseInternalUrl(newActiveTab.url);
-      setInternalPage(internal);
-      setCurrentUrl(newActiveTab.url);
-      
-      if (!internal && window.electronAPI) {
-        window.electronAPI.navigateToUrl(newActiveTab.url);
-      } else if (internal && window.electronAPI) {
-        window.electronAPI.closeBrowserView();
-      }
+      showTabView(newActiveTab, null);
     }
-  }, [tabs, activeTabId]);
+  }, [tabs, activeTabId, commitHistories]);
 
-  const handleNewTab = useCallback(() => {
-    const newTab: Tab = {
-      id: Date.now().toString(),
-      title: 'New Tab',
-      url: 'cookie://newtab',
+  const getSessionTab = useCallback((tabId: string): SessionTab | null => {
+    const tab = tabs.find((t) => t.id === tabId);
+    if (!tab) return null;
+    return toSessionState([tab], historiesRef.current, tabId).tabs[0];
+  }, [tabs]);
+
+  // Closed tabs are remembered in main, which outlives this window
+  const getClosedTab = useCallback((tabId: string): ClosedTab | null => {
+    const tab = getSessionTab(tabId);
+    return tab ? { tab, index: tabs.findIndex((t) => t.id === tabId) } : null;
+  }, [getSessionTab, tabs]);
+
+  const handleTabClose = useCallback((tabId: string) => {
+    const closed = getClosedTab(tabId);
+    if (window.electronAPI) {
+      if (closed) window.electronAPI.recordClosedTabs([closed]);
+      window.electronAPI.destroyBrowserView(tabId);
+    }
+    removeTab(tabId);
+  }, [getClosedTab, removeTab]);
+
+  const handleReopenClosedTab = useCallback(() => {
+    window.electronAPI?.restoreClosed();
+  }, []);
+
+  const handleTabDragOut = useCallback((tabId: string) => {
+    const tab = getSessionTab(tabId);
+    if (tab && window.electronAPI) {
+      window.electronAPI.detachTab(tab, tabs.length === 1);
+    }
+  }, [getSessionTab, tabs.length]);
+
+  const handleTabContextMenu = useCallback((tabId: string) => {
+    const tab = getSessionTab(tabId);
+    if (!tab || !window.electronAPI) return;
+
+    const index = tabs.findIndex((t) => t.id === tabId);
+    window.electronAPI.showTabMenu(tab, {
+      isOnlyTab: tabs.length === 1,
+      isPinned: Boolean(tab.pinned),
+      hasOtherTabs: tabs.some((t) => t.id !== tabId && !t.pinned),
+      hasTabsToRight: tabs.slice(index + 1).some((t) => !t.pinned),
+      groupTabCount: getGroupTargets(tabId).length,
+      isGrouped: Boolean(tab.groupId),
+      groups: groups.filter((group) => group.id !== tab.groupId),
+    });
+  }, [getSessionTab, getGroupTargets, tabs, groups]);
+
+  // Add a tab next to another one, e.g. the page it was opened from
+  const addTab = useCallback((tab: Tab, history: TabHistory, afterTabId: string | null, background = false) => {
+    setTabs((prev) => {
+      const after = prev.findIndex((t) => t.id === afterTabId);
+      return placeTab(prev, tab, after === -1 ? prev.length : after + 1);
+    });
+    commitHistories({ ...historiesRef.current, [tab.id]: history });
+    if (!background) {
+      setActiveTabId(tab.id);
+      showTabView(tab, activeTabId);
+    }
+  }, [activeTabId, commitHistories]);
+
+  // Background tabs load their page the first time they're activated. Tabs
+  // opened from a grouped tab join its group.
+  const openTab = useCallback((url: string, openerTabId: string | null, background: boolean, tabId?: string) => {
+    const opener = tabsRef.current.find((t) => t.id === openerTabId);
+    const tab: Tab = { id: tabId ?? createTabId(), title: url, url, groupId: opener?.groupId };
+    addTab(tab, createTabHistory(tab), openerTabId, background);
+  }, [addTab]);
+
+  const duplicateTab = useCallback((tabId: string) => {
+    const original = getSessionTab(tabId);
+    if (!original) return;
+    const copy = fromSessionState({
+      tabs: [{ ...original, id: createTabId(), pinned: false }],
+      activeTabId: '',
+    }, groups);
+    addTab(copy.activeTab, copy.histories[copy.activeTab.id], tabId);
+  }, [getSessionTab, addTab, groups]);
+
+  // Dragged within the tab bar, into the group of the tab it was dropped on
+  const handleTabMove = useCallback((tabId: string, toIndex: number, groupId: string | undefined) => {
+    setTabs((prev) => {
+      const tab = prev.find((t) => t.id === tabId);
+      if (!tab) return prev;
+      return placeTab(prev.filter((t) => t.id !== tabId), { ...tab, groupId: tab.pinned ? undefined : groupId }, toIndex);
+    });
+  }, []);
+
+  // Pinning moves a tab to the end of the pinned ones, out of its group,
+  // and unpinning to just after them
+  const setTabPinned = useCallback((tabId: string, pinned: boolean) => {
+    setTabs((prev) => {
+      const tab = prev.find((t) => t.id === tabId);
+      if (!tab) return prev;
+      const rest = prev.filter((t) => t.id !== tabId);
+      return placeTab(rest, { ...tab, pinned, groupId: undefined }, rest.filter((t) => t.pinned).length);
+    });
+  }, []);
+
+  const handleTabMuteToggle = useCallback((tabId: string) => {
+    const tab = tabs.find((t) => t.id === tabId);
+    if (tab && window.electronAPI) {
+      window.electronAPI.setTabMuted(tabId, !tab.isMuted);
+    }
+  }, [tabs]);
+
+  // Close several tabs at once. If the active one goes, the tab asked for
+  // takes over, or else the nearest one left after it or before it.
+  const closeTabs = useCallback((tabIds: string[], nextActiveTabId?: string) => {
+    const closingIds = new Set(tabIds);
+    const closing = tabs.filter((t) => closingIds.has(t.id));
+    if (closing.length === 0) return;
+
+    // Rightmost first, so reopening them one by one fills each slot in order
+    const closed = closing.flatMap((t) => getClosedTab(t.id) ?? []).reverse();
+    window.electronAPI?.recordClosedTabs(closed);
+    for (const id of closingIds) {
+      window.electronAPI?.destroyBrowserView(id);
+    }
+
+    const remaining = tabs.filter((t) => !closingIds.has(t.id));
+    if (remaining.length === 0) {
+      const newTab = createNewTab();
+      setTabs([newTab]);
+      setActiveTabId(newTab.id);
+      commitHistories({ [newTab.id]: createTabHistory(newTab) });
+      return;
+    }
+
+    setTabs(remaining);
+    commitHistories(Object.fromEntries(
+      Object.entries(historiesRef.current).filter(([id]) => !closingIds.has(id))
+    ));
+    if (closingIds.has(activeTabId)) {
+      const index = tabs.findIndex((t) => t.id === activeTabId);
+      const nextTab = remaining.find((t) => t.id === nextActiveTabId)
+        ?? tabs.slice(index).find((t) => !closingIds.has(t.id))
+        ?? tabs.slice(0, index).reverse().find((t) => !closingIds.has(t.id))
+        ?? remaining[0];
+      setActiveTabId(nextTab.id);
+      showTabView(nextTab, null);
+    }
+  }, [tabs, activeTabId, getClosedTab, commitHistories]);
+
+  // Close every other tab, or only those to the right. Pinned tabs stay.
+  const closeOtherTabs = useCallback((tabId: string, rightOnly: boolean) => {
+    const index = tabs.findIndex((t) => t.id === tabId);
+    if (index === -1) return;
+    const closing = tabs.filter((t, i) => t.id !== tabId && !t.pinned && (!rightOnly || i > index));
+    closeTabs(closing.map((t) => t.id), tabId);
+  }, [tabs, closeTabs]);
+
+  const updateGroup = useCallback((groupId: string, changes: Partial<TabGroup>) => {
+    setTabGroups((prev) => prev.map((group) => (group.id === groupId ? { ...group, ...changes } : group)));
+  }, []);
+
+  // New groups start out asking for a name
+  const createGroup = useCallback((tabIds: string[]) => {
+    const group = createTabGroup(groups);
+    setTabGroups([...groups, group]);
+    setTabs((prev) => groupTabs(prev, tabIds, group.id));
+    setSelectedTabIds([]);
+    setEditingGroupId(group.id);
+  }, [groups]);
+
+  const addToGroup = useCallback((tabIds: string[], groupId: string) => {
+    setTabs((prev) => groupTabs(prev, tabIds, groupId));
+    setSelectedTabIds([]);
+  }, []);
+
+  const removeFromGroup = useCallback((tabIds: string[]) => {
+    setTabs((prev) => ungroupTabs(prev, tabIds));
+    setSelectedTabIds([]);
+  }, []);
+
+  const handleGroupRename = useCallback((groupId: string, name: string) => {
+    updateGroup(groupId, { name });
+    setEditingGroupId(null);
+  }, [updateGroup]);
+
+  // Collapsing the active tab's group switches to the nearest tab outside
+  // it, if there is one
+  const toggleGroupCollapsed = useCallback((groupId: string) => {
+    const group = groups.find((g) => g.id === groupId);
+    if (!group) return;
+    updateGroup(groupId, { collapsed: !group.collapsed });
+    if (group.collapsed || activeTab?.groupId !== groupId) return;
+
+    const index = tabs.indexOf(activeTab);
+    const nextTab = tabs.slice(index).find((t) => t.groupId !== groupId)
+      ?? tabs.slice(0, index).reverse().find((t) => t.groupId !== groupId);
+    if (nextTab) handleTabClick(nextTab.id);
+  }, [groups, tabs, activeTab, updateGroup, handleTabClick]);
+
+  const newTabInGroup = useCallback((groupId: string) => {
+    const lastTab = tabs.filter((t) => t.groupId === groupId).pop();
+    const newTab: Tab = { ...createNewTab(), groupId };
+    updateGroup(groupId, { collapsed: false });
+    addTab(newTab, createTabHistory(newTab), lastTab?.id ?? null);
+  }, [tabs, updateGroup, addTab]);
+
+  const handleGroupContextMenu = useCallback((groupId: string) => {
+    const group = groups.find((g) => g.id === groupId);
+    if (group) window.electronAPI?.showTabGroupMenu(group);
+  }, [groups]);
+
+  // Tab menu items, and pages asking for new tabs from their context menu
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribeMenu = window.electronAPI.onTabMenuAction(({ tabId, action, groupId }) => {
+      switch (action) {
+        case 'reload':
+          return reloadTab(tabId);
+        case 'duplicate':
+          return duplicateTab(tabId);
+        case 'pin':
+        case 'unpin':
+          return setTabPinned(tabId, action === 'pin');
+        case 'close':
+          return handleTabClose(tabId);
+        case 'closeOthers':
+        case 'closeToRight':
+          return closeOtherTabs(tabId, action === 'closeToRight');
+        case 'newGroup':
+          return createGroup(getGroupTargets(tabId));
+        case 'addToGroup':
+          if (groupId) addToGroup(getGroupTargets(tabId), groupId);
+          return;
+        case 'removeFromGroup':
+          return removeFromGroup(getGroupTargets(tabId));
+      }
+    });
+
+    const unsubscribeOpen = window.electronAPI.onOpenTabRequested(({ url, openerTabId, background, tabId }) => {
+      openTab(url, openerTabId, background, tabId);
+    });
+
+    const unsubscribeSearch = window.electronAPI.onSearchRequested(({ text, openerTabId }) => {
+      openTab(createSearchIntent(text).url, openerTabId, false);
+    });
+
+    return () => {
+      unsubscribeMenu();
+      unsubscribeOpen();
+      unsubscribeSearch();
+    };
+  }, [
+    reloadTab,
+    duplicateTab,
+    setTabPinned,
+    handleTabClose,
+    closeOtherTabs,
+    createGroup,
+    addToGroup,
+    removeFromGroup,
+    getGroupTargets,
+    openTab,
+  ]);
+
+  // Group chip menu items
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    return window.electronAPI.onTabGroupAction(({ groupId, action, color }) => {
+      const group = groups.find((g) => g.id === groupId);
+      if (!group) return;
+
+      switch (action) {
+        case 'newTab':
+          return newTabInGroup(groupId);
+        case 'rename':
+          return setEditingGroupId(groupId);
+        case 'color':
+          return updateGroup(groupId, { color: color ?? group.color });
+        case 'toggleCollapsed':
+          return toggleGroupCollapsed(groupId);
+        case 'saveAsBookmarks':
+          return saveGroupAsBookmarks(group, tabs);
+        case 'ungroup':
+          return setTabs((prev) => prev.map((t) => (t.groupId === groupId ? { ...t, groupId: undefined } : t)));
+        case 'close':
+          return closeTabs(tabs.filter((t) => t.groupId === groupId).map((t) => t.id));
+      }
+    });
+  }, [groups, tabs, newTabInGroup, updateGroup, toggleGroupCollapsed, closeTabs]);
+
+  // Tabs moving between windows: main has already handed over the view
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const unsubscribeMovedAway = window.electronAPI.onTabMovedAway((tabId) => {
+      if (tabs.length === 1 && tabs[0].id === tabId) {
+        window.electronAPI.closeWindow();
+      } else {
+        removeTab(tabId);
+      }
+    });
+
+    // A page closed itself, e.g. a sign-in pop-up, and took its view with it
+    const unsubscribeClosedByPage = window.electronAPI.onTabClosedByPage((tabId) => {
+      if (tabs.some((t) => t.id === tabId)) removeTab(tabId);
+    });
+
+    const unsubscribeReceived = window.electronAPI.onTabReceived((sessionTab) => {
+      const received = fromSessionState({ tabs: [sessionTab], activeTabId: sessionTab.id });
+      setTabs((prev) => placeTab(prev, received.activeTab, prev.length));
+      commitHistories({ ...historiesRef.current, ...received.histories });
+      setActiveTabId(received.activeTab.id);
+      showTabView(received.activeTab, activeTabId);
+    });
+
+    // A closed tab coming back to its old place, with its history. The main
+    // process gives it a new id and a view with its back/forward list. It
+    // rejoins its group if that's still here.
+    const unsubscribeRestored = window.electronAPI.onTabRestored(({ tab, index }) => {
+      const restored = fromSessionState({ tabs: [tab], activeTabId: '' }, groups);
+      setTabs((prev) => placeTab(prev, restored.activeTab, index));
+      commitHistories({ ...historiesRef.current, ...restored.histories });
+      setActiveTabId(restored.activeTab.id);
+      showTabView(restored.activeTab, activeTabId);
+    });
+
+    return () => {
+      unsubscribeMovedAway();
+      unsubscribeClosedByPage();
+      unsubscribeReceived();
+      unsubscribeRestored();
     };
+  }, [tabs, groups, activeTabId, removeTab, commitHistories]);
+
+  const handleNewTab = useCallback(() => {
+    const newTab = createNewTab();
     setTabs((prev) => [...prev, newTab]);
+    commitHistories({ ...historiesRef.current, [newTab.id]: createTabHistory(newTab) });
     setActiveTabId(newTab.id);
-    setInternalPage('newtab');
-    setCurrentUrl('cookie://newtab');
-    setHistoryStack([{ url: 'cookie://newtab', title: 'New Tab' }]);
-    setHistoryIndex(0);
     if (window.electronAPI) {
-      window.electronAPI.closeBrowserView();
+      window.electronAPI.closeBrowserView(activeTabId);
     }
-  }, []);
+  }, [activeTabId, commitHistories]);
+
+  const activeHistory = tabHistories[activeTabId];
 
   const handleBack = useCallback(async () => {
-    if (historyIndex <= 0) return;
-    
-    const newIndex = historyIndex - 1;
-    const entry = historyStack[newIndex];
-    
-    // Safety check
-    if (!entry) {
-      console.error('No history entry at index', newIndex);
-      return;
-    }
-    
-    isNavigatingRef.current = true;
-    setHistoryIndex(newIndex);
-    // Don't add to persistent history when navigating back
-    await showUrl(entry.url, entry.title, false);
-    
-    // Small delay to prevent race conditions
-    setTimeout(() => {
-      isNavigatingRef.current = false;
-    }, 150);
-  }, [historyIndex, historyStack, showUrl]);
+    if (!activeHistory || activeHistory.index <= 0) return;
+    await goToHistoryIndex(activeTabId, activeHistory.index - 1);
+  }, [activeHistory, activeTabId, goToHistoryIndex]);
 
   const handleForward = useCallback(async () => {
-    if (historyIndex >= historyStack.length - 1) return;
-    
-    const newIndex = historyIndex + 1;
-    const entry = historyStack[newIndex];
-    
-    // Safety check
-    if (!entry) {
-      console.error('No history entry at index', newIndex);
-      return;
-    }
-    
-    isNavigatingRef.current = true;
-    setHistoryIndex(newIndex);
-    // Don't add to persistent history when navigating forward
-    await showUrl(entry.url, entry.title, false);
-    
-    // Small delay to prevent race conditions
-    setTimeout(() => {
-      isNavigatingRef.current = false;
-    }, 150);
-  }, [historyIndex, historyStack, showUrl]);
+    if (!activeHistory || activeHistory.index >= activeHistory.stack.length - 1) return;
+    await goToHistoryIndex(activeTabId, activeHistory.index + 1);
+  }, [activeHistory, activeTabId, goToHistoryIndex]);
+
+  // Error pages show the address of the page that failed
+  const failedPageUrl = internalPage === 'error' ? getInternalUrlParam(currentUrl, 'url') : null;
 
   const handleReload = useCallback(async () => {
-    if (window.electronAPI && !internalPage) {
-      await window.electronAPI.reload();
-    }
-  }, [internalPage]);
+    await reloadTab(activeTabId);
+  }, [reloadTab, activeTabId]);
+
+  const handleStop = useCallback(() => {
+    window.electronAPI?.stopLoading(activeTabId);
+  }, [activeTabId]);
+
+  const handleToggleBlocking = useCallback(async () => {
+    if (!activeBlockerState?.site) return;
+    await window.electronAPI.setSiteBlocking(activeBlockerState.site, !activeBlockerState.enabled);
+    await window.electronAPI.reload(activeTabId);
+  }, [activeBlockerState, activeTabId]);
 
   const handleHome = useCallback(() => {
     navigateToUrl('cookie://newtab');
@@ -320,53 +1048,255 @@ function App() {
     navigateToUrl('cookie://history');
   }, [navigateToUrl]);
 
+  const handleDownloads = useCallback(() => {
+    navigateToUrl('cookie://downloads');
+  }, [navigateToUrl]);
+
+  // The site the cookies page groups the current web page under
+  const currentSite = (() => {
+    if (internalPage) return null;
+    try {
+      const { protocol, hostname } = new URL(currentUrl);
+      return protocol === 'http:' || protocol === 'https:' ? hostname.replace(/^www\./, '') : null;
+    } catch {
+      return null;
+    }
+  })();
+
+  const handleSiteData = useCallback(() => {
+    if (currentSite) navigateToUrl(`cookie://cookies?site=${encodeURIComponent(currentSite)}`);
+  }, [currentSite, navigateToUrl]);
+
+  const handleNewWindow = useCallback(() => {
+    window.electronAPI?.openNewWindow();
+  }, []);
+
+  const handleNewPrivateWindow = useCallback(() => {
+    window.electronAPI?.openPrivateWindow();
+  }, []);
+
   const handleSettings = useCallback(() => {
     navigateToUrl('cookie://settings');
   }, [navigateToUrl]);
 
+  const selectTabAt = useCallback((index: number) => {
+    const tab = tabs[(index + tabs.length) % tabs.length];
+    if (tab) handleTabClick(tab.id);
+  }, [tabs, handleTabClick]);
+
+  // Keyboard shortcuts and menu items, which main matches wherever focus is
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const activeIndex = tabs.findIndex((tab) => tab.id === activeTabId);
+    return window.electronAPI.onCommand((command: ShortcutCommand) => {
+      switch (command) {
+        case 'newTab':
+          return handleNewTab();
+        case 'closeTab':
+          return handleTabClose(activeTabId);
+        case 'reopenClosedTab':
+          return handleReopenClosedTab();
+        case 'newWindow':
+          return handleNewWindow();
+        case 'newPrivateWindow':
+          return handleNewPrivateWindow();
+        case 'focusAddressBar':
+          return setAddressBarFocusRequest((request) => request + 1);
+        case 'reload':
+          return handleReload();
+        case 'back':
+          return handleBack();
+        case 'forward':
+          return handleForward();
+        case 'nextTab':
+          return selectTabAt(activeIndex + 1);
+        case 'previousTab':
+          return selectTabAt(activeIndex - 1);
+        case 'selectLastTab':
+          return selectTabAt(tabs.length - 1);
+        case 'find':
+          return openFindBar();
+        case 'zoomIn':
+          return changeZoom('in');
+        case 'zoomOut':
+          return changeZoom('out');
+        case 'zoomReset':
+          return changeZoom('reset');
+        case 'showHistory':
+          return handleHistory();
+        case 'showBookmarks':
+          return handleBookmarks();
+        case 'showDownloads':
+          return handleDownloads();
+        case 'showSettings':
+          return handleSettings();
+        default: {
+          // selectTab1 to selectTab8 only pick tabs that exist
+          const position = Number(command.replace('selectTab', ''));
+          if (position <= tabs.length) selectTabAt(position - 1);
+        }
+      }
+    });
+  }, [
+    tabs,
+    activeTabId,
+    selectTabAt,
+    handleNewTab,
+    handleTabClose,
+    handleReopenClosedTab,
+    handleNewWindow,
+    handleNewPrivateWindow,
+    handleReload,
+    handleBack,
+    handleForward,
+    openFindBar,
+    changeZoom,
+    handleHistory,
+    handleBookmarks,
+    handleDownloads,
+    handleSettings,
+  ]);
+
   const renderInternalPage = () => {
     switch (internalPage) {
       case 'newtab':
-        return <NewTabPage onNavigate={navigateToUrl} />;
+        return (
+          <NewTabPage
+            onNavigate={navigateToUrl}
+            isPrivate={isPrivateWindow}
+            onRestoreSession={crashedSession ? () => restorePreviousSession(crashedSession) : undefined}
+            onDismissRestore={() => setCrashedSession(null)}
+          />
+        );
       case 'bookmarks':
-        return <BookmarksPage onNavigate={navigateToUrl} />;
+        return (
+          <BookmarksPage
+            onNavigate={navigateToUrl}
+            filter={pageFilter}
+            onFilterMatches={setFilterMatches}
+          />
+        );
       case 'history':
-        return <HistoryPage onNavigate={navigateToUrl} />;
+        return (
+          <HistoryPage
+            onNavigate={navigateToUrl}
+            filter={pageFilter}
+            onFilterMatches={setFilterMatches}
+          />
+        );
+      case 'downloads':
+        return (
+          <DownloadsPage
+            downloads={downloads}
+            onDownloadsChanged={refreshDownloads}
+            filter={pageFilter}
+            onFilterMatches={setFilterMatches}
+          />
+        );
+      case 'cookies':
+        return (
+          <CookiesPage
+            key={currentUrl}
+            site={getInternalUrlParam(currentUrl, 'site')}
+            onNavigate={navigateToUrl}
+            filter={pageFilter}
+            onFilterMatches={setFilterMatches}
+          />
+        );
+      case 'recently-closed':
+        return <RecentlyClosedPage />;
       case 'settings':
         return <SettingsPage />;
+      case 'error':
+        return <ErrorPage key={currentUrl} url={currentUrl} onRetry={(url) => retryPage(activeTabId, url)} />;
       default:
         return null;
     }
   };
 
   // Determine if back/forward buttons should be enabled
-  const canGoBack = historyIndex > 0;
-  const canGoForward = historyIndex < historyStack.length - 1;
+  const canGoBack = activeHistory ? activeHistory.index > 0 : false;
+  const canGoForward = activeHistory ? activeHistory.index < activeHistory.stack.length - 1 : false;
 
   return (
     <div className="app">
       <TabBar
         tabs={tabs}
         activeTabId={activeTabId}
+        groups={groups}
+        selectedTabIds={selectedTabIds}
+        editingGroupId={editingGroupId}
         onTabClick={handleTabClick}
+        onTabSelect={handleTabSelect}
         onTabClose={handleTabClose}
+        onTabDragOut={handleTabDragOut}
+        onTabMove={handleTabMove}
+        onTabMuteToggle={handleTabMuteToggle}
+        onTabContextMenu={handleTabContextMenu}
         onNewTab={handleNewTab}
+        onGroupToggle={toggleGroupCollapsed}
+        onGroupContextMenu={handleGroupContextMenu}
+        onGroupRename={handleGroupRename}
+        isPrivate={isPrivateWindow}
       />
       <Toolbar
-        currentUrl={currentUrl}
+        currentUrl={failedPageUrl ?? currentUrl}
+        tabs={tabs}
+        activeTabId={activeTabId}
         onNavigate={navigateToUrl}
+        onSwitchToTab={handleTabClick}
+        zoomFactor={zoomFactor}
+        onResetZoom={() => changeZoom('reset')}
+        blockedPopupCount={activeBlockedPopups}
+        onShowBlockedPopups={() => window.electronAPI?.showBlockedPopupsMenu(activeTabId)}
+        focusRequest={addressBarFocusRequest}
         onBack={handleBack}
         onForward={handleForward}
         onReload={handleReload}
+        onStop={handleStop}
+        isLoading={!internalPage && (activeTab?.isLoading ?? false)}
+        loadProgress={activeTab?.loadProgress ?? 0}
         onHome={handleHome}
         onBookmarks={handleBookmarks}
         onHistory={handleHistory}
+        onDownloads={handleDownloads}
+        onSiteData={currentSite ? handleSiteData : null}
+        contentBlocker={activeBlockerState}
+        onToggleBlocking={handleToggleBlocking}
         onSettings={handleSettings}
+        onNewWindow={handleNewWindow}
+        onNewPrivateWindow={handleNewPrivateWindow}
         canGoBack={canGoBack}
         canGoForward={canGoForward}
+        downloads={downloads}
       />
+      <div ref={contentBarsRef} className="content-bars">
+        {activePermissionRequest && (
+          <PermissionPrompt
+            key={activePermissionRequest.id}
+            request={activePermissionRequest}
+            onAnswer={(allow, remember) => handlePermissionAnswer(activePermissionRequest.id, allow, remember)}
+          />
+        )}
+        {findBarOpen && (
+          <FindBar
+            key={activeTabId}
+            tabId={activeTabId}
+            filterMode={internalPage !== null}
+            filterMatches={filterMatches}
+            onFilterChange={setPageFilter}
+            onClose={closeFindBar}
+            focusRequest={findFocusRequest}
+          />
+        )}
+      </div>
       <main className="content">
-        {internalPage && renderInternalPage()}
+        {internalPage && (
+          <div style={{ zoom: zoomFactor }}>
+            {renderInternalPage()}
+          </div>
+        )}
       </main>
     </div>
   );
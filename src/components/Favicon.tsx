@@ -0,0 +1,19 @@
+import React from 'react';
+import { useFavicon } from '../utils/favicons';
+import './Favicon.css';
+
+interface FaviconProps {
+  url: string;
+  // Shown for sites without an icon, and for internal pages
+  fallback: React.ReactNode;
+  className?: string;
+}
+
+export const Favicon: React.FC<FaviconProps> = ({ url, fallback, className = '' }) => {
+  const favicon = useFavicon(url);
+  return (
+    <span className={`favicon ${className}`}>
+      {favicon ? <img src={favicon} alt="" /> : fallback}
+    </span>
+  );
+};
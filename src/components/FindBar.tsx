@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EMPTY_FILTER, type PageFilter } from '../utils/pageFilter';
+import './FindBar.css';
+
+interface FindBarProps {
+  tabId: string;
+  // Internal pages filter their own lists instead of searching web contents
+  filterMode: boolean;
+  filterMatches: number;
+  onFilterChange: (filter: PageFilter) => void;
+  onClose: () => void;
+  // Bumped every time find is requested, so repeat shortcuts refocus the input
+  focusRequest: number;
+}
+
+interface FindResult {
+  active: number;
+  total: number;
+}
+
+export const FindBar: React.FC<FindBarProps> = ({
+  tabId,
+  filterMode,
+  filterMatches,
+  onFilterChange,
+  onClose,
+  focusRequest,
+}) => {
+  const [query, setQuery] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [result, setResult] = useState<FindResult | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    if (!window.electronAPI || filterMode) return;
+
+    const unsubscribe = window.electronAPI.onFoundInPage((data) => {
+      if (data.tabId !== tabId) return;
+      setResult({ active: data.activeMatchOrdinal, total: data.matches });
+    });
+
+    return () => {
+      unsubscribe();
+      window.electronAPI.stopFindInPage(tabId, 'clearSelection');
+    };
+  }, [tabId, filterMode]);
+
+  // Leave the internal page's list unfiltered once the bar goes away
+  useEffect(() => {
+    if (!filterMode) return;
+    return () => onFilterChange(EMPTY_FILTER);
+  }, [filterMode, onFilterChange]);
+
+  // Start a new search, e.g. after the text or match case changed
+  const search = (text: string, caseSensitive: boolean) => {
+    if (filterMode) {
+      onFilterChange({ query: text, matchCase: caseSensitive });
+      return;
+    }
+    if (!window.electronAPI) return;
+
+    if (text) {
+      window.electronAPI.findInPage(tabId, text, { matchCase: caseSensitive, findNext: true });
+    } else {
+      setResult(null);
+      window.electronAPI.stopFindInPage(tabId, 'clearSelection');
+    }
+  };
+
+  const findAgain = (forward: boolean) => {
+    if (filterMode || !query || !window.electronAPI) return;
+    window.electronAPI.findInPage(tabId, query, { matchCase, forward, findNext: false });
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    search(e.target.value, matchCase);
+  };
+
+  const handleMatchCaseToggle = () => {
+    setMatchCase(!matchCase);
+    search(query, !matchCase);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      findAgain(!e.shiftKey);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const getCounterText = (): string => {
+    if (!query) return '';
+    if (filterMode) {
+      return `${filterMatches} ${filterMatches === 1 ? 'match' : 'matches'}`;
+    }
+    if (!result) return '';
+    return result.total > 0 ? `${result.active} of ${result.total}` : 'No matches';
+  };
+
+  return (
+    <div className="find-bar" role="search">
+      <input
+        ref={inputRef}
+        type="text"
+        className="find-input"
+        value={query}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        placeholder={filterMode ? 'Filter this page...' : 'Find in page...'}
+        aria-label="Find in page"
+      />
+      <span className="find-counter" aria-live="polite">
+        {getCounterText()}
+      </span>
+      <button
+        className={`find-btn find-match-case ${matchCase ? 'find-match-case-active' : ''}`}
+        onClick={handleMatchCaseToggle}
+        aria-pressed={matchCase}
+        aria-label="Match case"
+        title="Match case"
+      >
+        Aa
+      </button>
+      {!filterMode && (
+        <>
+          <button
+            className="find-btn"
+            onClick={() => findAgain(false)}
+            disabled={!result?.total}
+            aria-label="Previous match"
+            title="Previous match (Shift+Enter)"
+          >
+            ↑
+          </button>
+          <button
+            className="find-btn"
+            onClick={() => findAgain(true)}
+            disabled={!result?.total}
+            aria-label="Next match"
+            title="Next match (Enter)"
+          >
+            ↓
+          </button>
+        </>
+      )}
+      <button
+        className="find-btn"
+        onClick={onClose}
+        aria-label="Close find bar"
+        title="Close (Esc)"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import type { Tab } from './TabBar';
+import { Favicon } from './Favicon';
+import {
+  findHistoryMatches,
+  findMatchRanges,
+  getInlineCompletion,
+  getSuggestions,
+  type Suggestion,
+} from '../utils/omnibox';
+import { resolveInput } from '../utils/searchEngines';
+import './Omnibox.css';
+
+interface OmniboxProps {
+  currentUrl: string;
+  tabs: Tab[];
+  activeTabId: string;
+  onNavigate: (url: string) => void;
+  onSwitchToTab: (tabId: string) => void;
+  // Zoom of the page shown, badged in the bar unless it's 100%
+  zoomFactor: number;
+  onResetZoom: () => void;
+  // Pop-ups the page tried to open on its own, noted in the bar
+  blockedPopupCount: number;
+  onShowBlockedPopups: () => void;
+  // Bumped to focus the input, e.g. by the address bar shortcut
+  focusRequest: number;
+}
+
+const suggestionIcons: Record<Suggestion['type'], string> = {
+  search: '🔍',
+  history: '🕐',
+  bookmark: '🔖',
+  tab: '📑',
+  internal: '🍪',
+};
+
+const highlightMatches = (text: string, query: string): React.ReactNode => {
+  const ranges = findMatchRanges(text, query);
+  if (ranges.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(<mark key={range.start}>{text.slice(range.start, range.end)}</mark>);
+    position = range.end;
+  }
+  parts.push(text.slice(position));
+  return parts;
+};
+
+export const Omnibox: React.FC<OmniboxProps> = ({
+  currentUrl,
+  tabs,
+  activeTabId,
+  onNavigate,
+  onSwitchToTab,
+  zoomFactor,
+  onResetZoom,
+  blockedPopupCount,
+  onShowBlockedPopups,
+  focusRequest,
+}) => {
+  const [inputUrl, setInputUrl] = useState(currentUrl);
+  const [typedText, setTypedText] = useState('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(-1);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Inline completion selects the completed part so typing on replaces it
+  const completionRef = useRef<{ start: number; end: number } | null>(null);
+  // The text suggestions are being looked up for. History answers
+  // asynchronously, so answers for anything else are stale.
+  const pendingQueryRef = useRef<string | null>(null);
+
+  const isOpen = suggestions.length > 0;
+  const zoomPercent = Math.round(zoomFactor * 100);
+  const isZoomed = zoomPercent !== 100;
+  const badgeCount = Number(isZoomed) + Number(blockedPopupCount > 0);
+
+  // Reset the input whenever the tab navigates somewhere else
+  const [shownUrl, setShownUrl] = useState(currentUrl);
+  if (shownUrl !== currentUrl) {
+    setShownUrl(currentUrl);
+    setInputUrl(currentUrl);
+    setSuggestions([]);
+  }
+
+  useLayoutEffect(() => {
+    const completion = completionRef.current;
+    if (completion && inputRef.current) {
+      inputRef.current.setSelectionRange(completion.start, completion.end);
+      completionRef.current = null;
+    }
+  }, [inputUrl]);
+
+  // Focusing selects the whole address, ready to type over
+  useEffect(() => {
+    if (focusRequest > 0) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [focusRequest]);
+
+  // The page's BrowserView draws above the shell, so hide it while the
+  // dropdown hangs over the content area
+  useEffect(() => {
+    if (!window.electronAPI || !isOpen) return;
+    window.electronAPI.setOverlayVisible(true);
+    return () => {
+      window.electronAPI.setOverlayVisible(false);
+    };
+  }, [isOpen]);
+
+  const closeSuggestions = () => {
+    pendingQueryRef.current = null;
+    setSuggestions([]);
+    setSelectedIndex(-1);
+  };
+
+  const chooseSuggestion = (suggestion: Suggestion) => {
+    closeSuggestions();
+    if (suggestion.type === 'tab' && suggestion.tabId) {
+      setInputUrl(currentUrl);
+      onSwitchToTab(suggestion.tabId);
+    } else {
+      setInputUrl(suggestion.url);
+      onNavigate(suggestion.url);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    // Don't fight the user by re-completing what they just deleted
+    const isDeleting = (e.nativeEvent as InputEvent).inputType?.startsWith('delete');
+    pendingQueryRef.current = text;
+    setTypedText(text);
+    setInputUrl(text);
+    setSelectedIndex(-1);
+
+    findHistoryMatches(text).then((history) => {
+      if (pendingQueryRef.current !== text) return;
+      const nextSuggestions = getSuggestions(text, { tabs, activeTabId, history });
+      setSuggestions(nextSuggestions);
+
+      const completion = isDeleting ? null : getInlineCompletion(text, nextSuggestions);
+      if (completion) {
+        completionRef.current = { start: text.length, end: completion.length };
+        setInputUrl(text + completion.slice(text.length));
+      }
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedIndex >= 0 && suggestions[selectedIndex]) {
+      chooseSuggestion(suggestions[selectedIndex]);
+      return;
+    }
+    closeSuggestions();
+    if (inputUrl.trim()) {
+      onNavigate(resolveInput(inputUrl));
+    }
+  };
+
+  const moveSelection = (index: number) => {
+    setSelectedIndex(index);
+    setInputUrl(index >= 0 ? suggestions[index].url : typedText);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' && isOpen) {
+      e.preventDefault();
+      moveSelection(Math.min(selectedIndex + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp' && isOpen) {
+      e.preventDefault();
+      moveSelection(Math.max(selectedIndex - 1, -1));
+    } else if (e.key === 'Escape') {
+      if (isOpen) {
+        closeSuggestions();
+        setInputUrl(typedText);
+      } else {
+        setInputUrl(currentUrl);
+      }
+    }
+  };
+
+  return (
+    <form className="url-bar-container" onSubmit={handleSubmit}>
+      <div className="omnibox">
+        <input
+          ref={inputRef}
+          type="text"
+          className={`url-bar ${badgeCount > 0 ? `url-bar-badges-${badgeCount}` : ''}`}
+          value={inputUrl}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={(e) => e.target.select()}
+          onBlur={closeSuggestions}
+          placeholder="Search or enter URL..."
+          aria-label="URL bar"
+          aria-autocomplete="both"
+          aria-expanded={isOpen}
+          role="combobox"
+        />
+        {badgeCount > 0 && (
+          <div className="omnibox-badges">
+            {blockedPopupCount > 0 && (
+              <button
+                type="button"
+                className="omnibox-badge omnibox-popup-badge"
+                onClick={onShowBlockedPopups}
+                aria-label={`${blockedPopupCount} pop-up${blockedPopupCount === 1 ? '' : 's'} blocked`}
+                title="Pop-ups blocked · click to open them or allow this site"
+              >
+                🚫 {blockedPopupCount}
+              </button>
+            )}
+            {isZoomed && (
+              <button
+                type="button"
+                className="omnibox-badge"
+                onClick={onResetZoom}
+                aria-label={`Zoom ${zoomPercent}%, reset zoom`}
+                title={`Zoom ${zoomPercent}% · click to reset (Ctrl+0)`}
+              >
+                🔍 {zoomPercent}%
+              </button>
+            )}
+          </div>
+        )}
+        {isOpen && (
+          <ul className="omnibox-suggestions" role="listbox">
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={`${suggestion.type}-${suggestion.tabId ?? suggestion.url}`}
+                className={`omnibox-suggestion ${index === selectedIndex ? 'omnibox-suggestion-selected' : ''}`}
+                role="option"
+                aria-selected={index === selectedIndex}
+                // Keep focus in the input so the blur doesn't close the list first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => chooseSuggestion(suggestion)}
+              >
+                {suggestion.type === 'search' || suggestion.type === 'internal' ? (
+                  <span className="omnibox-suggestion-icon">
+                    {suggestionIcons[suggestion.type]}
+                  </span>
+                ) : (
+                  <Favicon
+                    url={suggestion.url}
+                    fallback={suggestionIcons[suggestion.type]}
+                    className="omnibox-suggestion-icon"
+                  />
+                )}
+                <span className="omnibox-suggestion-title">
+                  {highlightMatches(suggestion.title || suggestion.url, typedText)}
+                </span>
+                <span className="omnibox-suggestion-url">
+                  {highlightMatches(suggestion.url, typedText)}
+                </span>
+                {suggestion.type === 'tab' && (
+                  <span className="omnibox-suggestion-badge">Switch to tab</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <button type="submit" className="go-btn" aria-label="Go">
+        Go
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import type { PermissionRequest } from '../types/electron.d.ts';
+import { PERMISSION_LABELS, describePermissions } from '../utils/permissions';
+import './PermissionPrompt.css';
+
+interface PermissionPromptProps {
+  request: PermissionRequest;
+  onAnswer: (allow: boolean, remember: boolean) => void;
+}
+
+const getHost = (origin: string): string => {
+  try {
+    return new URL(origin).host || origin;
+  } catch {
+    return origin;
+  }
+};
+
+export const PermissionPrompt: React.FC<PermissionPromptProps> = ({ request, onAnswer }) => {
+  const [askEveryTime, setAskEveryTime] = useState(false);
+
+  return (
+    <div className="permission-prompt" role="dialog" aria-label="Permission request">
+      <div className="permission-card">
+        <span className="permission-emoji">{PERMISSION_LABELS[request.kinds[0]].emoji}</span>
+        <div className="permission-text">
+          <span>
+            <strong>{getHost(request.origin)}</strong> wants to use your {describePermissions(request.kinds)}
+          </span>
+          <label className="permission-ask">
+            <input
+              type="checkbox"
+              checked={askEveryTime}
+              onChange={(e) => setAskEveryTime(e.target.checked)}
+            />
+            Ask every time
+          </label>
+        </div>
+        <div className="permission-actions">
+          <button className="btn btn-lavender" onClick={() => onAnswer(false, !askEveryTime)}>
+            Block
+          </button>
+          <button className="btn btn-sage" onClick={() => onAnswer(true, !askEveryTime)}>
+            Allow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Favicon } from './Favicon';
+import { formatTimeAgo } from '../utils/format';
+import type { ClosedEntry } from '../types/electron.d.ts';
+import './RecentlyClosed.css';
+
+interface RecentlyClosedProps {
+  // Only the latest few, e.g. on the new tab page
+  limit?: number;
+  // Link to the full list, shown when some were left out
+  onShowAll?: () => void;
+  // Shown instead of nothing when there's nothing to reopen
+  emptyMessage?: string;
+}
+
+const describeWindow = (entry: Extract<ClosedEntry, { kind: 'window' }>): string => {
+  const titles = entry.session.tabs.map((tab) => tab.title || tab.url);
+  return `${titles.length} tabs · ${titles.join(', ')}`;
+};
+
+export const RecentlyClosed: React.FC<RecentlyClosedProps> = ({ limit, onShowAll, emptyMessage }) => {
+  const [entries, setEntries] = useState<ClosedEntry[]>([]);
+
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    const load = () => {
+      window.electronAPI.getRecentlyClosed().then(setEntries);
+    };
+    load();
+    return window.electronAPI.onRecentlyClosedChanged(load);
+  }, []);
+
+  if (entries.length === 0) {
+    return emptyMessage ? <p className="recently-closed-empty">{emptyMessage}</p> : null;
+  }
+
+  const shown = limit ? entries.slice(0, limit) : entries;
+
+  return (
+    <section className="recently-closed card">
+      <div className="recently-closed-header">
+        <h2>Recently closed</h2>
+        {onShowAll && shown.length < entries.length && (
+          <button className="recently-closed-more" onClick={onShowAll}>
+            Show all {entries.length}
+          </button>
+        )}
+      </div>
+      <ul className="recently-closed-list">
+        {shown.map((entry) => (
+          <li key={entry.id}>
+            <button
+              className="recently-closed-item"
+              onClick={() => window.electronAPI?.restoreClosed(entry.id)}
+              title={entry.kind === 'tab' ? entry.tab.url : describeWindow(entry)}
+            >
+              {entry.kind === 'tab' ? (
+                <>
+                  <Favicon url={entry.tab.url} fallback="🌐" />
+                  <span className="recently-closed-title">{entry.tab.title || entry.tab.url}</span>
+                </>
+              ) : (
+                <>
+                  <span className="recently-closed-window">🪟</span>
+                  <span className="recently-closed-title">{describeWindow(entry)}</span>
+                </>
+              )}
+              <span className="recently-closed-time">{formatTimeAgo(entry.closedAt)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import type { TabGroupColor } from '../types/electron.d.ts';
 import './TabBar.css';
 
 export interface Tab {
@@ -6,56 +7,369 @@ export interface Tab {
   title: string;
   url: string;
   favicon?: string;
+  isLoading?: boolean;
+  // Rough share of the current load done, from 0 to 1
+  loadProgress?: number;
+  // Pinned tabs sit first and shrink to their icon
+  pinned?: boolean;
+  // Whether the page is playing sound, and whether it's muted
+  isAudible?: boolean;
+  isMuted?: boolean;
+  groupId?: string;
+}
+
+export interface TabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  // Collapsed groups only show their chip, and the active tab if it's theirs
+  collapsed: boolean;
 }
 
 interface TabBarProps {
   tabs: Tab[];
   activeTabId: string;
+  groups: TabGroup[];
+  // Tabs picked with Ctrl/Cmd or Shift clicks, for grouping them together
+  selectedTabIds: string[];
+  editingGroupId: string | null;
   onTabClick: (tabId: string) => void;
+  onTabSelect: (tabId: string, range: boolean) => void;
   onTabClose: (tabId: string) => void;
+  onTabDragOut: (tabId: string) => void;
+  // Dropped elsewhere in the tab bar, at an index among the other tabs, and
+  // into the group of the tab it was dropped on
+  onTabMove: (tabId: string, toIndex: number, groupId: string | undefined) => void;
+  onTabMuteToggle: (tabId: string) => void;
+  onTabContextMenu: (tabId: string) => void;
   onNewTab: () => void;
+  onGroupToggle: (groupId: string) => void;
+  onGroupContextMenu: (groupId: string) => void;
+  onGroupRename: (groupId: string, name: string) => void;
+  isPrivate?: boolean;
 }
 
+interface DropTarget {
+  tabId: string;
+  after: boolean;
+}
+
+const SCROLL_STEP = 200;
+
+const TabIcon: React.FC<{ tab: Tab }> = ({ tab }) => (
+  <span className="tab-favicon">
+    {tab.isLoading ? (
+      <span className="tab-spinner" aria-label="Loading" />
+    ) : tab.favicon ? (
+      <img src={tab.favicon} alt="" />
+    ) : (
+      '🍪'
+    )}
+  </span>
+);
+
 export const TabBar: React.FC<TabBarProps> = ({
   tabs,
   activeTabId,
+  groups,
+  selectedTabIds,
+  editingGroupId,
   onTabClick,
+  onTabSelect,
   onTabClose,
+  onTabDragOut,
+  onTabMove,
+  onTabMuteToggle,
+  onTabContextMenu,
   onNewTab,
+  onGroupToggle,
+  onGroupContextMenu,
+  onGroupRename,
+  isPrivate = false,
 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  // The tab being dragged, when the drag started in this window. Drags from
+  // other windows aren't accepted, so they end up moving the tab here.
+  const draggedTabIdRef = useRef<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [scrollState, setScrollState] = useState({ overflowing: false, canScrollLeft: false, canScrollRight: false });
+  const [tabListOpen, setTabListOpen] = useState(false);
+  const tabListRef = useRef<HTMLDivElement>(null);
+  // The list only has a button while the tabs overflow
+  const showTabList = tabListOpen && scrollState.overflowing;
+
+  const updateScrollState = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const maxScroll = container.scrollWidth - container.clientWidth;
+    setScrollState({
+      overflowing: maxScroll > 1,
+      canScrollLeft: container.scrollLeft > 1,
+      canScrollRight: container.scrollLeft < maxScroll - 1,
+    });
+  };
+
+  // The strip grows with its tabs and the container with the window
+  useEffect(() => {
+    const observer = new ResizeObserver(() => updateScrollState());
+    if (containerRef.current) observer.observe(containerRef.current);
+    if (stripRef.current) observer.observe(stripRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    stripRef.current
+      ?.querySelector('.tab-active')
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [activeTabId]);
+
+  // The tab list hangs over the page, whose BrowserView draws above the shell
+  useEffect(() => {
+    if (!showTabList) return;
+    window.electronAPI?.setOverlayVisible(true);
+
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!tabListRef.current?.contains(e.target as Node)) setTabListOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => {
+      document.removeEventListener('mousedown', closeOnOutsideClick);
+      window.electronAPI?.setOverlayVisible(false);
+    };
+  }, [showTabList]);
+
+  const scrollBy = (distance: number) => {
+    containerRef.current?.scrollBy({ left: distance, behavior: 'smooth' });
+  };
+
+  const handleDragOver = (e: React.DragEvent, target: DropTarget) => {
+    if (!draggedTabIdRef.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+
+    if (dropTarget?.tabId !== target.tabId || dropTarget.after !== target.after) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleTabDragOver = (e: React.DragEvent, tab: Tab) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    handleDragOver(e, { tabId: tab.id, after: e.clientX > rect.left + rect.width / 2 });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const draggedTabId = draggedTabIdRef.current;
+    if (!draggedTabId) return;
+    e.preventDefault();
+    setDropTarget(null);
+    if (!dropTarget || dropTarget.tabId === draggedTabId) return;
+
+    // The index among the tabs left once the dragged one is taken out
+    const others = tabs.filter((tab) => tab.id !== draggedTabId);
+    const targetIndex = others.findIndex((tab) => tab.id === dropTarget.tabId);
+    onTabMove(draggedTabId, targetIndex + (dropTarget.after ? 1 : 0), others[targetIndex]?.groupId);
+  };
+
+  // Sits before the group's first tab; dropping a tab on it adds the tab there
+  const renderGroupChip = (group: TabGroup, firstTab: Tab) => {
+    const tabCount = tabs.filter((tab) => tab.groupId === group.id).length;
+    return (
+      <div
+        className={`tab-group-chip tab-group-${group.color}`}
+        title={group.collapsed ? 'Expand group' : 'Collapse group'}
+        onClick={() => onGroupToggle(group.id)}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onGroupContextMenu(group.id);
+        }}
+        onDragOver={(e) => handleDragOver(e, { tabId: firstTab.id, after: false })}
+      >
+        {editingGroupId === group.id ? (
+          <input
+            className="tab-group-name-input"
+            defaultValue={group.name}
+            placeholder="Name this group"
+            autoFocus
+            onFocus={(e) => e.currentTarget.select()}
+            onClick={(e) => e.stopPropagation()}
+            onBlur={(e) => onGroupRename(group.id, e.currentTarget.value.trim())}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') e.currentTarget.value = group.name;
+              if (e.key === 'Enter' || e.key === 'Escape') e.currentTarget.blur();
+            }}
+          />
+        ) : group.name ? (
+          <span className="tab-group-name">{group.name}</span>
+        ) : (
+          <span className="tab-group-dot" />
+        )}
+        {group.collapsed && <span className="tab-group-count">{tabCount}</span>}
+      </div>
+    );
+  };
+
   return (
-    <div className="tab-bar">
-      <div className="tabs-container">
-        {tabs.map((tab) => (
-          <div
-            key={tab.id}
-            className={`tab ${tab.id === activeTabId ? 'tab-active' : ''}`}
-            onClick={() => onTabClick(tab.id)}
-          >
-            <span className="tab-favicon">
-              {tab.favicon ? (
-                <img src={tab.favicon} alt="" />
-              ) : (
-                '🍪'
-              )}
-            </span>
-            <span className="tab-title">{tab.title || 'New Tab'}</span>
-            <button
-              className="tab-close"
-              onClick={(e) => {
-                e.stopPropagation();
-                onTabClose(tab.id);
-              }}
-              aria-label="Close tab"
-            >
-              ×
-            </button>
-          </div>
-        ))}
-        <button className="new-tab-btn" onClick={onNewTab} aria-label="New tab">
-          +
+    <div className={`tab-bar ${isPrivate ? 'tab-bar-private' : ''}`}>
+      {scrollState.overflowing && (
+        <button
+          className="tab-scroll-btn"
+          onClick={() => scrollBy(-SCROLL_STEP)}
+          disabled={!scrollState.canScrollLeft}
+          aria-label="Scroll tabs left"
+        >
+          ‹
         </button>
+      )}
+      <div
+        ref={containerRef}
+        className="tabs-container"
+        onScroll={updateScrollState}
+        // Mouse wheels scroll vertically, which the strip can't
+        onWheel={(e) => {
+          if (containerRef.current && e.deltaX === 0) containerRef.current.scrollLeft += e.deltaY;
+        }}
+        onDragOver={(e) => {
+          if (draggedTabIdRef.current) e.preventDefault();
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+        }}
+        onDrop={handleDrop}
+      >
+        <div ref={stripRef} className="tabs-strip">
+          {tabs.map((tab, index) => {
+            const group = groups.find((g) => g.id === tab.groupId);
+            const startsGroup = group && tabs[index - 1]?.groupId !== group.id;
+            const hidden = group?.collapsed && tab.id !== activeTabId;
+            return (
+              <React.Fragment key={tab.id}>
+                {startsGroup && renderGroupChip(group, tab)}
+                {!hidden && (
+                  <div
+                    className={[
+                      'tab',
+                      tab.id === activeTabId ? 'tab-active' : '',
+                      tab.pinned ? 'tab-pinned' : '',
+                      selectedTabIds.includes(tab.id) ? 'tab-selected' : '',
+                      group ? `tab-grouped tab-group-${group.color}` : '',
+                      dropTarget?.tabId === tab.id ? (dropTarget.after ? 'tab-drop-after' : 'tab-drop-before') : '',
+                    ].join(' ')}
+                    title={tab.pinned ? tab.title : undefined}
+                    onClick={(e) => {
+                      if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                        onTabSelect(tab.id, e.shiftKey);
+                      } else {
+                        onTabClick(tab.id);
+                      }
+                    }}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      onTabContextMenu(tab.id);
+                    }}
+                    draggable
+                    onDragStart={(e) => {
+                      draggedTabIdRef.current = tab.id;
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => handleTabDragOver(e, tab)}
+                    // Nothing outside the tab bar accepts the drop, so main decides
+                    // where the tab went from the cursor: another window or a new one
+                    onDragEnd={(e) => {
+                      draggedTabIdRef.current = null;
+                      setDropTarget(null);
+                      if (e.dataTransfer.dropEffect === 'none') {
+                        onTabDragOut(tab.id);
+                      }
+                    }}
+                  >
+                    <TabIcon tab={tab} />
+                    {!tab.pinned && <span className="tab-title">{tab.title || 'New Tab'}</span>}
+                    {(tab.isAudible || tab.isMuted) && (
+                      <button
+                        className="tab-audio"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onTabMuteToggle(tab.id);
+                        }}
+                        aria-label={tab.isMuted ? 'Unmute tab' : 'Mute tab'}
+                        title={tab.isMuted ? 'Unmute tab' : 'Mute tab'}
+                      >
+                        {tab.isMuted ? '🔇' : '🔊'}
+                      </button>
+                    )}
+                    {!tab.pinned && (
+                      <button
+                        className="tab-close"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onTabClose(tab.id);
+                        }}
+                        aria-label="Close tab"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
       </div>
+      {scrollState.overflowing && (
+        <button
+          className="tab-scroll-btn"
+          onClick={() => scrollBy(SCROLL_STEP)}
+          disabled={!scrollState.canScrollRight}
+          aria-label="Scroll tabs right"
+        >
+          ›
+        </button>
+      )}
+      <button className="new-tab-btn" onClick={onNewTab} aria-label="New tab">
+        +
+      </button>
+      {scrollState.overflowing && (
+        <div className="tab-list" ref={tabListRef}>
+          <button
+            className="tab-list-btn"
+            onClick={() => setTabListOpen((open) => !open)}
+            aria-label="List all tabs"
+            aria-expanded={showTabList}
+          >
+            ⌄
+          </button>
+          {showTabList && (
+            <ul className="tab-list-menu" role="listbox">
+              {tabs.map((tab) => (
+                <li
+                  key={tab.id}
+                  className={`tab-list-item ${tab.id === activeTabId ? 'tab-list-item-active' : ''}`}
+                  role="option"
+                  aria-selected={tab.id === activeTabId}
+                  onClick={() => {
+                    setTabListOpen(false);
+                    onTabClick(tab.id);
+                  }}
+                >
+                  <TabIcon tab={tab} />
+                  <span className="tab-list-title">{tab.title || 'New Tab'}</span>
+                  {tab.pinned && <span className="tab-list-note">📌</span>}
+                  {(tab.isAudible || tab.isMuted) && (
+                    <span className="tab-list-note">{tab.isMuted ? '🔇' : '🔊'}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {isPrivate && (
+        <span className="private-badge" title="Nothing from this window is remembered">
+          🕶️ Private
+        </span>
+      )}
     </div>
   );
 };
@@ -1,51 +1,89 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { Omnibox } from './Omnibox';
+import type { Tab } from './TabBar';
+import type { ContentBlockerState, DownloadRecord } from '../types/electron.d.ts';
 import './Toolbar.css';
 
 interface ToolbarProps {
   currentUrl: string;
+  tabs: Tab[];
+  activeTabId: string;
   onNavigate: (url: string) => void;
+  onSwitchToTab: (tabId: string) => void;
+  zoomFactor: number;
+  onResetZoom: () => void;
+  blockedPopupCount: number;
+  onShowBlockedPopups: () => void;
+  // Bumped to move focus to the address bar
+  focusRequest: number;
   onBack: () => void;
   onForward: () => void;
   onReload: () => void;
+  // Shown in place of reload while the page loads
+  onStop: () => void;
+  isLoading: boolean;
+  loadProgress: number;
   onHome: () => void;
   onBookmarks: () => void;
   onHistory: () => void;
+  onDownloads: () => void;
+  // Opens cookie://cookies for the current site, when it's a web page
+  onSiteData: (() => void) | null;
+  // Blocking state of the current web page, null on internal pages
+  contentBlocker: ContentBlockerState | null;
+  onToggleBlocking: () => void;
   onSettings: () => void;
+  onNewWindow: () => void;
+  onNewPrivateWindow: () => void;
   canGoBack: boolean;
   canGoForward: boolean;
+  downloads: DownloadRecord[];
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
   currentUrl,
+  tabs,
+  activeTabId,
   onNavigate,
+  onSwitchToTab,
+  zoomFactor,
+  onResetZoom,
+  blockedPopupCount,
+  onShowBlockedPopups,
+  focusRequest,
   onBack,
   onForward,
   onReload,
+  onStop,
+  isLoading,
+  loadProgress,
   onHome,
   onBookmarks,
   onHistory,
+  onDownloads,
+  onSiteData,
+  contentBlocker,
+  onToggleBlocking,
   onSettings,
+  onNewWindow,
+  onNewPrivateWindow,
   canGoBack,
   canGoForward,
+  downloads,
 }) => {
-  const [inputUrl, setInputUrl] = useState(currentUrl);
+  // Downloads still running in main, and how far along they are together
+  const activeDownloads = downloads.filter((download) => download.endTime === undefined);
+  const totalBytes = activeDownloads.reduce((sum, download) => sum + download.totalBytes, 0);
+  const receivedBytes = activeDownloads.reduce((sum, download) => sum + download.receivedBytes, 0);
+  const downloadPercent = totalBytes > 0 ? Math.round((receivedBytes / totalBytes) * 100) : 0;
 
-  useEffect(() => {
-    setInputUrl(currentUrl);
-  }, [currentUrl]);
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (inputUrl.trim()) {
-      onNavigate(inputUrl.trim());
-    }
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Escape') {
-      setInputUrl(currentUrl);
-    }
-  };
+  const blockerSite = contentBlocker?.site;
+  const blockedCount = contentBlocker?.enabled ? contentBlocker.blockedCount : 0;
+  const blockerTitle = !blockerSite
+    ? 'Content blocking'
+    : contentBlocker.enabled
+      ? `${blockedCount} request${blockedCount === 1 ? '' : 's'} blocked · click to stop blocking on ${blockerSite}`
+      : `Blocking is off on ${blockerSite} · click to turn it back on`;
 
   return (
     <div className="toolbar">
@@ -68,14 +106,25 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         >
           →
         </button>
-        <button
-          className="icon-btn"
-          onClick={onReload}
-          aria-label="Reload"
-          title="Reload page"
-        >
-          ↻
-        </button>
+        {isLoading ? (
+          <button
+            className="icon-btn"
+            onClick={onStop}
+            aria-label="Stop"
+            title="Stop loading this page"
+          >
+            ✕
+          </button>
+        ) : (
+          <button
+            className="icon-btn"
+            onClick={onReload}
+            aria-label="Reload"
+            title="Reload page"
+          >
+            ↻
+          </button>
+        )}
         <button
           className="icon-btn"
           onClick={onHome}
@@ -86,22 +135,42 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         </button>
       </div>
 
-      <form className="url-bar-container" onSubmit={handleSubmit}>
-        <input
-          type="text"
-          className="url-bar"
-          value={inputUrl}
-          onChange={(e) => setInputUrl(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="Search or enter URL..."
-          aria-label="URL bar"
-        />
-        <button type="submit" className="go-btn" aria-label="Go">
-          Go
-        </button>
-      </form>
+      <Omnibox
+        currentUrl={currentUrl}
+        tabs={tabs}
+        activeTabId={activeTabId}
+        onNavigate={onNavigate}
+        onSwitchToTab={onSwitchToTab}
+        zoomFactor={zoomFactor}
+        onResetZoom={onResetZoom}
+        blockedPopupCount={blockedPopupCount}
+        onShowBlockedPopups={onShowBlockedPopups}
+        focusRequest={focusRequest}
+      />
 
       <div className="toolbar-action-buttons">
+        <button
+          className="icon-btn"
+          onClick={onSiteData ?? undefined}
+          disabled={!onSiteData}
+          aria-label="Cookies for this site"
+          title="Cookies and site data for this site"
+        >
+          🍪
+        </button>
+        <button
+          className={`icon-btn blocker-indicator ${contentBlocker && !contentBlocker.enabled ? 'blocker-off' : ''}`}
+          onClick={onToggleBlocking}
+          disabled={!blockerSite}
+          aria-label={contentBlocker?.enabled === false ? 'Turn on blocking for this site' : 'Turn off blocking for this site'}
+          aria-pressed={contentBlocker?.enabled ?? false}
+          title={blockerTitle}
+        >
+          🛡️
+          {blockedCount > 0 && (
+            <span className="blocker-badge">{blockedCount > 99 ? '99+' : blockedCount}</span>
+          )}
+        </button>
         <button
           className="icon-btn"
           onClick={onBookmarks}
@@ -118,6 +187,42 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         >
           🕐
         </button>
+        <button
+          className={`icon-btn downloads-indicator ${activeDownloads.length > 0 ? 'downloads-active' : ''}`}
+          onClick={onDownloads}
+          aria-label="Downloads"
+          title={
+            activeDownloads.length > 0
+              ? `${activeDownloads.length} download${activeDownloads.length === 1 ? '' : 's'} in progress`
+              : 'View downloads'
+          }
+        >
+          ⬇️
+          {activeDownloads.length > 0 && (
+            <>
+              <span className="downloads-badge">{activeDownloads.length}</span>
+              <span className="downloads-indicator-progress">
+                <span style={{ width: `${downloadPercent}%` }} />
+              </span>
+            </>
+          )}
+        </button>
+        <button
+          className="icon-btn"
+          onClick={onNewWindow}
+          aria-label="New window"
+          title="New window (Ctrl+N)"
+        >
+          🪟
+        </button>
+        <button
+          className="icon-btn"
+          onClick={onNewPrivateWindow}
+          aria-label="New private window"
+          title="New private window (Ctrl+Shift+N)"
+        >
+          🕶️
+        </button>
         <button
           className="icon-btn"
           onClick={onSettings}
@@ -127,6 +232,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           ⚙️
         </button>
       </div>
+
+      {isLoading && (
+        <div
+          className="toolbar-progress"
+          role="progressbar"
+          aria-label="Page loading"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(loadProgress * 100)}
+        >
+          <span style={{ width: `${loadProgress * 100}%` }} />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,145 +1,622 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { normalizeUrlInput } from '../../electron/urlInput';
+import { Favicon } from '../components/Favicon';
+import {
+  addNode,
+  createBookmarkId,
+  findNode,
+  isWithin,
+  listBookmarks,
+  listFolders,
+  listTags,
+  loadBookmarks,
+  moveNode,
+  parseTags,
+  removeNode,
+  ROOT_FOLDER_ID,
+  saveBookmarks,
+  searchBookmarks,
+  updateNode,
+  type BookmarkFolder,
+  type BookmarkMatch,
+  type BookmarkNode,
+  type DropPosition,
+} from '../utils/bookmarks';
+import {
+  exportBookmarksJson,
+  exportNetscapeBookmarks,
+  mergeImport,
+  parseBookmarksJson,
+  parseNetscapeBookmarks,
+  planImport,
+  saveTextFile,
+} from '../utils/bookmarkFiles';
+import { matchesFilter, type PageFilter } from '../utils/pageFilter';
 import './BookmarksPage.css';
 
-export interface Bookmark {
-  id: string;
+interface BookmarksPageProps {
+  onNavigate: (url: string) => void;
+  filter?: PageFilter;
+  onFilterMatches?: (count: number) => void;
+}
+
+type EditorState =
+  | { mode: 'add'; kind: 'bookmark' | 'folder' }
+  | { mode: 'edit'; id: string };
+
+interface EditorValues {
   title: string;
   url: string;
-  createdAt: number;
+  tags: string;
+  folderId: string;
 }
 
-interface BookmarksPageProps {
-  onNavigate: (url: string) => void;
+// A parsed file waiting for the user to confirm the import
+interface ImportPreview {
+  filename: string;
+  nodes: BookmarkNode[];
+}
+
+interface DropTarget {
+  id: string;
+  position: DropPosition;
+}
+
+const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+interface BookmarkEditorProps {
+  kind: 'bookmark' | 'folder';
+  heading: string;
+  initial: EditorValues;
+  folders: { folder: BookmarkFolder; depth: number }[];
+  onSave: (values: EditorValues) => void;
+  onCancel: () => void;
 }
 
-const STORAGE_KEY = 'cookie-bookmarks';
+const BookmarkEditor: React.FC<BookmarkEditorProps> = ({ kind, heading, initial, folders, onSave, onCancel }) => {
+  const [values, setValues] = useState(initial);
+  const [urlError, setUrlError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!values.title.trim()) return;
+
+    if (kind === 'bookmark') {
+      const url = normalizeUrlInput(values.url);
+      if (!url) {
+        setUrlError('That doesn\'t look like a web address.');
+        return;
+      }
+      onSave({ ...values, title: values.title.trim(), url });
+    } else {
+      onSave({ ...values, title: values.title.trim() });
+    }
+  };
+
+  return (
+    <form className="bookmark-form card" onSubmit={handleSubmit}>
+      <h3>{heading}</h3>
+      <div className="form-group">
+        <label htmlFor="bookmark-title">{kind === 'folder' ? 'Name' : 'Title'}</label>
+        <input
+          id="bookmark-title"
+          type="text"
+          value={values.title}
+          onChange={(e) => setValues({ ...values, title: e.target.value })}
+          placeholder={kind === 'folder' ? 'Reading List' : 'My Favorite Site'}
+          required
+          autoFocus
+        />
+      </div>
+      {kind === 'bookmark' && (
+        <>
+          <div className="form-group">
+            <label htmlFor="bookmark-url">URL</label>
+            <input
+              id="bookmark-url"
+              type="text"
+              value={values.url}
+              onChange={(e) => {
+                setValues({ ...values, url: e.target.value });
+                setUrlError('');
+              }}
+              placeholder="https://example.com"
+              required
+            />
+            {urlError && <span className="form-error">{urlError}</span>}
+          </div>
+          <div className="form-group">
+            <label htmlFor="bookmark-tags">Tags</label>
+            <input
+              id="bookmark-tags"
+              type="text"
+              value={values.tags}
+              onChange={(e) => setValues({ ...values, tags: e.target.value })}
+              placeholder="recipes, weekend"
+            />
+          </div>
+        </>
+      )}
+      <div className="form-group">
+        <label htmlFor="bookmark-folder">Folder</label>
+        <select
+          id="bookmark-folder"
+          className="bookmark-folder-select"
+          value={values.folderId}
+          onChange={(e) => setValues({ ...values, folderId: e.target.value })}
+        >
+          {folders.map(({ folder, depth }) => (
+            <option key={folder.id} value={folder.id}>
+              {'  '.repeat(depth)}{folder.id === ROOT_FOLDER_ID ? 'Bookmarks' : folder.title}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="bookmark-form-actions">
+        <button type="button" className="btn btn-lavender" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="btn btn-sage">
+          {kind === 'folder' ? 'Save Folder' : 'Save Bookmark'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const renderPreviewNodes = (nodes: BookmarkNode[]): React.ReactNode => (
+  <ul className="import-preview-list">
+    {nodes.map((node) => (
+      <li key={node.id}>
+        {node.type === 'folder' ? (
+          <>
+            <span className="import-preview-folder">📁 {node.title}</span>
+            {node.children.length > 0 && renderPreviewNodes(node.children)}
+          </>
+        ) : (
+          <span className="import-preview-bookmark" title={node.url}>🔖 {node.title}</span>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+export const BookmarksPage: React.FC<BookmarksPageProps> = ({ onNavigate, filter, onFilterMatches }) => {
+  const [root, setRoot] = useState<BookmarkFolder>(loadBookmarks);
+  const [search, setSearch] = useState('');
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importError, setImportError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateBookmarks = (newRoot: BookmarkFolder) => {
+    setRoot(newRoot);
+    saveBookmarks(newRoot);
+  };
 
-export const BookmarksPage: React.FC<BookmarksPageProps> = ({ onNavigate }) => {
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
-  const [newTitle, setNewTitle] = useState('');
-  const [newUrl, setNewUrl] = useState('');
-  const [showForm, setShowForm] = useState(false);
+  // Searching, or filtering with the find bar, shows matches as a flat list
+  const isSearching = search.trim() !== '' || Boolean(filter?.query);
+  const matches: BookmarkMatch[] = isSearching
+    ? (search.trim() ? searchBookmarks(root, search) : listBookmarks(root)).filter(({ bookmark }) =>
+      matchesFilter(filter, bookmark.title, bookmark.url, ...bookmark.tags)
+    )
+    : [];
+  const bookmarkCount = listBookmarks(root).length;
+  const matchCount = isSearching ? matches.length : bookmarkCount;
 
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setBookmarks(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to parse bookmarks:', e);
+    onFilterMatches?.(matchCount);
+  }, [matchCount, onFilterMatches]);
+
+  const getEditorProps = (state: EditorState) => {
+    const allFolders = listFolders(root);
+    if (state.mode === 'add') {
+      return {
+        kind: state.kind,
+        heading: state.kind === 'folder' ? 'New Folder' : 'Add New Bookmark',
+        initial: { title: '', url: '', tags: '', folderId: ROOT_FOLDER_ID },
+        folders: allFolders,
+      };
+    }
+
+    const node = findNode(root, state.id);
+    if (!node) return null;
+    const parent = allFolders.find(({ folder }) => folder.children.some((child) => child.id === node.id));
+    return {
+      kind: node.type,
+      heading: node.type === 'folder' ? `Edit ${node.title}` : 'Edit Bookmark',
+      initial: {
+        title: node.title,
+        url: node.type === 'bookmark' ? node.url : '',
+        tags: node.type === 'bookmark' ? node.tags.join(', ') : '',
+        folderId: parent?.folder.id ?? ROOT_FOLDER_ID,
+      },
+      // A folder can't go inside itself
+      folders: allFolders.filter(({ folder }) => !isWithin(root, folder.id, node.id)),
+    };
+  };
+
+  const handleSave = (values: EditorValues) => {
+    if (!editor) return;
+
+    if (editor.mode === 'add') {
+      const node: BookmarkNode = editor.kind === 'folder'
+        ? { type: 'folder', id: createBookmarkId(), title: values.title, children: [], createdAt: Date.now() }
+        : {
+          type: 'bookmark',
+          id: createBookmarkId(),
+          title: values.title,
+          url: values.url,
+          tags: parseTags(values.tags),
+          createdAt: Date.now(),
+        };
+      updateBookmarks(addNode(root, values.folderId, node));
+    } else {
+      let updated = updateNode(root, editor.id, {
+        title: values.title,
+        url: values.url,
+        tags: parseTags(values.tags),
+      });
+      const parent = listFolders(updated).find(({ folder }) => folder.children.some((child) => child.id === editor.id));
+      if (parent && parent.folder.id !== values.folderId) {
+        updated = moveNode(updated, editor.id, values.folderId, 'inside');
       }
+      updateBookmarks(updated);
+    }
+    setEditor(null);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after a cancelled import
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const nodes = text.trimStart().startsWith('{')
+        ? parseBookmarksJson(text)
+        : parseNetscapeBookmarks(text);
+      if (nodes.length === 0) {
+        setImportError(`No bookmarks found in ${file.name}.`);
+        return;
+      }
+      setImportPreview({ filename: file.name, nodes });
+      setImportError('');
+    } catch (error) {
+      console.error('Failed to read bookmarks file:', error);
+      setImportError(`${file.name} isn't a bookmarks file Cookie Browser can read.`);
+    }
+  };
+
+  // Planned against the current bookmarks, so edits made while the preview
+  // is open are taken into account
+  const importPlan = importPreview && planImport(root, importPreview.nodes);
+
+  const handleConfirmImport = () => {
+    if (!importPlan) return;
+    updateBookmarks(mergeImport(root, importPlan.nodes));
+    setImportPreview(null);
+  };
+
+  const handleExportHtml = () => {
+    saveTextFile('bookmarks.html', exportNetscapeBookmarks(root), 'text/html');
+  };
+
+  const handleExportJson = () => {
+    saveTextFile('bookmarks.json', exportBookmarksJson(root), 'application/json');
+  };
+
+  const handleDelete = (node: BookmarkNode) => {
+    if (node.type === 'folder' && node.children.length > 0
+      && !confirm(`Delete "${node.title}" and everything in it?`)) {
+      return;
     }
-  }, []);
+    updateBookmarks(removeNode(root, node.id));
+  };
 
-  const saveBookmarks = (newBookmarks: Bookmark[]) => {
-    setBookmarks(newBookmarks);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newBookmarks));
+  const toggleFolder = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCollapsed(next);
   };
 
-  const handleAddBookmark = (e: React.FormEvent) => {
+  const handleDragOver = (e: React.DragEvent, node: BookmarkNode) => {
+    if (!dragId || isWithin(root, node.id, dragId)) return;
     e.preventDefault();
-    if (newTitle.trim() && newUrl.trim()) {
-      const bookmark: Bookmark = {
-        id: Date.now().toString(),
-        title: newTitle.trim(),
-        url: newUrl.trim().startsWith('http') ? newUrl.trim() : `https://${newUrl.trim()}`,
-        createdAt: Date.now(),
-      };
-      saveBookmarks([bookmark, ...bookmarks]);
-      setNewTitle('');
-      setNewUrl('');
-      setShowForm(false);
+    e.dataTransfer.dropEffect = 'move';
+
+    // Folders take drops into their middle; the edges place things around them
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    const position: DropPosition = node.type === 'folder'
+      ? offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside'
+      : offset < 0.5 ? 'before' : 'after';
+
+    if (dropTarget?.id !== node.id || dropTarget.position !== position) {
+      setDropTarget({ id: node.id, position });
     }
   };
 
-  const handleDeleteBookmark = (id: string) => {
-    saveBookmarks(bookmarks.filter((b) => b.id !== id));
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragId && dropTarget) {
+      updateBookmarks(moveNode(root, dragId, dropTarget.id, dropTarget.position));
+    }
+    handleDragEnd();
+  };
+
+  // Dropping on the empty space below the tree moves to the end of the top level
+  const handleRootDragOver = (e: React.DragEvent) => {
+    if (!dragId || e.target !== e.currentTarget) return;
+    e.preventDefault();
+    if (dropTarget?.id !== ROOT_FOLDER_ID) {
+      setDropTarget({ id: ROOT_FOLDER_ID, position: 'inside' });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  const renderTags = (tags: string[]) => tags.length > 0 && (
+    <span className="bookmark-tags">
+      {tags.map((tag) => (
+        <button
+          key={tag}
+          className="bookmark-tag"
+          onClick={(e) => {
+            e.stopPropagation();
+            setSearch(`#${tag}`);
+          }}
+        >
+          #{tag}
+        </button>
+      ))}
+    </span>
+  );
+
+  const renderActions = (node: BookmarkNode) => (
+    <div className="bookmark-actions">
+      <button
+        className="bookmark-action"
+        onClick={() => setEditor({ mode: 'edit', id: node.id })}
+        aria-label={`Edit ${node.title}`}
+      >
+        ✏️
+      </button>
+      <button
+        className="bookmark-action"
+        onClick={() => handleDelete(node)}
+        aria-label={`Delete ${node.title}`}
+      >
+        🗑️
+      </button>
+    </div>
+  );
+
+  const renderNode = (node: BookmarkNode, depth: number): React.ReactNode => {
+    const dropClass = dropTarget?.id === node.id ? `drop-${dropTarget.position}` : '';
+    const dragProps = {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        e.dataTransfer.setData('text/plain', node.type === 'bookmark' ? node.url : node.title);
+        e.dataTransfer.effectAllowed = 'move';
+        setDragId(node.id);
+      },
+      onDragOver: (e: React.DragEvent) => handleDragOver(e, node),
+      onDrop: handleDrop,
+      onDragEnd: handleDragEnd,
+    };
+
+    if (node.type === 'folder') {
+      const isCollapsed = collapsed.has(node.id);
+      return (
+        <div key={node.id} className="bookmark-tree-node">
+          <div
+            className={`bookmark-item bookmark-folder card ${dropClass} ${dragId === node.id ? 'dragging' : ''}`}
+            style={{ marginLeft: depth * 24 }}
+            {...dragProps}
+          >
+            <div className="bookmark-info" onClick={() => toggleFolder(node.id)}>
+              <span className="bookmark-favicon">{isCollapsed ? '📁' : '📂'}</span>
+              <div className="bookmark-details">
+                <span className="bookmark-title">{node.title}</span>
+                <span className="bookmark-date">
+                  {node.children.length} {node.children.length === 1 ? 'item' : 'items'}
+                </span>
+              </div>
+            </div>
+            {renderActions(node)}
+          </div>
+          {!isCollapsed && node.children.map((child) => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={node.id}
+        className={`bookmark-item card ${dropClass} ${dragId === node.id ? 'dragging' : ''}`}
+        style={{ marginLeft: depth * 24 }}
+        {...dragProps}
+      >
+        <div className="bookmark-info" onClick={() => onNavigate(node.url)}>
+          <Favicon url={node.url} fallback="🔖" className="bookmark-favicon" />
+          <div className="bookmark-details">
+            <span className="bookmark-title">{node.title}</span>
+            <span className="bookmark-url">{node.url}</span>
+            <span className="bookmark-date">
+              Added {formatDate(node.createdAt)}
+              {renderTags(node.tags)}
+            </span>
+          </div>
+        </div>
+        {renderActions(node)}
+      </div>
+    );
   };
 
-  const formatDate = (timestamp: number) => {
-    return new Date(timestamp).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
+  const renderMatches = () => {
+    if (matches.length === 0) {
+      return (
+        <div className="empty-state card">
+          <span className="empty-emoji">🔍</span>
+          <h2>No matches</h2>
+          <p>None of your bookmarks match "{search.trim() || filter?.query}".</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="bookmarks-list">
+        {matches.map(({ bookmark, path }) => (
+          <div key={bookmark.id} className="bookmark-item card">
+            <div className="bookmark-info" onClick={() => onNavigate(bookmark.url)}>
+              <Favicon url={bookmark.url} fallback="🔖" className="bookmark-favicon" />
+              <div className="bookmark-details">
+                <span className="bookmark-title">{bookmark.title}</span>
+                <span className="bookmark-url">{bookmark.url}</span>
+                <span className="bookmark-date">
+                  {path.length > 0 ? `📁 ${path.join(' › ')}` : 'Bookmarks'}
+                  {renderTags(bookmark.tags)}
+                </span>
+              </div>
+            </div>
+            {renderActions(bookmark)}
+          </div>
+        ))}
+      </div>
+    );
   };
 
+  const editorProps = editor && getEditorProps(editor);
+  const tags = listTags(root);
+
   return (
     <div className="bookmarks-page">
       <div className="bookmarks-content fade-in">
         <div className="bookmarks-header">
           <h1>📚 Bookmarks</h1>
-          <button
-            className="btn"
-            onClick={() => setShowForm(!showForm)}
-          >
-            {showForm ? 'Cancel' : '+ Add Bookmark'}
+          <div className="bookmarks-header-actions">
+            <button className="btn btn-lavender" onClick={() => setEditor({ mode: 'add', kind: 'folder' })}>
+              + Folder
+            </button>
+            <button className="btn" onClick={() => setEditor({ mode: 'add', kind: 'bookmark' })}>
+              + Add Bookmark
+            </button>
+          </div>
+        </div>
+
+        <div className="bookmarks-transfer">
+          <button className="btn" onClick={() => fileInputRef.current?.click()}>
+            Import…
+          </button>
+          <button className="btn" onClick={handleExportHtml} disabled={root.children.length === 0}>
+            Export HTML
           </button>
+          <button className="btn" onClick={handleExportJson} disabled={root.children.length === 0}>
+            Export JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".html,.htm,.json"
+            onChange={handleImportFile}
+            hidden
+          />
         </div>
+        {importError && <p className="form-error bookmarks-import-error">{importError}</p>}
 
-        {showForm && (
-          <form className="bookmark-form card" onSubmit={handleAddBookmark}>
-            <h3>Add New Bookmark</h3>
-            <div className="form-group">
-              <label htmlFor="title">Title</label>
-              <input
-                id="title"
-                type="text"
-                value={newTitle}
-                onChange={(e) => setNewTitle(e.target.value)}
-                placeholder="My Favorite Site"
-                required
-              />
-            </div>
-            <div className="form-group">
-              <label htmlFor="url">URL</label>
-              <input
-                id="url"
-                type="text"
-                value={newUrl}
-                onChange={(e) => setNewUrl(e.target.value)}
-                placeholder="https://example.com"
-                required
-              />
+        {importPreview && importPlan && (
+          <div className="import-preview card">
+            <h3>Import from {importPreview.filename}</h3>
+            <p className="import-preview-summary">
+              {importPlan.added} new {importPlan.added === 1 ? 'bookmark' : 'bookmarks'}
+              {importPlan.folders > 0 && ` in ${importPlan.folders} ${importPlan.folders === 1 ? 'folder' : 'folders'}`}
+              {importPlan.duplicates > 0 && ` · ${importPlan.duplicates} already saved, skipped`}
+            </p>
+            {importPlan.nodes.length > 0 && (
+              <div className="import-preview-tree">{renderPreviewNodes(importPlan.nodes)}</div>
+            )}
+            <div className="bookmark-form-actions">
+              <button className="btn btn-lavender" onClick={() => setImportPreview(null)}>
+                Cancel
+              </button>
+              <button
+                className="btn btn-sage"
+                onClick={handleConfirmImport}
+                disabled={importPlan.nodes.length === 0}
+              >
+                Import
+              </button>
             </div>
-            <button type="submit" className="btn btn-sage">
-              Save Bookmark
-            </button>
-          </form>
+          </div>
+        )}
+
+        {editor && editorProps && (
+          <BookmarkEditor
+            key={editor.mode === 'edit' ? editor.id : editor.kind}
+            {...editorProps}
+            onSave={handleSave}
+            onCancel={() => setEditor(null)}
+          />
         )}
 
-        {bookmarks.length === 0 ? (
+        {root.children.length > 0 && (
+          <div className="bookmarks-search">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search bookmarks, or #tag"
+              aria-label="Search bookmarks"
+            />
+            {tags.length > 0 && (
+              <div className="bookmark-tags">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    className={`bookmark-tag ${search === `#${tag}` ? 'bookmark-tag-active' : ''}`}
+                    onClick={() => setSearch(search === `#${tag}` ? '' : `#${tag}`)}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {root.children.length === 0 ? (
           <div className="empty-state card">
             <span className="empty-emoji">📖</span>
             <h2>No bookmarks yet!</h2>
             <p>Save your favorite sites for quick access.</p>
           </div>
+        ) : isSearching ? (
+          renderMatches()
         ) : (
-          <div className="bookmarks-list">
-            {bookmarks.map((bookmark) => (
-              <div key={bookmark.id} className="bookmark-item card">
-                <div
-                  className="bookmark-info"
-                  onClick={() => onNavigate(bookmark.url)}
-                >
-                  <span className="bookmark-favicon">🔖</span>
-                  <div className="bookmark-details">
-                    <span className="bookmark-title">{bookmark.title}</span>
-                    <span className="bookmark-url">{bookmark.url}</span>
-                    <span className="bookmark-date">
-                      Added {formatDate(bookmark.createdAt)}
-                    </span>
-                  </div>
-                </div>
-                <button
-                  className="delete-btn"
-                  onClick={() => handleDeleteBookmark(bookmark.id)}
-                  aria-label="Delete bookmark"
-                >
-                  🗑️
-                </button>
-              </div>
-            ))}
+          <div
+            className={`bookmarks-list bookmarks-tree ${dropTarget?.id === ROOT_FOLDER_ID ? 'drop-root' : ''}`}
+            onDragOver={handleRootDragOver}
+            onDrop={handleDrop}
+          >
+            {root.children.map((node) => renderNode(node, 0))}
           </div>
         )}
       </div>
@@ -0,0 +1,393 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type {
+  CookieInfo,
+  CookieKey,
+  CookieSameSite,
+  SiteDataOverview,
+} from '../types/electron.d.ts';
+import { formatBytes } from '../utils/format';
+import { matchesFilter, type PageFilter } from '../utils/pageFilter';
+import './CookiesPage.css';
+
+interface CookiesPageProps {
+  // Show this site's cookies instead of the list of sites
+  site: string | null;
+  onNavigate: (url: string) => void;
+  filter?: PageFilter;
+  onFilterMatches?: (count: number) => void;
+}
+
+const sameSiteLabels: Record<CookieSameSite, string> = {
+  unspecified: 'Unspecified',
+  no_restriction: 'None',
+  lax: 'Lax',
+  strict: 'Strict',
+};
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const toKey = (cookie: CookieInfo): CookieKey => ({
+  name: cookie.name,
+  domain: cookie.domain,
+  path: cookie.path,
+  secure: cookie.secure,
+});
+
+const formatExpiry = (cookie: CookieInfo): string => {
+  if (cookie.session || !cookie.expirationDate) return 'Session';
+  return new Date(cookie.expirationDate * 1000).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// <input type="datetime-local"> wants local time without a zone
+const toDateTimeInput = (seconds?: number): string => {
+  if (!seconds) return '';
+  const date = new Date(seconds * 1000);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const fromDateTimeInput = (value: string): number | undefined => {
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+};
+
+const createEmptyCookie = (site: string): CookieInfo => ({
+  name: '',
+  value: '',
+  domain: site,
+  hostOnly: true,
+  path: '/',
+  secure: true,
+  httpOnly: false,
+  session: false,
+  expirationDate: Math.floor(Date.now() / 1000) + 30 * DAY_SECONDS,
+  sameSite: 'lax',
+});
+
+interface CookieEditorProps {
+  cookie: CookieInfo;
+  isNew: boolean;
+  error: string;
+  onSave: (cookie: CookieInfo) => void;
+  onCancel: () => void;
+}
+
+const CookieEditor: React.FC<CookieEditorProps> = ({ cookie, isNew, error, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(cookie);
+
+  const update = (changes: Partial<CookieInfo>) => {
+    setDraft({ ...draft, ...changes });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <form className="cookie-editor card" onSubmit={handleSubmit}>
+      <h3>{isNew ? 'Add Cookie' : `Edit ${cookie.name}`}</h3>
+      <div className="cookie-editor-grid">
+        <label>
+          Name
+          <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} required />
+        </label>
+        <label>
+          Domain
+          <input type="text" value={draft.domain} onChange={(e) => update({ domain: e.target.value })} required />
+        </label>
+        <label className="cookie-editor-wide">
+          Value
+          <textarea value={draft.value} onChange={(e) => update({ value: e.target.value })} rows={3} />
+        </label>
+        <label>
+          Path
+          <input type="text" value={draft.path} onChange={(e) => update({ path: e.target.value })} required />
+        </label>
+        <label>
+          Expires
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(draft.expirationDate)}
+            onChange={(e) => update({ expirationDate: fromDateTimeInput(e.target.value) })}
+            disabled={draft.session}
+          />
+        </label>
+        <label>
+          SameSite
+          <select
+            value={draft.sameSite}
+            onChange={(e) => update({ sameSite: e.target.value as CookieSameSite })}
+          >
+            {Object.entries(sameSiteLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="cookie-editor-flags">
+          <label>
+            <input type="checkbox" checked={draft.session} onChange={(e) => update({ session: e.target.checked })} />
+            Session cookie
+          </label>
+          <label>
+            <input type="checkbox" checked={draft.secure} onChange={(e) => update({ secure: e.target.checked })} />
+            Secure
+          </label>
+          <label>
+            <input type="checkbox" checked={draft.httpOnly} onChange={(e) => update({ httpOnly: e.target.checked })} />
+            HttpOnly
+          </label>
+          <label>
+            <input type="checkbox" checked={draft.hostOnly} onChange={(e) => update({ hostOnly: e.target.checked })} />
+            Host only
+          </label>
+        </div>
+      </div>
+      {error && <p className="form-error">{error}</p>}
+      <div className="cookie-editor-actions">
+        <button type="button" className="btn btn-lavender" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="btn btn-sage">
+          Save Cookie
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const CookiesPage: React.FC<CookiesPageProps> = ({ site, onNavigate, filter, onFilterMatches }) => {
+  const [overview, setOverview] = useState<SiteDataOverview | null>(null);
+  const [cookies, setCookies] = useState<CookieInfo[]>([]);
+  const [editing, setEditing] = useState<{ cookie: CookieInfo; isNew: boolean } | null>(null);
+  const [editError, setEditError] = useState('');
+
+  const refresh = useCallback(() => {
+    if (!window.electronAPI) return;
+    if (site) {
+      window.electronAPI.getSiteCookies(site).then(setCookies);
+    } else {
+      window.electronAPI.getSiteData().then(setOverview);
+    }
+  }, [site]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const visibleSites = (overview?.sites ?? []).filter((summary) => matchesFilter(filter, summary.site));
+  const visibleCookies = cookies.filter((cookie) =>
+    matchesFilter(filter, cookie.name, cookie.value, cookie.domain)
+  );
+  const matchCount = site ? visibleCookies.length : visibleSites.length;
+
+  useEffect(() => {
+    onFilterMatches?.(matchCount);
+  }, [matchCount, onFilterMatches]);
+
+  const handleClearSite = async (siteName: string) => {
+    if (!confirm(`Delete all cookies and site data for ${siteName} and its subdomains?`)) return;
+    await window.electronAPI.clearSiteData(siteName);
+    refresh();
+  };
+
+  const handleClearCache = async () => {
+    await window.electronAPI.clearCache();
+    refresh();
+  };
+
+  const handleDeleteCookie = async (cookie: CookieInfo) => {
+    await window.electronAPI.removeCookie(toKey(cookie));
+    refresh();
+  };
+
+  const handleSaveCookie = async (cookie: CookieInfo) => {
+    if (!editing) return;
+    const result = await window.electronAPI.saveCookie(
+      cookie,
+      editing.isNew ? undefined : toKey(editing.cookie)
+    );
+    if (!result.success) {
+      setEditError(result.error ?? 'The cookie could not be saved.');
+      return;
+    }
+    setEditing(null);
+    setEditError('');
+    refresh();
+  };
+
+  const startEditing = (cookie: CookieInfo, isNew: boolean) => {
+    setEditing({ cookie, isNew });
+    setEditError('');
+  };
+
+  const renderSites = () => {
+    if (!overview) return null;
+    if (overview.sites.length === 0) {
+      return (
+        <div className="empty-state card">
+          <span className="empty-emoji">🍪</span>
+          <h2>No cookies yet!</h2>
+          <p>Sites that store cookies or other data will appear here.</p>
+        </div>
+      );
+    }
+    if (visibleSites.length === 0) {
+      return (
+        <div className="empty-state card">
+          <span className="empty-emoji">🔍</span>
+          <h2>No matches</h2>
+          <p>No sites match "{filter?.query}".</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="site-list">
+        <p className="site-note">
+          Local storage and the cache aren't measured per site. Clearing a site still removes its local
+          storage, along with everything stored by its subdomains.
+        </p>
+        {visibleSites.map((summary) => (
+          <div key={summary.site} className="site-item card">
+            <div
+              className="site-info"
+              onClick={() => onNavigate(`cookie://cookies?site=${encodeURIComponent(summary.site)}`)}
+            >
+              <span className="site-name">{summary.site}</span>
+              <span className="site-usage">
+                {[
+                  `${summary.cookieCount} ${summary.cookieCount === 1 ? 'cookie' : 'cookies'}`,
+                  summary.indexedDBBytes > 0 && `IndexedDB ${formatBytes(summary.indexedDBBytes)}`,
+                ].filter(Boolean).join(' · ')}
+              </span>
+            </div>
+            <button className="btn btn-lavender" onClick={() => handleClearSite(summary.site)}>
+              Clear
+            </button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderCookies = () => {
+    if (!site) return null;
+    return (
+      <>
+        <div className="site-header card">
+          <div>
+            <h2>{site}</h2>
+            <span className="site-usage">
+              {cookies.length} {cookies.length === 1 ? 'cookie' : 'cookies'}
+            </span>
+          </div>
+          <div className="site-header-actions">
+            <button className="btn btn-sage" onClick={() => startEditing(createEmptyCookie(site), true)}>
+              + Add Cookie
+            </button>
+            <button className="btn btn-lavender" onClick={() => handleClearSite(site)}>
+              Clear Site Data
+            </button>
+          </div>
+        </div>
+
+        {editing && (
+          <CookieEditor
+            key={`${editing.cookie.domain}-${editing.cookie.path}-${editing.cookie.name}`}
+            cookie={editing.cookie}
+            isNew={editing.isNew}
+            error={editError}
+            onSave={handleSaveCookie}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {cookies.length === 0 ? (
+          <div className="empty-state card">
+            <span className="empty-emoji">🍪</span>
+            <h2>No cookies</h2>
+            <p>{site} hasn't stored any cookies.</p>
+          </div>
+        ) : (
+          <div className="cookie-table card">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Value</th>
+                  <th>Domain</th>
+                  <th>Path</th>
+                  <th>Expires</th>
+                  <th>Flags</th>
+                  <th>SameSite</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {visibleCookies.map((cookie) => (
+                  <tr key={`${cookie.domain}-${cookie.path}-${cookie.name}`}>
+                    <td className="cookie-name">{cookie.name}</td>
+                    <td className="cookie-value" title={cookie.value}>{cookie.value}</td>
+                    <td>{cookie.domain}</td>
+                    <td>{cookie.path}</td>
+                    <td>{formatExpiry(cookie)}</td>
+                    <td className="cookie-flags">
+                      {cookie.secure && <span className="cookie-flag">Secure</span>}
+                      {cookie.httpOnly && <span className="cookie-flag">HttpOnly</span>}
+                      {cookie.hostOnly && <span className="cookie-flag">Host only</span>}
+                    </td>
+                    <td>{sameSiteLabels[cookie.sameSite]}</td>
+                    <td className="cookie-actions">
+                      <button
+                        className="cookie-action"
+                        onClick={() => startEditing(cookie, false)}
+                        aria-label={`Edit ${cookie.name}`}
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        className="cookie-action"
+                        onClick={() => handleDeleteCookie(cookie)}
+                        aria-label={`Delete ${cookie.name}`}
+                      >
+                        🗑️
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="cookies-page">
+      <div className="cookies-content fade-in">
+        <div className="cookies-header">
+          <h1>🍪 Cookies & Site Data</h1>
+          {site ? (
+            <button className="btn" onClick={() => onNavigate('cookie://cookies')}>
+              ← All Sites
+            </button>
+          ) : overview && (
+            <button className="btn" onClick={handleClearCache} title="The cache is shared by all sites">
+              Clear Cache for All Sites ({formatBytes(overview.cacheBytes)})
+            </button>
+          )}
+        </div>
+
+        {site ? renderCookies() : renderSites()}
+      </div>
+    </div>
+  );
+};
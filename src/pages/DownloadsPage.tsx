@@ -0,0 +1,169 @@
+import React, { useEffect } from 'react';
+import type { DownloadRecord } from '../types/electron.d.ts';
+import { formatBytes } from '../utils/format';
+import { matchesFilter, type PageFilter } from '../utils/pageFilter';
+import './DownloadsPage.css';
+
+interface DownloadsPageProps {
+  downloads: DownloadRecord[];
+  onDownloadsChanged: () => void;
+  filter?: PageFilter;
+  onFilterMatches?: (count: number) => void;
+}
+
+// Downloads without an end time still have a live DownloadItem in main
+const isActive = (download: DownloadRecord) => download.endTime === undefined;
+
+const getStatusText = (download: DownloadRecord): string => {
+  const total = download.totalBytes > 0 ? ` of ${formatBytes(download.totalBytes)}` : '';
+  const progress = `${formatBytes(download.receivedBytes)}${total}`;
+
+  switch (download.state) {
+    case 'progressing':
+      return progress;
+    case 'paused':
+      return `Paused · ${progress}`;
+    case 'completed':
+      return formatBytes(download.receivedBytes);
+    case 'cancelled':
+      return 'Cancelled';
+    case 'interrupted':
+      return download.failureReason ?? 'Failed';
+  }
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+};
+
+export const DownloadsPage: React.FC<DownloadsPageProps> = ({
+  downloads,
+  onDownloadsChanged,
+  filter,
+  onFilterMatches,
+}) => {
+  const api = window.electronAPI;
+
+  const runAndRefresh = async (action: () => Promise<unknown>) => {
+    await action();
+    onDownloadsChanged();
+  };
+
+  const hasFinished = downloads.some((download) => !isActive(download));
+  const visibleDownloads = downloads.filter((download) => matchesFilter(filter, download.filename, download.url));
+
+  useEffect(() => {
+    onFilterMatches?.(visibleDownloads.length);
+  }, [visibleDownloads.length, onFilterMatches]);
+
+  return (
+    <div className="downloads-page">
+      <div className="downloads-content fade-in">
+        <div className="downloads-header">
+          <h1>⬇️ Downloads</h1>
+          {hasFinished && (
+            <button className="btn" onClick={() => runAndRefresh(() => api.clearDownloads())}>
+              Clear Finished
+            </button>
+          )}
+        </div>
+
+        {downloads.length === 0 ? (
+          <div className="empty-state card">
+            <span className="empty-emoji">📦</span>
+            <h2>No downloads yet!</h2>
+            <p>Files you download will appear here.</p>
+          </div>
+        ) : visibleDownloads.length === 0 ? (
+          <div className="empty-state card">
+            <span className="empty-emoji">🔍</span>
+            <h2>No matches</h2>
+            <p>No downloads match "{filter?.query}".</p>
+          </div>
+        ) : (
+          <div className="downloads-list">
+            {visibleDownloads.map((download) => {
+              const active = isActive(download);
+              const percent = download.totalBytes > 0
+                ? Math.round((download.receivedBytes / download.totalBytes) * 100)
+                : 0;
+
+              return (
+                <div
+                  key={download.id}
+                  className={`download-item card ${active ? '' : `download-${download.state}`}`}
+                >
+                  <div className="download-details">
+                    <span className="download-filename">{download.filename}</span>
+                    <span className="download-source">{getHost(download.url)}</span>
+                    {active && (
+                      <div
+                        className="download-progress"
+                        role="progressbar"
+                        aria-valuenow={percent}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                      >
+                        <div className="download-progress-fill" style={{ width: `${percent}%` }} />
+                      </div>
+                    )}
+                    <span className="download-status">{getStatusText(download)}</span>
+                  </div>
+
+                  <div className="download-actions">
+                    {active && download.state === 'progressing' && (
+                      <button className="btn" onClick={() => api.pauseDownload(download.id)}>
+                        Pause
+                      </button>
+                    )}
+                    {active && download.state !== 'progressing' && (
+                      <button className="btn btn-sage" onClick={() => api.resumeDownload(download.id)}>
+                        Resume
+                      </button>
+                    )}
+                    {active && (
+                      <button className="btn btn-lavender" onClick={() => api.cancelDownload(download.id)}>
+                        Cancel
+                      </button>
+                    )}
+                    {download.state === 'completed' && (
+                      <>
+                        <button className="btn btn-sage" onClick={() => api.openDownload(download.id)}>
+                          Open
+                        </button>
+                        <button className="btn" onClick={() => api.showDownloadInFolder(download.id)}>
+                          Show in Folder
+                        </button>
+                      </>
+                    )}
+                    {!active && download.state !== 'completed' && (
+                      <button
+                        className="btn btn-sage"
+                        onClick={() => runAndRefresh(() => api.retryDownload(download.id))}
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {!active && (
+                      <button
+                        className="download-remove"
+                        onClick={() => runAndRefresh(() => api.removeDownload(download.id))}
+                        aria-label={`Remove ${download.filename} from the list`}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
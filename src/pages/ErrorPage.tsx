@@ -0,0 +1,73 @@
+import React from 'react';
+import { getInternalUrlParam } from '../utils/internalPages';
+import './ErrorPage.css';
+
+interface ErrorPageProps {
+  // The cookie://error URL, carrying the failed page and what went wrong
+  url: string;
+  onRetry: (url: string) => void;
+}
+
+// Plainer words for the failures people run into most
+const ERROR_HINTS: Record<number, string> = {
+  [-105]: "The site's address couldn't be found. Check it for typos.",
+  [-106]: "You're not connected to the internet.",
+  [-102]: 'The site refused to connect.',
+  [-118]: 'The site took too long to respond.',
+  [-109]: "The site can't be reached right now.",
+  [-101]: 'The connection was reset.',
+  [-137]: 'The site could not be found.',
+};
+
+const getHost = (url: string): string => {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+};
+
+const getHint = (code: number): string => {
+  if (ERROR_HINTS[code]) return ERROR_HINTS[code];
+  // Chromium's certificate errors are numbered -200 to -299
+  if (code <= -200 && code > -300) return "The site's security certificate can't be trusted.";
+  return 'Something went wrong while loading this page.';
+};
+
+export const ErrorPage: React.FC<ErrorPageProps> = ({ url, onRetry }) => {
+  const pageUrl = getInternalUrlParam(url, 'url') ?? '';
+  const crashReason = getInternalUrlParam(url, 'crashed');
+  const code = Number(getInternalUrlParam(url, 'code'));
+  const description = getInternalUrlParam(url, 'description');
+  const host = pageUrl ? getHost(pageUrl) : '';
+
+  return (
+    <div className="error-page">
+      <div className="error-page-content card">
+        <div className="error-page-icon">{crashReason ? '💥' : '🍪'}</div>
+        {crashReason ? (
+          <>
+            <h1>This tab crashed</h1>
+            <p className="error-page-hint">
+              Something stopped this page from working. Reload to try again.
+            </p>
+          </>
+        ) : (
+          <>
+            <h1>{host ? `Can't reach ${host}` : "Can't reach this page"}</h1>
+            <p className="error-page-hint">{getHint(code)}</p>
+          </>
+        )}
+        {pageUrl && <p className="error-page-url">{pageUrl}</p>}
+        <p className="error-page-code">
+          {crashReason ? `Reason: ${crashReason}` : `${description || 'Error'} (${code})`}
+        </p>
+        {pageUrl && (
+          <button className="btn btn-sage" onClick={() => onRetry(pageUrl)}>
+            {crashReason ? 'Reload' : 'Try again'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
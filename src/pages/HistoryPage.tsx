@@ -1,151 +1,471 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Favicon } from '../components/Favicon';
+import { RecentlyClosed } from '../components/RecentlyClosed';
+import { matchesFilter, type PageFilter } from '../utils/pageFilter';
+import type { HistoryQuery, HistoryVisitEntry } from '../types/electron.d.ts';
 import './HistoryPage.css';
 
-export interface HistoryEntry {
-  id: string;
-  title: string;
-  url: string;
-  visitedAt: number;
-}
-
 interface HistoryPageProps {
   onNavigate: (url: string) => void;
+  filter?: PageFilter;
+  onFilterMatches?: (count: number) => void;
 }
 
-const STORAGE_KEY = 'cookie-history';
+type HistoryRow =
+  | { type: 'date'; day: string; label: string }
+  | { type: 'entry'; entry: HistoryVisitEntry };
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const clearRanges = [
+  { id: 'hour', name: 'Last hour', duration: HOUR },
+  { id: 'day', name: 'Last 24 hours', duration: DAY },
+  { id: 'week', name: 'Last 7 days', duration: 7 * DAY },
+  { id: 'month', name: 'Last 4 weeks', duration: 28 * DAY },
+  { id: 'all', name: 'All time', duration: null },
+] as const;
+
+// Rows have fixed heights so only the ones on screen need to be rendered
+const DATE_ROW_HEIGHT = 56;
+const ENTRY_ROW_HEIGHT = 72;
+const OVERSCAN_ROWS = 8;
+
+// Typing settles before the main process is asked to search
+const SEARCH_DELAY = 200;
+
+// Visits fetched at a time, more as the list scrolls near its end
+const PAGE_SIZE = 300;
+
+const getDateLabel = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+};
+
+const getSite = (url: string): string | null => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+};
+
+// The element whose scrolling moves the list, usually the app's content area
+const getScrollParent = (element: HTMLElement): HTMLElement => {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (/(auto|scroll)/.test(getComputedStyle(parent).overflowY)) return parent;
+  }
+  return document.documentElement;
+};
+
+// Index of the last row starting at or before a position
+const findRowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+interface ClearHistoryDialogProps {
+  onClear: (since?: number) => void;
+  onCancel: () => void;
+}
+
+const ClearHistoryDialog: React.FC<ClearHistoryDialogProps> = ({ onClear, onCancel }) => {
+  const [rangeId, setRangeId] = useState<(typeof clearRanges)[number]['id']>('hour');
+
+  const handleClear = () => {
+    const range = clearRanges.find((option) => option.id === rangeId);
+    onClear(range?.duration ? Date.now() - range.duration : undefined);
+  };
+
+  return (
+    <div className="history-dialog-backdrop" onClick={onCancel}>
+      <div
+        className="history-dialog card"
+        role="dialog"
+        aria-labelledby="clear-history-heading"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      >
+        <h2 id="clear-history-heading">Clear history</h2>
+        <p>Remove pages you visited in:</p>
+        <div className="history-dialog-ranges">
+          {clearRanges.map((range) => (
+            <label key={range.id} className="history-dialog-range">
+              <input
+                type="radio"
+                name="clear-range"
+                checked={rangeId === range.id}
+                onChange={() => setRangeId(range.id)}
+              />
+              {range.name}
+            </label>
+          ))}
+        </div>
+        <div className="history-dialog-actions">
+          <button className="btn btn-lavender" onClick={onCancel} autoFocus>
+            Cancel
+          </button>
+          <button className="btn" onClick={handleClear}>
+            Clear History
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const HistoryPage: React.FC<HistoryPageProps> = ({ onNavigate, filter, onFilterMatches }) => {
+  const [history, setHistory] = useState<HistoryVisitEntry[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [search, setSearch] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [site, setSite] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [showClearDialog, setShowClearDialog] = useState(false);
+  // Bumped to fetch again after deleting
+  const [revision, setRevision] = useState(0);
+
+  const [listElement, setListElement] = useState<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: window.innerHeight });
+
+  const hasFilters = Boolean(search.trim() || fromDate || toDate || site);
+
+  // Pages still loading for an earlier search are dropped when they arrive
+  const queryRef = useRef<HistoryQuery | null>(null);
+  const loadingMore = useRef(false);
+
+  const query = useMemo<HistoryQuery>(() => ({
+    text: search.trim() || undefined,
+    // Date inputs give local calendar days; "to" includes the whole day
+    startTime: fromDate ? new Date(`${fromDate}T00:00`).getTime() : undefined,
+    endTime: toDate ? new Date(`${toDate}T00:00`).getTime() + DAY : undefined,
+    host: site ?? undefined,
+  }), [search, fromDate, toDate, site]);
+
+  // History is kept by the main process, which searches it too
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const timer = setTimeout(() => {
+      queryRef.current = query;
+      loadingMore.current = false;
+      window.electronAPI.getHistoryVisits({ ...query, limit: PAGE_SIZE }).then((visits) => {
+        if (queryRef.current !== query) return;
+        setHistory(visits);
+        setHasMore(visits.length === PAGE_SIZE);
+      });
+    }, query.text ? SEARCH_DELAY : 0);
+    return () => clearTimeout(timer);
+  }, [query, revision]);
+
+  // Visits deleted here are gone from the main process too, so what's
+  // loaded is where the next page starts. Visits made since shift the pages,
+  // so ones already here are skipped.
+  const loadMore = useCallback(() => {
+    if (!history || !hasMore || loadingMore.current) return;
+    const current = queryRef.current;
+    loadingMore.current = true;
+    window.electronAPI.getHistoryVisits({ ...current, offset: history.length, limit: PAGE_SIZE }).then((visits) => {
+      if (queryRef.current !== current) return;
+      loadingMore.current = false;
+      setHistory((prev) => {
+        const loaded = new Set(prev?.map((entry) => entry.id));
+        return [...(prev ?? []), ...visits.filter((entry) => !loaded.has(entry.id))];
+      });
+      setHasMore(visits.length === PAGE_SIZE);
+    });
+  }, [history, hasMore]);
 
-export const HistoryPage: React.FC<HistoryPageProps> = ({ onNavigate }) => {
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const visibleHistory = useMemo(
+    () => (history ?? []).filter((entry) => matchesFilter(filter, entry.title, entry.url)),
+    [history, filter]
+  );
 
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to parse history:', e);
+    onFilterMatches?.(visibleHistory.length);
+  }, [visibleHistory.length, onFilterMatches]);
+
+  // One flat list of day headings and visits, with where each row starts
+  const { rows, offsets, totalHeight } = useMemo(() => {
+    const rows: HistoryRow[] = [];
+    const offsets: number[] = [];
+    let height = 0;
+    let lastDay = '';
+
+    for (const entry of visibleHistory) {
+      const day = new Date(entry.visitedAt).toDateString();
+      if (day !== lastDay) {
+        rows.push({ type: 'date', day, label: getDateLabel(entry.visitedAt) });
+        offsets.push(height);
+        height += DATE_ROW_HEIGHT;
+        lastDay = day;
       }
+      rows.push({ type: 'entry', entry });
+      offsets.push(height);
+      height += ENTRY_ROW_HEIGHT;
     }
-  }, []);
+    return { rows, offsets, totalHeight: height };
+  }, [visibleHistory]);
+
+  // Follow the scroll container to know which rows are on screen
+  useEffect(() => {
+    if (!listElement) return;
+    const scroller = getScrollParent(listElement);
+
+    const update = () => {
+      // Zoomed internal pages scale the list on screen, but not its row offsets
+      const rect = listElement.getBoundingClientRect();
+      const scale = listElement.offsetHeight > 0 ? rect.height / listElement.offsetHeight : 1;
+      const listTop = rect.top - scroller.getBoundingClientRect().top;
+      setViewport({ top: -listTop / scale, height: scroller.clientHeight / scale });
+    };
 
-  const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem(STORAGE_KEY);
+    scroller.addEventListener('scroll', update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    return () => {
+      scroller.removeEventListener('scroll', update);
+      observer.disconnect();
+    };
+  }, [listElement]);
+
+  const firstRow = rows.length > 0 ? Math.max(0, findRowAt(offsets, viewport.top) - OVERSCAN_ROWS) : 0;
+  const lastRow = rows.length > 0
+    ? Math.min(rows.length - 1, findRowAt(offsets, viewport.top + viewport.height) + OVERSCAN_ROWS)
+    : -1;
+
+  useEffect(() => {
+    if (lastRow >= rows.length - 1) loadMore();
+  }, [lastRow, rows.length, loadMore]);
+
+  const selectedEntries = visibleHistory.filter((entry) => selected.has(entry.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
   };
 
-  const groupByDate = (entries: HistoryEntry[]) => {
-    const groups: { [key: string]: HistoryEntry[] } = {};
-    
-    entries.forEach((entry) => {
-      const date = new Date(entry.visitedAt);
-      const today = new Date();
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      let key: string;
-      if (date.toDateString() === today.toDateString()) {
-        key = 'Today';
-      } else if (date.toDateString() === yesterday.toDateString()) {
-        key = 'Yesterday';
-      } else {
-        key = date.toLocaleDateString('en-US', {
-          weekday: 'long',
-          month: 'long',
-          day: 'numeric',
-        });
-      }
-      
-      if (!groups[key]) {
-        groups[key] = [];
-      }
-      groups[key].push(entry);
-    });
-    
-    return groups;
+  const removeEntries = async (entries: HistoryVisitEntry[]) => {
+    await window.electronAPI?.removeHistoryVisits(
+      entries.map(({ url, visitedAt }) => ({ url, visitedAt }))
+    );
+    const removed = new Set(entries.map((entry) => entry.id));
+    setHistory((prev) => prev?.filter((entry) => !removed.has(entry.id)) ?? null);
+    setSelected((prev) => new Set([...prev].filter((id) => !removed.has(id))));
   };
 
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
+  const handleClear = async (since?: number) => {
+    setShowClearDialog(false);
+    await window.electronAPI?.clearHistory(since);
+    setSelected(new Set());
+    setRevision((value) => value + 1);
   };
 
-  const groupedHistory = groupByDate(history);
+  const clearFilters = () => {
+    setSearch('');
+    setFromDate('');
+    setToDate('');
+    setSite(null);
+  };
+
+  const renderRow = (row: HistoryRow) => {
+    if (row.type === 'date') {
+      return <h2 className="history-date">{row.label}</h2>;
+    }
+
+    const { entry } = row;
+    const entrySite = getSite(entry.url);
+    const isSelected = selected.has(entry.id);
+    return (
+      <div
+        className={`history-item card ${isSelected ? 'history-item-selected' : ''}`}
+        onClick={() => onNavigate(entry.url)}
+      >
+        <input
+          type="checkbox"
+          className="history-select"
+          checked={isSelected}
+          onClick={(e) => e.stopPropagation()}
+          onChange={() => toggleSelected(entry.id)}
+          aria-label={`Select ${entry.title || entry.url}`}
+        />
+        <span className="history-time">
+          {formatTime(entry.visitedAt)}
+        </span>
+        <Favicon url={entry.url} fallback="🌐" className="history-favicon" />
+        <div className="history-details">
+          <span className="history-title">
+            {entry.title || 'Untitled'}
+          </span>
+          <span className="history-url">{entry.url}</span>
+        </div>
+        <div className="history-item-actions">
+          {entrySite && entrySite !== site && (
+            <button
+              className="history-item-action"
+              onClick={(e) => {
+                e.stopPropagation();
+                setSite(entrySite);
+              }}
+              title={`Show only ${entrySite}`}
+              aria-label={`Show only ${entrySite}`}
+            >
+              🌐
+            </button>
+          )}
+          <button
+            className="history-item-action"
+            onClick={(e) => {
+              e.stopPropagation();
+              removeEntries([entry]);
+            }}
+            title="Remove from history"
+            aria-label="Remove from history"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="history-page">
       <div className="history-content fade-in">
         <div className="history-header">
           <h1>📜 History</h1>
-          {history.length > 0 && (
-            <button className="btn" onClick={clearHistory}>
-              Clear History
-            </button>
-          )}
+          <button className="btn" onClick={() => setShowClearDialog(true)}>
+            Clear History…
+          </button>
         </div>
 
-        {history.length === 0 ? (
+        <RecentlyClosed limit={5} onShowAll={() => onNavigate('cookie://recently-closed')} />
+
+        <div className="history-filters card">
+          <input
+            type="text"
+            className="history-search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search history"
+            aria-label="Search history"
+          />
+          <div className="history-filter-row">
+            <label className="history-date-filter">
+              From
+              <input
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </label>
+            <label className="history-date-filter">
+              To
+              <input
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </label>
+            {site && (
+              <button className="history-site-chip" onClick={() => setSite(null)} title="Show all sites">
+                Only {site} ✕
+              </button>
+            )}
+            {hasFilters && (
+              <button className="history-clear-filters" onClick={clearFilters}>
+                Reset filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        {selectedEntries.length > 0 && (
+          <div className="history-selection-bar card">
+            <span>
+              {selectedEntries.length} {selectedEntries.length === 1 ? 'page' : 'pages'} selected
+            </span>
+            <button className="btn btn-lavender" onClick={() => setSelected(new Set())}>
+              Cancel
+            </button>
+            <button className="btn" onClick={() => removeEntries(selectedEntries)}>
+              Delete
+            </button>
+          </div>
+        )}
+
+        {history === null ? null : history.length === 0 && !hasFilters ? (
           <div className="empty-state card">
             <span className="empty-emoji">🕐</span>
             <h2>No history yet!</h2>
             <p>Your browsing history will appear here.</p>
           </div>
+        ) : visibleHistory.length === 0 ? (
+          <div className="empty-state card">
+            <span className="empty-emoji">🔍</span>
+            <h2>No matches</h2>
+            <p>
+              {filter?.query
+                ? `Nothing in your history matches "${filter.query}".`
+                : 'Nothing in your history matches these filters.'}
+            </p>
+          </div>
         ) : (
-          <div className="history-groups">
-            {Object.entries(groupedHistory).map(([date, entries]) => (
-              <div key={date} className="history-group">
-                <h2 className="history-date">{date}</h2>
-                <div className="history-list">
-                  {entries.map((entry) => (
-                    <div
-                      key={entry.id}
-                      className="history-item card"
-                      onClick={() => onNavigate(entry.url)}
-                    >
-                      <span className="history-time">
-                        {formatTime(entry.visitedAt)}
-                      </span>
-                      <div className="history-details">
-                        <span className="history-title">
-                          {entry.title || 'Untitled'}
-                        </span>
-                        <span className="history-url">{entry.url}</span>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+          <div ref={setListElement} className="history-rows" style={{ height: totalHeight }}>
+            {rows.slice(firstRow, lastRow + 1).map((row, index) => (
+              <div
+                key={row.type === 'date' ? row.day : row.entry.id}
+                className={`history-row history-row-${row.type}`}
+                style={{
+                  top: offsets[firstRow + index],
+                  height: row.type === 'date' ? DATE_ROW_HEIGHT : ENTRY_ROW_HEIGHT,
+                }}
+              >
+                {renderRow(row)}
               </div>
             ))}
           </div>
         )}
       </div>
+
+      {showClearDialog && (
+        <ClearHistoryDialog onClear={handleClear} onCancel={() => setShowClearDialog(false)} />
+      )}
     </div>
   );
 };
-
-// Helper function to add history entry (exported for use in App)
-export const addHistoryEntry = (title: string, url: string) => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  let history: HistoryEntry[] = [];
-  
-  if (stored) {
-    try {
-      history = JSON.parse(stored);
-    } catch (e) {
-      console.error('Failed to parse history:', e);
-    }
-  }
-  
-  const entry: HistoryEntry = {
-    id: Date.now().toString(),
-    title,
-    url,
-    visitedAt: Date.now(),
-  };
-  
-  // Add to beginning, limit to 100 entries
-  history = [entry, ...history].slice(0, 100);
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-};
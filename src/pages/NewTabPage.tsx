@@ -1,4 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import { Favicon } from '../components/Favicon';
+import { RecentlyClosed } from '../components/RecentlyClosed';
+import { getDefaultSearchEngine, resolveInput } from '../utils/searchEngines';
 import './NewTabPage.css';
 
 interface QuickLink {
@@ -20,11 +23,20 @@ const quickLinks: QuickLink[] = [
 
 interface NewTabPageProps {
   onNavigate: (url: string) => void;
+  isPrivate?: boolean;
+  onRestoreSession?: () => void;
+  onDismissRestore?: () => void;
 }
 
-export const NewTabPage: React.FC<NewTabPageProps> = ({ onNavigate }) => {
+export const NewTabPage: React.FC<NewTabPageProps> = ({
+  onNavigate,
+  isPrivate = false,
+  onRestoreSession,
+  onDismissRestore,
+}) => {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchEngineName] = useState(() => getDefaultSearchEngine().name);
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -61,22 +73,18 @@ export const NewTabPage: React.FC<NewTabPageProps> = ({ onNavigate }) => {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (searchQuery.trim()) {
-      // Check if it's a URL
-      if (searchQuery.includes('.') && !searchQuery.includes(' ')) {
-        onNavigate(searchQuery);
-      } else {
-        // Search with Google
-        onNavigate(`https://www.google.com/search?q=${encodeURIComponent(searchQuery)}`);
-      }
+      onNavigate(resolveInput(searchQuery));
     }
   };
 
   return (
-    <div className="new-tab-page">
+    <div className={`new-tab-page ${isPrivate ? 'new-tab-private' : ''}`}>
       <div className="new-tab-content fade-in">
-        <div className="cookie-mascot">🍪</div>
+        <div className="cookie-mascot">{isPrivate ? '🕶️' : '🍪'}</div>
         
-        <h1 className="greeting">{getGreeting()}</h1>
+        <h1 className="greeting">
+          {isPrivate ? 'You\'re browsing privately' : getGreeting()}
+        </h1>
         
         <div className="time-display">
           <span className="time">{formatTime()}</span>
@@ -87,7 +95,7 @@ export const NewTabPage: React.FC<NewTabPageProps> = ({ onNavigate }) => {
           <input
             type="text"
             className="search-bar"
-            placeholder="Search the web or enter a URL..."
+            placeholder={`Search ${searchEngineName} or enter a URL...`}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
           />
@@ -96,6 +104,42 @@ export const NewTabPage: React.FC<NewTabPageProps> = ({ onNavigate }) => {
           </button>
         </form>
 
+        {isPrivate && (
+          <div className="private-notice card">
+            <p>
+              Pages you visit in this window won't show up in your history, and
+              their cookies, site data and downloads are forgotten when you close
+              the last private window.
+            </p>
+            <p>
+              Bookmarks you add are still saved, and sites, your employer or your
+              internet provider may still see what you do.
+            </p>
+          </div>
+        )}
+
+        {onRestoreSession && (
+          <div className="restore-prompt card">
+            <span className="restore-emoji">🥠</span>
+            <div className="restore-text">
+              <strong>Cookie Browser didn't close properly.</strong>
+              <span>Want your tabs back?</span>
+            </div>
+            <div className="restore-actions">
+              <button className="btn btn-sage" onClick={onRestoreSession}>
+                Restore previous session
+              </button>
+              {onDismissRestore && (
+                <button className="restore-dismiss" onClick={onDismissRestore} aria-label="Dismiss">
+                  ×
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <RecentlyClosed limit={5} onShowAll={() => onNavigate('cookie://recently-closed')} />
+
         <div className="quick-links">
           <h2 className="quick-links-title">Quick Links</h2>
           <div className="quick-links-grid">
@@ -105,7 +149,7 @@ export const NewTabPage: React.FC<NewTabPageProps> = ({ onNavigate }) => {
                 className="quick-link"
                 onClick={() => onNavigate(link.url)}
               >
-                <span className="quick-link-emoji">{link.emoji}</span>
+                <Favicon url={link.url} fallback={link.emoji} className="quick-link-emoji" />
                 <span className="quick-link-title">{link.title}</span>
               </button>
             ))}
@@ -0,0 +1,18 @@
+import React from 'react';
+import { RecentlyClosed } from '../components/RecentlyClosed';
+import './RecentlyClosedPage.css';
+
+export const RecentlyClosedPage: React.FC = () => {
+  return (
+    <div className="recently-closed-page">
+      <div className="recently-closed-content fade-in">
+        <h1>🕐 Recently Closed</h1>
+        <p className="recently-closed-intro">
+          Tabs and windows closed since the browser started. Click one to bring
+          it back where it was; Reopen Closed Tab brings back the latest.
+        </p>
+        <RecentlyClosed emptyMessage="Nothing closed yet." />
+      </div>
+    </div>
+  );
+};
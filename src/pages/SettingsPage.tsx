@@ -1,12 +1,20 @@
 import React, { useState, useEffect } from 'react';
+import { loadSettings, saveSettings, type Settings } from '../utils/settings';
+import { isValidUrlTemplate, type SearchEngine } from '../utils/searchEngines';
+import type {
+  DownloadPreferences,
+  FilterListInfo,
+  HistoryPreferences,
+  PermissionDecision,
+  PermissionKind,
+  ShortcutCommand,
+  ShortcutInfo,
+  SitePermissions,
+  ZoomPreferences,
+} from '../types/electron.d.ts';
+import { DECISION_LABELS, PERMISSION_LABELS } from '../utils/permissions';
 import './SettingsPage.css';
 
-interface Settings {
-  theme: 'pink' | 'lavender' | 'mint' | 'golden';
-}
-
-const STORAGE_KEY = 'cookie-settings';
-
 const themes = [
   { id: 'pink', name: 'Pink Dream', emoji: '🌸', gradient: 'linear-gradient(135deg, #FFE8E0 0%, #FFD6E8 50%, #B4648C 100%)' },
   { id: 'lavender', name: 'Lavender Cloud', emoji: '💜', gradient: 'linear-gradient(135deg, #F0E8FF 0%, #E8D8FF 50%, #8C78B4 100%)' },
@@ -14,26 +22,171 @@ const themes = [
   { id: 'golden', name: 'Golden Hour', emoji: '🌅', gradient: 'linear-gradient(135deg, #FFF5E6 0%, #FFE8D0 50%, #D4A574 100%)' },
 ] as const;
 
+// 0 keeps history forever
+const retentionOptions = [
+  { days: 7, name: 'One week' },
+  { days: 30, name: 'One month' },
+  { days: 90, name: 'Three months' },
+  { days: 365, name: 'One year' },
+  { days: 0, name: 'Forever' },
+];
+
+const zoomOptions = [0.75, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+
+const startupOptions = [
+  { id: 'newtab', name: 'Open the New Tab page', emoji: '🍪' },
+  { id: 'restore', name: 'Continue where you left off', emoji: '🔁' },
+] as const;
+
+// Shortcuts live in main, which matches keys wherever focus is. Changing one
+// records the next key combination pressed in the window.
+const ShortcutSettings: React.FC = () => {
+  const [shortcuts, setShortcuts] = useState<ShortcutInfo[]>([]);
+  const [recording, setRecording] = useState<ShortcutCommand | null>(null);
+  const [error, setError] = useState<{ command?: ShortcutCommand; message: string } | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getShortcuts().then(setShortcuts);
+    return () => {
+      window.electronAPI.cancelShortcutRecording();
+    };
+  }, []);
+
+  const handleRecord = async (command: ShortcutCommand) => {
+    setRecording(command);
+    setError(null);
+    const accelerator = await window.electronAPI.recordShortcut();
+    // Starting another recording cancels this one
+    setRecording((current) => (current === command ? null : current));
+    if (!accelerator) return;
+
+    const result = await window.electronAPI.setShortcut(command, accelerator);
+    setShortcuts(result.shortcuts);
+    if (result.error) setError({ command, message: result.error });
+  };
+
+  const handleReset = async (command?: ShortcutCommand) => {
+    const result = await window.electronAPI.resetShortcuts(command);
+    setShortcuts(result.shortcuts);
+    setError(result.error ? { command, message: result.error } : null);
+  };
+
+  return (
+    <section className="settings-section card">
+      <h2>Keyboard Shortcuts</h2>
+      <p className="section-description">
+        Click a shortcut and press the keys you'd like to use instead. Escape cancels.
+      </p>
+      <div className="shortcut-list">
+        {shortcuts.map((shortcut) => (
+          <React.Fragment key={shortcut.command}>
+            <div className="shortcut-item">
+              <span className="shortcut-label">{shortcut.label}</span>
+              <button
+                className={`shortcut-keys ${recording === shortcut.command ? 'shortcut-recording' : ''}`}
+                onClick={() => handleRecord(shortcut.command)}
+                aria-label={`Change the shortcut for ${shortcut.label}, currently ${shortcut.accelerator}`}
+              >
+                {recording === shortcut.command
+                  ? 'Press keys…'
+                  : shortcut.accelerator.split('+').map((key) => <kbd key={key}>{key}</kbd>)}
+              </button>
+              {shortcut.accelerator !== shortcut.defaultAccelerator && (
+                <button
+                  className="btn"
+                  onClick={() => handleReset(shortcut.command)}
+                  title={`Back to ${shortcut.defaultAccelerator}`}
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+            {error?.command === shortcut.command && <p className="settings-error">{error.message}</p>}
+          </React.Fragment>
+        ))}
+      </div>
+      <button className="btn btn-lavender" onClick={() => handleReset()}>
+        Reset All Shortcuts
+      </button>
+    </section>
+  );
+};
+
 export const SettingsPage: React.FC = () => {
-  const [settings, setSettings] = useState<Settings>({
-    theme: 'pink',
-  });
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [engineName, setEngineName] = useState('');
+  const [engineKeyword, setEngineKeyword] = useState('');
+  const [engineTemplate, setEngineTemplate] = useState('');
+  const [engineError, setEngineError] = useState('');
+  const [downloadPreferences, setDownloadPreferences] = useState<DownloadPreferences | null>(null);
+  const [sitePermissions, setSitePermissions] = useState<SitePermissions[]>([]);
+  const [filterLists, setFilterLists] = useState<FilterListInfo[]>([]);
+  const [unblockedSites, setUnblockedSites] = useState<string[]>([]);
+  const [filterListError, setFilterListError] = useState('');
+  const [historyPreferences, setHistoryPreferences] = useState<HistoryPreferences | null>(null);
+  const [zoomPreferences, setZoomPreferences] = useState<ZoomPreferences | null>(null);
 
+  // Download preferences live in main, next to the code that saves files
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setSettings(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to parse settings:', e);
-      }
-    }
+    window.electronAPI?.getDownloadPreferences().then(setDownloadPreferences);
+    window.electronAPI?.getSitePermissions().then(setSitePermissions);
+    window.electronAPI?.getFilterLists().then(setFilterLists);
+    window.electronAPI?.getBlockingDisabledSites().then(setUnblockedSites);
+    window.electronAPI?.getHistoryPreferences().then(setHistoryPreferences);
+    window.electronAPI?.getZoomPreferences().then(setZoomPreferences);
   }, []);
 
+  const handleChooseDownloadFolder = async () => {
+    const updated = await window.electronAPI.chooseDownloadFolder();
+    if (updated) setDownloadPreferences(updated);
+  };
+
+  const handleAlwaysAskChange = async (alwaysAsk: boolean) => {
+    setDownloadPreferences(await window.electronAPI.setDownloadPreferences({ alwaysAsk }));
+  };
+
+  const handlePermissionChange = async (origin: string, kind: PermissionKind, decision: PermissionDecision) => {
+    await window.electronAPI.setSitePermission(origin, kind, decision);
+    setSitePermissions(await window.electronAPI.getSitePermissions());
+  };
+
+  const handleRevokePermissions = async (origin: string) => {
+    await window.electronAPI.removeSitePermissions(origin);
+    setSitePermissions(await window.electronAPI.getSitePermissions());
+  };
+
+  const handleImportFilterLists = async () => {
+    const result = await window.electronAPI.importFilterLists();
+    if (!result) return;
+    setFilterLists(result.lists);
+    setFilterListError(
+      result.rejected.length > 0
+        ? `No usable filters found in ${result.rejected.join(', ')}.`
+        : ''
+    );
+  };
+
+  const handleRemoveFilterList = async (id: string) => {
+    setFilterLists(await window.electronAPI.removeFilterList(id));
+  };
+
+  const handleRetentionChange = async (retentionDays: number) => {
+    setHistoryPreferences(await window.electronAPI.setHistoryPreferences({ retentionDays }));
+  };
+
+  const handleDefaultZoomChange = async (defaultZoom: number) => {
+    setZoomPreferences(await window.electronAPI.setZoomPreferences({ defaultZoom }));
+  };
+
+  const handleResumeBlocking = async (site: string) => {
+    await window.electronAPI.setSiteBlocking(site, true);
+    setUnblockedSites(await window.electronAPI.getBlockingDisabledSites());
+  };
+
   const updateSettings = (newSettings: Partial<Settings>) => {
     const updated = { ...settings, ...newSettings };
     setSettings(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    saveSettings(updated);
     
     // Apply theme to document
     if (newSettings.theme) {
@@ -41,6 +194,46 @@ export const SettingsPage: React.FC = () => {
     }
   };
 
+  const handleAddEngine = (e: React.FormEvent) => {
+    e.preventDefault();
+    const keyword = engineKeyword.trim();
+
+    if (!engineName.trim() || !keyword) {
+      setEngineError('Give the engine a name and a keyword.');
+      return;
+    }
+    if (/\s/.test(keyword)) {
+      setEngineError('Keywords can\'t contain spaces.');
+      return;
+    }
+    if (settings.searchEngines.some((engine) => engine.keyword.toLowerCase() === keyword.toLowerCase())) {
+      setEngineError(`The keyword "${keyword}" is already taken.`);
+      return;
+    }
+    if (!isValidUrlTemplate(engineTemplate.trim())) {
+      setEngineError('The URL must start with http(s):// and contain %s where the search goes.');
+      return;
+    }
+
+    const engine: SearchEngine = {
+      id: Date.now().toString(),
+      name: engineName.trim(),
+      keyword,
+      urlTemplate: engineTemplate.trim(),
+    };
+    updateSettings({ searchEngines: [...settings.searchEngines, engine] });
+    setEngineName('');
+    setEngineKeyword('');
+    setEngineTemplate('');
+    setEngineError('');
+  };
+
+  const handleRemoveEngine = (id: string) => {
+    updateSettings({
+      searchEngines: settings.searchEngines.filter((engine) => engine.id !== id),
+    });
+  };
+
   return (
     <div className="settings-page">
       <div className="settings-content fade-in">
@@ -69,6 +262,227 @@ export const SettingsPage: React.FC = () => {
           </div>
         </section>
 
+        {zoomPreferences && (
+          <section className="settings-section card">
+            <h2>Page Zoom</h2>
+            <p className="section-description">
+              How big pages appear unless you've zoomed a site yourself. Sites
+              remember their own zoom, set with Ctrl +, Ctrl − and Ctrl 0.
+            </p>
+            <label className="default-zoom">
+              Default zoom
+              <select
+                value={zoomPreferences.defaultZoom}
+                onChange={(e) => handleDefaultZoomChange(Number(e.target.value))}
+              >
+                {zoomOptions.map((factor) => (
+                  <option key={factor} value={factor}>{Math.round(factor * 100)}%</option>
+                ))}
+              </select>
+            </label>
+          </section>
+        )}
+
+        <section className="settings-section card">
+          <h2>On Startup</h2>
+          <p className="section-description">
+            Choose what Cookie Browser shows when it opens.
+          </p>
+          <div className="startup-options">
+            {startupOptions.map((option) => (
+              <button
+                key={option.id}
+                className={`startup-option ${settings.startupBehavior === option.id ? 'startup-active' : ''}`}
+                onClick={() => updateSettings({ startupBehavior: option.id })}
+              >
+                <span className="startup-emoji">{option.emoji}</span>
+                <span className="startup-name">{option.name}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="settings-section card">
+          <h2>Search Engine</h2>
+          <p className="section-description">
+            Used by the URL bar and the New Tab page. Type a keyword first
+            (like <code>gh react hooks</code>) to search with a specific engine.
+          </p>
+          <div className="engine-list">
+            {settings.searchEngines.map((engine) => (
+              <div
+                key={engine.id}
+                className={`engine-item ${settings.defaultSearchEngineId === engine.id ? 'engine-default' : ''}`}
+              >
+                <label className="engine-choice">
+                  <input
+                    type="radio"
+                    name="default-engine"
+                    checked={settings.defaultSearchEngineId === engine.id}
+                    onChange={() => updateSettings({ defaultSearchEngineId: engine.id })}
+                  />
+                  <span className="engine-name">{engine.name}</span>
+                </label>
+                <span className="engine-keyword">{engine.keyword}</span>
+                <span className="engine-template">{engine.urlTemplate}</span>
+                {!engine.builtIn && settings.defaultSearchEngineId !== engine.id && (
+                  <button
+                    className="engine-remove"
+                    onClick={() => handleRemoveEngine(engine.id)}
+                    aria-label={`Remove ${engine.name}`}
+                  >
+                    🗑️
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <form className="engine-form" onSubmit={handleAddEngine}>
+            <input
+              type="text"
+              value={engineName}
+              onChange={(e) => setEngineName(e.target.value)}
+              placeholder="Name"
+              aria-label="Search engine name"
+            />
+            <input
+              type="text"
+              value={engineKeyword}
+              onChange={(e) => setEngineKeyword(e.target.value)}
+              placeholder="Keyword"
+              aria-label="Search engine keyword"
+            />
+            <input
+              type="text"
+              value={engineTemplate}
+              onChange={(e) => setEngineTemplate(e.target.value)}
+              placeholder="https://example.com/search?q=%s"
+              aria-label="Search URL template"
+            />
+            <button type="submit" className="btn btn-sage">
+              Add
+            </button>
+          </form>
+          {engineError && <p className="settings-error">{engineError}</p>}
+        </section>
+
+        {downloadPreferences && (
+          <section className="settings-section card">
+            <h2>Downloads</h2>
+            <p className="section-description">
+              Choose where downloaded files are saved.
+            </p>
+            <div className="download-folder">
+              <span className="download-folder-path" title={downloadPreferences.downloadFolder}>
+                📁 {downloadPreferences.downloadFolder}
+              </span>
+              <button className="btn btn-sage" onClick={handleChooseDownloadFolder}>
+                Change…
+              </button>
+            </div>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={downloadPreferences.alwaysAsk}
+                onChange={(e) => handleAlwaysAskChange(e.target.checked)}
+              />
+              Always ask where to save each file
+            </label>
+          </section>
+        )}
+
+        {window.electronAPI && (
+          <section className="settings-section card">
+            <h2>Content Blocking</h2>
+            <p className="section-description">
+              Blocks ads and trackers using Adblock Plus filter lists, like EasyList.
+              Lists are imported from files, so they work offline.
+            </p>
+            {filterLists.length === 0 ? (
+              <p className="settings-empty">No filter lists yet. Import one to start blocking.</p>
+            ) : (
+              <div className="filter-list-items">
+                {filterLists.map((list) => (
+                  <div key={list.id} className="filter-list-item">
+                    <span className="filter-list-name">🛡️ {list.name}</span>
+                    <span className="filter-list-count">{list.filterCount.toLocaleString()} filters</span>
+                    <button
+                      className="engine-remove"
+                      onClick={() => handleRemoveFilterList(list.id)}
+                      aria-label={`Remove ${list.name}`}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <button className="btn btn-sage" onClick={handleImportFilterLists}>
+              Import Filter List…
+            </button>
+            {filterListError && <p className="settings-error">{filterListError}</p>}
+            {unblockedSites.length > 0 && (
+              <>
+                <h3 className="settings-subheading">Blocking turned off on</h3>
+                <div className="filter-list-items">
+                  {unblockedSites.map((site) => (
+                    <div key={site} className="filter-list-item">
+                      <span className="filter-list-name">{site}</span>
+                      <button className="btn" onClick={() => handleResumeBlocking(site)}>
+                        Turn Back On
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+        )}
+
+        {window.electronAPI && (
+          <section className="settings-section card">
+            <h2>Site Permissions</h2>
+            <p className="section-description">
+              What sites may use when they ask. Revoking a site makes it ask again.
+            </p>
+            {sitePermissions.length === 0 ? (
+              <p className="settings-empty">No sites have asked for permissions yet.</p>
+            ) : (
+              <div className="permission-list">
+                {sitePermissions.map((site) => (
+                  <div key={site.origin} className="permission-site">
+                    <span className="permission-origin" title={site.origin}>{site.origin}</span>
+                    <div className="permission-decisions">
+                      {(Object.entries(site.permissions) as [PermissionKind, PermissionDecision][]).map(
+                        ([kind, decision]) => (
+                          <label key={kind} className="permission-decision">
+                            {PERMISSION_LABELS[kind].emoji} {PERMISSION_LABELS[kind].label}
+                            <select
+                              value={decision}
+                              onChange={(e) =>
+                                handlePermissionChange(site.origin, kind, e.target.value as PermissionDecision)
+                              }
+                            >
+                              {Object.entries(DECISION_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        )
+                      )}
+                    </div>
+                    <button className="btn btn-lavender" onClick={() => handleRevokePermissions(site.origin)}>
+                      Revoke
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {window.electronAPI && <ShortcutSettings />}
+
         <section className="settings-section card">
           <h2>About Cookie Browser</h2>
           <div className="about-content">
@@ -86,11 +500,24 @@ export const SettingsPage: React.FC = () => {
           <p className="section-description">
             Manage your browsing data stored locally.
           </p>
+          {historyPreferences && (
+            <label className="history-retention">
+              Keep history for
+              <select
+                value={historyPreferences.retentionDays}
+                onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              >
+                {retentionOptions.map((option) => (
+                  <option key={option.days} value={option.days}>{option.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
           <div className="data-actions">
             <button
               className="btn"
-              onClick={() => {
-                localStorage.removeItem('cookie-history');
+              onClick={async () => {
+                await window.electronAPI?.clearHistory();
                 alert('History cleared!');
               }}
             >
@@ -114,14 +541,5 @@ export const SettingsPage: React.FC = () => {
 
 // Helper to get current theme
 export const getCurrentTheme = (): string => {
-  const stored = localStorage.getItem(STORAGE_KEY);
-  if (stored) {
-    try {
-      const settings = JSON.parse(stored);
-      return settings.theme || 'pink';
-    } catch (e) {
-      return 'pink';
-    }
-  }
-  return 'pink';
+  return loadSettings().theme;
 };
@@ -24,6 +24,7 @@ export interface BrowserViewState {
 }
 
 export interface BrowserViewNavigatedData {
+  tabId: string;
   url: string;
   title: string;
   canGoBack: boolean;
@@ -31,25 +32,497 @@ export interface BrowserViewNavigatedData {
 }
 
 export interface BrowserViewTitleUpdatedData {
+  tabId: string;
   title: string;
   url: string;
 }
 
+export interface BrowserViewLoadingData {
+  tabId: string;
+  isLoading: boolean;
+  // Rough share of the load done so far, from 0 to 1
+  progress: number;
+}
+
+export interface BrowserViewLoadFailedData {
+  tabId: string;
+  url: string;
+  // Chromium net error code, e.g. -105 when the host can't be resolved
+  errorCode: number;
+  errorDescription: string;
+}
+
+export interface BrowserViewCrashedData {
+  tabId: string;
+  url: string;
+  // Why the page's renderer process went away, e.g. 'crashed' or 'oom'
+  reason: string;
+}
+
+export interface BrowserViewAudioChangedData {
+  tabId: string;
+  isAudible: boolean;
+  isMuted: boolean;
+}
+
+export interface FaviconUpdate {
+  origin: string;
+  favicon: string;
+}
+
+export interface FindInPageOptions {
+  forward?: boolean;
+  findNext?: boolean;
+  matchCase?: boolean;
+}
+
+export interface FoundInPageData {
+  tabId: string;
+  requestId: number;
+  activeMatchOrdinal: number;
+  matches: number;
+  finalUpdate: boolean;
+}
+
+export type StopFindAction = 'clearSelection' | 'keepSelection' | 'activateSelection';
+
+export interface SessionHistoryEntry {
+  url: string;
+  title: string;
+}
+
+export interface SessionTab {
+  id: string;
+  title: string;
+  url: string;
+  history: SessionHistoryEntry[];
+  historyIndex: number;
+  pinned?: boolean;
+  groupId?: string;
+}
+
+export type TabGroupColor = 'pink' | 'lavender' | 'mint' | 'golden';
+
+// Tabs gathered under a name and color. A group's tabs sit next to each other.
+export interface SessionTabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean;
+}
+
+// What the tab strip knows about a tab its menu is for
+export interface TabMenuState {
+  isOnlyTab: boolean;
+  isPinned: boolean;
+  // Whether "Close Other Tabs" and "Close Tabs to the Right" have anything to close
+  hasOtherTabs: boolean;
+  hasTabsToRight: boolean;
+  // How many tabs the group items apply to: all selected tabs, when the
+  // menu is for one of them
+  groupTabCount: number;
+  isGrouped: boolean;
+  // Groups the tabs could join
+  groups: SessionTabGroup[];
+}
+
+export type TabMenuAction =
+  | 'reload'
+  | 'duplicate'
+  | 'pin'
+  | 'unpin'
+  | 'close'
+  | 'closeOthers'
+  | 'closeToRight'
+  | 'newGroup'
+  | 'addToGroup'
+  | 'removeFromGroup';
+
+export interface TabMenuActionData {
+  tabId: string;
+  action: TabMenuAction;
+  // The group to add to, for addToGroup
+  groupId?: string;
+}
+
+// Group chip menu items, carried out by the renderer like tab menu items
+export type TabGroupAction = 'newTab' | 'rename' | 'color' | 'toggleCollapsed' | 'saveAsBookmarks' | 'ungroup' | 'close';
+
+export interface TabGroupActionData {
+  groupId: string;
+  action: TabGroupAction;
+  // The new color, for color
+  color?: TabGroupColor;
+}
+
+// A page asked for a URL in a new tab, e.g. from its context menu
+export interface OpenTabRequest {
+  url: string;
+  // The tab it came from; new tabs open next to it
+  openerTabId: string;
+  background: boolean;
+  // Set when main already made the tab's view, for pop-ups that keep a
+  // handle on the page that opened them
+  tabId?: string;
+}
+
+export interface SearchRequest {
+  text: string;
+  openerTabId: string;
+}
+
+export interface SessionState {
+  tabs: SessionTab[];
+  activeTabId: string;
+  // Missing from sessions saved before tab groups
+  groups?: SessionTabGroup[];
+}
+
+export interface SavedSessionResult {
+  session: SessionState | null;
+  crashed: boolean;
+  // Set for windows opened with their tabs, e.g. for a tab moved out of
+  // another window; these restore regardless of the startup setting
+  restore?: boolean;
+}
+
+// A tab as it was when it closed, and where it was in its tab bar
+export interface ClosedTab {
+  tab: SessionTab;
+  index: number;
+}
+
+export interface ClosedTabEntry extends ClosedTab {
+  kind: 'tab';
+  id: string;
+  closedAt: number;
+  windowId: number;
+}
+
+// A whole window's tabs, closed together
+export interface ClosedWindowEntry {
+  kind: 'window';
+  id: string;
+  closedAt: number;
+  session: SessionState;
+}
+
+export type ClosedEntry = ClosedTabEntry | ClosedWindowEntry;
+
+export type DownloadState = 'progressing' | 'paused' | 'completed' | 'cancelled' | 'interrupted';
+
+export interface DownloadRecord {
+  id: string;
+  url: string;
+  filename: string;
+  savePath: string;
+  mimeType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  state: DownloadState;
+  failureReason?: string;
+  startTime: number;
+  endTime?: number;
+  isPrivate?: boolean;
+}
+
+export interface DownloadPreferences {
+  downloadFolder: string;
+  alwaysAsk: boolean;
+}
+
+export type VisitTransition = 'typed' | 'link' | 'reload' | 'back_forward';
+
+export interface HistoryVisit {
+  visitedAt: number;
+  transition: VisitTransition;
+}
+
+export interface HistoryRecord {
+  id: string;
+  url: string;
+  title: string;
+  visits: HistoryVisit[];
+  visitCount: number;
+  typedCount: number;
+  lastVisitedAt: number;
+}
+
+export interface HistoryVisitEntry {
+  id: string;
+  url: string;
+  title: string;
+  visitedAt: number;
+  transition: VisitTransition;
+}
+
+export interface HistoryQuery {
+  text?: string;
+  startTime?: number;
+  endTime?: number;
+  host?: string;
+  sort?: 'recent' | 'visits';
+  offset?: number;
+  limit?: number;
+}
+
+export interface HistoryVisitKey {
+  url: string;
+  visitedAt: number;
+}
+
+export interface HistoryPreferences {
+  retentionDays: number;
+}
+
+export type ZoomAction = 'in' | 'out' | 'reset';
+
+// Browser commands run from keyboard shortcuts and the app menu
+export type ShortcutCommand =
+  | 'newTab'
+  | 'closeTab'
+  | 'reopenClosedTab'
+  | 'newWindow'
+  | 'newPrivateWindow'
+  | 'focusAddressBar'
+  | 'reload'
+  | 'back'
+  | 'forward'
+  | 'nextTab'
+  | 'previousTab'
+  | 'selectTab1'
+  | 'selectTab2'
+  | 'selectTab3'
+  | 'selectTab4'
+  | 'selectTab5'
+  | 'selectTab6'
+  | 'selectTab7'
+  | 'selectTab8'
+  | 'selectLastTab'
+  | 'find'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomReset'
+  | 'showHistory'
+  | 'showBookmarks'
+  | 'showDownloads'
+  | 'showSettings';
+
+export interface ShortcutInfo {
+  command: ShortcutCommand;
+  label: string;
+  // Electron accelerator syntax, e.g. "Ctrl+Shift+T"
+  accelerator: string;
+  defaultAccelerator: string;
+}
+
+export interface ShortcutUpdateResult {
+  shortcuts: ShortcutInfo[];
+  // Why the binding wasn't changed, e.g. another command already uses it
+  error?: string;
+}
+
+export interface ZoomPreferences {
+  // Factor for sites without a level of their own
+  defaultZoom: number;
+}
+
+export interface LegacyHistoryEntry {
+  title: string;
+  url: string;
+  visitedAt: number;
+}
+
+export type CookieSameSite = 'unspecified' | 'no_restriction' | 'lax' | 'strict';
+
+export interface CookieInfo {
+  name: string;
+  value: string;
+  domain: string;
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  session: boolean;
+  expirationDate?: number;
+  sameSite: CookieSameSite;
+}
+
+export type CookieKey = Pick<CookieInfo, 'name' | 'domain' | 'path' | 'secure'>;
+
+export interface SaveCookieResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface SiteDataSummary {
+  site: string;
+  cookieCount: number;
+  indexedDBBytes: number;
+}
+
+export interface SiteDataOverview {
+  sites: SiteDataSummary[];
+  // The HTTP cache isn't split by site, so only its total is known
+  cacheBytes: number;
+}
+
+export type PermissionKind =
+  | 'camera'
+  | 'microphone'
+  | 'geolocation'
+  | 'notifications'
+  | 'clipboard'
+  | 'fullscreen'
+  | 'popups';
+
+export type PermissionDecision = 'allow' | 'block' | 'ask';
+
+export interface PermissionRequest {
+  id: string;
+  tabId: string;
+  origin: string;
+  kinds: PermissionKind[];
+}
+
+export interface SitePermissions {
+  origin: string;
+  permissions: Partial<Record<PermissionKind, PermissionDecision>>;
+}
+
+export interface ContentBlockerState {
+  tabId: string;
+  site: string | null;
+  enabled: boolean;
+  blockedCount: number;
+}
+
+export interface BlockedPopupsState {
+  tabId: string;
+  origin: string | null;
+  urls: string[];
+}
+
+export interface FilterListInfo {
+  id: string;
+  name: string;
+  filterCount: number;
+  importedAt: number;
+}
+
+export interface ImportFilterListsResult {
+  lists: FilterListInfo[];
+  rejected: string[];
+}
+
 export interface ElectronAPI {
-  navigateToUrl: (url: string) => Promise<NavigationResult>;
-  closeBrowserView: () => Promise<CloseBrowserViewResult>;
-  showBrowserView: () => Promise<NavigationResult>;
-  getBrowserViewState: () => Promise<BrowserViewState>;
-  goBack: () => Promise<NavigationResult>;
-  goForward: () => Promise<NavigationResult>;
-  reload: () => Promise<NavigationResult>;
-  getCurrentUrl: () => Promise<string>;
-  getPageTitle: () => Promise<string>;
-  canGoBack: () => Promise<boolean>;
-  canGoForward: () => Promise<boolean>;
-  isBrowserViewActive: () => Promise<boolean>;
+  isPrivate: boolean;
+  navigateToUrl: (tabId: string, url: string, transition?: VisitTransition) => Promise<NavigationResult>;
+  closeBrowserView: (tabId: string) => Promise<CloseBrowserViewResult>;
+  destroyBrowserView: (tabId: string) => Promise<NavigationResult>;
+  showBrowserView: (tabId: string) => Promise<NavigationResult>;
+  getBrowserViewState: (tabId: string) => Promise<BrowserViewState>;
+  goBack: (tabId: string) => Promise<NavigationResult>;
+  goForward: (tabId: string) => Promise<NavigationResult>;
+  reload: (tabId: string) => Promise<NavigationResult>;
+  stopLoading: (tabId: string) => Promise<void>;
+  setTabMuted: (tabId: string, muted: boolean) => Promise<void>;
+  getCurrentUrl: (tabId: string) => Promise<string>;
+  getPageTitle: (tabId: string) => Promise<string>;
+  canGoBack: (tabId: string) => Promise<boolean>;
+  canGoForward: (tabId: string) => Promise<boolean>;
+  isBrowserViewActive: (tabId: string) => Promise<boolean>;
+  setOverlayVisible: (visible: boolean) => Promise<void>;
+  setContentTopOffset: (offset: number) => Promise<void>;
+  findInPage: (tabId: string, text: string, options: FindInPageOptions) => Promise<number | null>;
+  stopFindInPage: (tabId: string, action: StopFindAction) => Promise<void>;
+  getDownloads: () => Promise<DownloadRecord[]>;
+  pauseDownload: (id: string) => Promise<boolean>;
+  resumeDownload: (id: string) => Promise<boolean>;
+  cancelDownload: (id: string) => Promise<boolean>;
+  retryDownload: (id: string) => Promise<boolean>;
+  removeDownload: (id: string) => Promise<void>;
+  clearDownloads: () => Promise<void>;
+  openDownload: (id: string) => Promise<boolean>;
+  showDownloadInFolder: (id: string) => Promise<boolean>;
+  getDownloadPreferences: () => Promise<DownloadPreferences>;
+  setDownloadPreferences: (preferences: Partial<DownloadPreferences>) => Promise<DownloadPreferences>;
+  chooseDownloadFolder: () => Promise<DownloadPreferences | null>;
+  getFavicons: (origins: string[]) => Promise<Record<string, string>>;
+  queryHistory: (query?: HistoryQuery) => Promise<HistoryRecord[]>;
+  getHistoryVisits: (query?: HistoryQuery) => Promise<HistoryVisitEntry[]>;
+  removeHistoryUrl: (url: string) => Promise<void>;
+  removeHistoryVisits: (visits: HistoryVisitKey[]) => Promise<void>;
+  clearHistory: (since?: number) => Promise<void>;
+  importLegacyHistory: (entries: LegacyHistoryEntry[]) => Promise<void>;
+  getHistoryPreferences: () => Promise<HistoryPreferences>;
+  setHistoryPreferences: (preferences: Partial<HistoryPreferences>) => Promise<HistoryPreferences>;
+  getZoomFactor: (url: string) => Promise<number>;
+  changeZoom: (url: string, action: ZoomAction) => Promise<number>;
+  getZoomPreferences: () => Promise<ZoomPreferences>;
+  setZoomPreferences: (preferences: Partial<ZoomPreferences>) => Promise<ZoomPreferences>;
+  getShortcuts: () => Promise<ShortcutInfo[]>;
+  setShortcut: (command: ShortcutCommand, accelerator: string) => Promise<ShortcutUpdateResult>;
+  resetShortcuts: (command?: ShortcutCommand) => Promise<ShortcutUpdateResult>;
+  // The next key combination pressed in the window, or null if cancelled
+  recordShortcut: () => Promise<string | null>;
+  cancelShortcutRecording: () => Promise<void>;
+  getSiteData: () => Promise<SiteDataOverview>;
+  getSiteCookies: (site: string) => Promise<CookieInfo[]>;
+  saveCookie: (cookie: CookieInfo, original?: CookieKey) => Promise<SaveCookieResult>;
+  removeCookie: (cookie: CookieKey) => Promise<void>;
+  clearSiteData: (site: string) => Promise<void>;
+  clearCache: () => Promise<void>;
+  answerPermissionRequest: (id: string, allow: boolean, remember: boolean) => Promise<void>;
+  getSitePermissions: () => Promise<SitePermissions[]>;
+  setSitePermission: (origin: string, kind: PermissionKind, decision: PermissionDecision) => Promise<void>;
+  removeSitePermissions: (origin: string) => Promise<void>;
+  getContentBlockerState: (tabId: string) => Promise<ContentBlockerState | null>;
+  setSiteBlocking: (site: string, enabled: boolean) => Promise<void>;
+  getBlockingDisabledSites: () => Promise<string[]>;
+  getFilterLists: () => Promise<FilterListInfo[]>;
+  importFilterLists: () => Promise<ImportFilterListsResult | null>;
+  removeFilterList: (id: string) => Promise<FilterListInfo[]>;
+  openNewWindow: () => Promise<void>;
+  openPrivateWindow: () => Promise<void>;
+  closeWindow: () => Promise<void>;
+  detachTab: (tab: SessionTab, isOnlyTab: boolean) => Promise<boolean>;
+  showTabMenu: (tab: SessionTab, state: TabMenuState) => Promise<void>;
+  showTabGroupMenu: (group: SessionTabGroup) => Promise<void>;
+  showBlockedPopupsMenu: (tabId: string) => Promise<void>;
+  getSavedSession: () => Promise<SavedSessionResult>;
+  restoreSessionWindows: () => Promise<void>;
+  saveSession: (session: SessionState) => Promise<void>;
+  recordClosedTabs: (tabs: ClosedTab[]) => Promise<void>;
+  getRecentlyClosed: () => Promise<ClosedEntry[]>;
+  // Restores the latest entry without an id
+  restoreClosed: (id?: string) => Promise<void>;
   onBrowserViewNavigated: (callback: (data: BrowserViewNavigatedData) => void) => () => void;
   onBrowserViewTitleUpdated: (callback: (data: BrowserViewTitleUpdatedData) => void) => () => void;
+  onBrowserViewLoading: (callback: (data: BrowserViewLoadingData) => void) => () => void;
+  onBrowserViewLoadFailed: (callback: (data: BrowserViewLoadFailedData) => void) => () => void;
+  onBrowserViewCrashed: (callback: (data: BrowserViewCrashedData) => void) => () => void;
+  onBrowserViewAudioChanged: (callback: (data: BrowserViewAudioChangedData) => void) => () => void;
+  onFaviconUpdated: (callback: (update: FaviconUpdate) => void) => () => void;
+  onFoundInPage: (callback: (data: FoundInPageData) => void) => () => void;
+  // Shortcuts and menu items, matched by main wherever focus is
+  onCommand: (callback: (command: ShortcutCommand) => void) => () => void;
+  onZoomChanged: (callback: () => void) => () => void;
+  onTabMovedAway: (callback: (tabId: string) => void) => () => void;
+  // The tab's page closed itself, e.g. a sign-in pop-up that's done
+  onTabClosedByPage: (callback: (tabId: string) => void) => () => void;
+  onTabReceived: (callback: (tab: SessionTab) => void) => () => void;
+  onTabRestored: (callback: (closed: ClosedTab) => void) => () => void;
+  onRecentlyClosedChanged: (callback: () => void) => () => void;
+  onTabMenuAction: (callback: (data: TabMenuActionData) => void) => () => void;
+  onTabGroupAction: (callback: (data: TabGroupActionData) => void) => () => void;
+  onOpenTabRequested: (callback: (request: OpenTabRequest) => void) => () => void;
+  onSearchRequested: (callback: (request: SearchRequest) => void) => () => void;
+  onDownloadUpdated: (callback: (record: DownloadRecord) => void) => () => void;
+  onContentBlockerUpdated: (callback: (state: ContentBlockerState) => void) => () => void;
+  onBlockedPopupsUpdated: (callback: (state: BlockedPopupsState) => void) => () => void;
+  onPermissionRequested: (callback: (request: PermissionRequest) => void) => () => void;
+  onPermissionRequestClosed: (callback: (id: string) => void) => () => void;
 }
 
 declare global {
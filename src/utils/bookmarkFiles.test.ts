@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { BookmarkFolder, BookmarkItem, BookmarkNode } from './bookmarks';
+import {
+  exportBookmarksJson,
+  exportNetscapeBookmarks,
+  parseBookmarksJson,
+  parseNetscapeBookmarks,
+  planImport,
+} from './bookmarkFiles';
+
+const CREATED_AT = 1700000000000;
+
+const bookmark = (url: string, title = url, tags: string[] = []): BookmarkItem => ({
+  type: 'bookmark',
+  id: url,
+  title,
+  url,
+  tags,
+  createdAt: CREATED_AT,
+});
+
+const folder = (title: string, children: BookmarkNode[]): BookmarkFolder => ({
+  type: 'folder',
+  id: title,
+  title,
+  children,
+  createdAt: CREATED_AT,
+});
+
+// Imports get fresh ids, so compare everything else. toEqual ignores
+// properties that are undefined.
+const withoutIds = (nodes: BookmarkNode[]): unknown[] =>
+  nodes.map((node) =>
+    node.type === 'folder'
+      ? { ...node, id: undefined, children: withoutIds(node.children) }
+      : { ...node, id: undefined }
+  );
+
+const netscapeFile = (items: string) => `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<TITLE>Bookmarks</TITLE>
+<DL><p>
+${items}
+</DL><p>`;
+
+describe('Netscape bookmark files', () => {
+  it('read back what they export', () => {
+    const root = folder('Bookmarks', [
+      bookmark('https://example.com/', 'Example', ['news', 'daily']),
+      folder('Recipes & "treats"', [
+        bookmark('https://cookies.com/?a=1&b=2', 'Chocolate <chip>'),
+        folder('Empty', []),
+      ]),
+    ]);
+
+    expect(withoutIds(parseNetscapeBookmarks(exportNetscapeBookmarks(root)))).toEqual(withoutIds(root.children));
+  });
+
+  it('find folder lists left outside their DT', () => {
+    const nodes = parseNetscapeBookmarks(netscapeFile(`
+      <DT><H3>Bar</H3>
+      <DL><p>
+        <DT><A HREF="https://a.com/">A</A>
+      </DL><p>
+      <DT><A HREF="https://b.com/">B</A>`));
+
+    expect(nodes.map((node) => node.title)).toEqual(['Bar', 'B']);
+    expect((nodes[0] as BookmarkFolder).children.map((node) => node.title)).toEqual(['A']);
+  });
+
+  it('skip links without an address and default missing titles', () => {
+    const nodes = parseNetscapeBookmarks(netscapeFile(`
+      <DT><A>No address</A>
+      <DT><A HREF="https://a.com/"></A>
+      <DT><H3></H3><DL><p></DL><p>`));
+
+    expect(nodes.map((node) => node.title)).toEqual(['https://a.com/', 'Untitled folder']);
+  });
+
+  it('read dates in seconds, milliseconds or microseconds', () => {
+    const nodes = parseNetscapeBookmarks(netscapeFile(`
+      <DT><A HREF="https://s.com/" ADD_DATE="1700000000">Seconds</A>
+      <DT><A HREF="https://ms.com/" ADD_DATE="1700000000000">Milliseconds</A>
+      <DT><A HREF="https://us.com/" ADD_DATE="1700000000000000">Microseconds</A>`));
+
+    expect(nodes.map((node) => node.createdAt)).toEqual([CREATED_AT, CREATED_AT, CREATED_AT]);
+  });
+
+  it('date bookmarks without a usable date now', () => {
+    const before = Date.now();
+    const nodes = parseNetscapeBookmarks(netscapeFile(`
+      <DT><A HREF="https://none.com/">None</A>
+      <DT><A HREF="https://zero.com/" ADD_DATE="0">Zero</A>
+      <DT><A HREF="https://junk.com/" ADD_DATE="yesterday">Junk</A>`));
+
+    for (const node of nodes) expect(node.createdAt).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe('parseBookmarksJson', () => {
+  it('reads back what it exports, under fresh ids', () => {
+    const root = folder('Bookmarks', [
+      bookmark('https://example.com/', 'Example', ['news']),
+      folder('Recipes', [bookmark('https://cookies.com/')]),
+    ]);
+    const nodes = parseBookmarksJson(exportBookmarksJson(root));
+
+    expect(withoutIds(nodes)).toEqual(withoutIds(root.children));
+    expect(nodes[0].id).not.toBe('https://example.com/');
+  });
+
+  it('rejects files that are not a bookmark tree', () => {
+    expect(() => parseBookmarksJson('[]')).toThrow('Not a Cookie Browser bookmarks file');
+    expect(() => parseBookmarksJson('{"type":"folder"}')).toThrow('Not a Cookie Browser bookmarks file');
+    expect(() => parseBookmarksJson('not json')).toThrow();
+  });
+
+  it('leaves out malformed nodes at any depth', () => {
+    const nodes = parseBookmarksJson(JSON.stringify({
+      type: 'folder',
+      children: [
+        null,
+        'https://string.com/',
+        { type: 'bookmark', title: 'No address' },
+        { type: 'bookmark', url: 42 },
+        { type: 'folder', title: 'No children', children: 'nope' },
+        { type: 'link', url: 'https://unknown-type.com/' },
+        {
+          type: 'folder',
+          title: 'Nested',
+          children: [
+            { type: 'bookmark', url: '  ' },
+            { type: 'folder', title: 'Deeper', children: [{ type: 'bookmark' }, { type: 'bookmark', url: 'https://ok.com/' }] },
+          ],
+        },
+      ],
+    }));
+
+    expect(nodes).toHaveLength(1);
+    const nested = nodes[0] as BookmarkFolder;
+    expect(nested.title).toBe('Nested');
+    expect(nested.children).toHaveLength(1);
+    expect((nested.children[0] as BookmarkFolder).children.map((node) => node.title)).toEqual(['https://ok.com/']);
+  });
+
+  it('fills in missing titles, tags and dates', () => {
+    const before = Date.now();
+    const [node] = parseBookmarksJson(JSON.stringify({
+      type: 'folder',
+      children: [{ type: 'bookmark', url: 'https://a.com/', title: 7, tags: ['News', 3, ''], createdAt: 'soon' }],
+    }));
+
+    expect(node).toMatchObject({ type: 'bookmark', title: 'https://a.com/', tags: ['news'] });
+    expect(node.createdAt).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe('planImport', () => {
+  it('skips URLs already saved or earlier in the file', () => {
+    const root = folder('Bookmarks', [folder('Saved', [bookmark('https://saved.com/')])]);
+    const plan = planImport(root, [
+      bookmark('https://saved.com/'),
+      bookmark('https://new.com/'),
+      folder('More', [bookmark('https://new.com/'), bookmark('https://other.com/')]),
+    ]);
+
+    expect(plan).toMatchObject({ added: 2, duplicates: 2, folders: 1 });
+    expect(withoutIds(plan.nodes)).toEqual(withoutIds([
+      bookmark('https://new.com/'),
+      folder('More', [bookmark('https://other.com/')]),
+    ]));
+  });
+
+  it('drops folders left with nothing new, but keeps ones that were empty', () => {
+    const root = folder('Bookmarks', [bookmark('https://saved.com/')]);
+    const plan = planImport(root, [
+      folder('Only duplicates', [bookmark('https://saved.com/'), folder('Inner', [bookmark('https://saved.com/')])]),
+      folder('Empty', []),
+    ]);
+
+    expect(plan).toMatchObject({ added: 0, duplicates: 2, folders: 1 });
+    expect(plan.nodes.map((node) => node.title)).toEqual(['Empty']);
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  createBookmarkId,
+  listBookmarks,
+  type BookmarkFolder,
+  type BookmarkNode,
+} from './bookmarks';
+
+// Reading and writing bookmark files: the Netscape Bookmark File format that
+// every browser imports and exports, and a lossless JSON dump of the store.
+
+// What an import would add, worked out before anything is saved
+export interface ImportPlan {
+  nodes: BookmarkNode[];
+  added: number;
+  // Bookmarks skipped because their URL is already saved
+  duplicates: number;
+  folders: number;
+}
+
+// Netscape files use seconds, though some tools write milliseconds or
+// microseconds instead
+const parseAddDate = (value: string | null): number => {
+  const number = Number(value);
+  if (!value || !Number.isFinite(number) || number <= 0) return Date.now();
+  if (number > 1e14) return Math.floor(number / 1000);
+  if (number > 1e11) return number;
+  return number * 1000;
+};
+
+const parseFolderList = (list: Element): BookmarkNode[] => {
+  const nodes: BookmarkNode[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'DT') continue;
+    const heading = item.querySelector(':scope > h3');
+    const link = item.querySelector(':scope > a');
+    const url = link?.getAttribute('href');
+
+    if (heading) {
+      // The folder's own list is usually inside the DT, but some files close
+      // the DT first and leave it as the next sibling
+      const sibling = item.nextElementSibling;
+      const childList = item.querySelector(':scope > dl')
+        ?? (sibling?.tagName === 'DL' ? sibling : null);
+      nodes.push({
+        type: 'folder',
+        id: createBookmarkId(),
+        title: heading.textContent?.trim() || 'Untitled folder',
+        children: childList ? parseFolderList(childList) : [],
+        createdAt: parseAddDate(heading.getAttribute('add_date')),
+      });
+    } else if (link && url) {
+      nodes.push({
+        type: 'bookmark',
+        id: createBookmarkId(),
+        title: link.textContent?.trim() || url,
+        url,
+        tags: (link.getAttribute('tags') ?? '')
+          .split(',')
+          .map((tag) => tag.trim().toLowerCase())
+          .filter(Boolean),
+        createdAt: parseAddDate(link.getAttribute('add_date')),
+      });
+    }
+  }
+  return nodes;
+};
+
+export const parseNetscapeBookmarks = (html: string): BookmarkNode[] => {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const topList = document.querySelector('dl');
+  return topList ? parseFolderList(topList) : [];
+};
+
+// Every node of a JSON file is checked, since the file may not be one we
+// wrote. Bookmarks without a URL and folders without a list of children are
+// left out; missing titles, tags and dates get the same defaults as in HTML
+// files. Fresh ids keep imported nodes from clashing with ones already saved.
+const parseJsonNode = (value: unknown): BookmarkNode | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const node = value as Record<string, unknown>;
+  const title = typeof node.title === 'string' ? node.title.trim() : '';
+  const createdAt = typeof node.createdAt === 'number' && Number.isFinite(node.createdAt) && node.createdAt > 0
+    ? node.createdAt
+    : Date.now();
+
+  if (node.type === 'folder' && Array.isArray(node.children)) {
+    return {
+      type: 'folder',
+      id: createBookmarkId(),
+      title: title || 'Untitled folder',
+      children: parseJsonNodes(node.children),
+      createdAt,
+    };
+  }
+  if (node.type === 'bookmark' && typeof node.url === 'string' && node.url.trim()) {
+    const url = node.url.trim();
+    return {
+      type: 'bookmark',
+      id: createBookmarkId(),
+      title: title || url,
+      url,
+      tags: Array.isArray(node.tags)
+        ? node.tags.filter((tag): tag is string => typeof tag === 'string').map((tag) => tag.trim().toLowerCase()).filter(Boolean)
+        : [],
+      createdAt,
+    };
+  }
+  return null;
+};
+
+const parseJsonNodes = (values: unknown[]): BookmarkNode[] =>
+  values.flatMap((value) => parseJsonNode(value) ?? []);
+
+// A JSON dump holds the whole tree; its top level is what gets imported
+export const parseBookmarksJson = (text: string): BookmarkNode[] => {
+  const parsed = JSON.parse(text);
+  if (parsed?.type !== 'folder' || !Array.isArray(parsed.children)) {
+    throw new Error('Not a Cookie Browser bookmarks file');
+  }
+  return parseJsonNodes(parsed.children);
+};
+
+// Drop bookmarks whose URL is already saved (or appears earlier in the file),
+// and folders that end up with nothing new in them
+export const planImport = (root: BookmarkFolder, nodes: BookmarkNode[]): ImportPlan => {
+  const seen = new Set(listBookmarks(root).map(({ bookmark }) => bookmark.url));
+  const plan: ImportPlan = { nodes: [], added: 0, duplicates: 0, folders: 0 };
+
+  const filterNodes = (list: BookmarkNode[]): BookmarkNode[] =>
+    list.flatMap((node): BookmarkNode[] => {
+      if (node.type === 'bookmark') {
+        if (seen.has(node.url)) {
+          plan.duplicates++;
+          return [];
+        }
+        seen.add(node.url);
+        plan.added++;
+        return [node];
+      }
+
+      const children = filterNodes(node.children);
+      const wasEmpty = node.children.length === 0;
+      if (children.length === 0 && !wasEmpty) return [];
+      plan.folders++;
+      return [{ ...node, children }];
+    });
+
+  plan.nodes = filterNodes(nodes);
+  return plan;
+};
+
+// Add imported nodes to a folder. Folders with the same name as one already
+// there are merged, so importing from the same browser twice doesn't nest
+// "Bookmarks bar" next to "Bookmarks bar".
+export const mergeImport = (folder: BookmarkFolder, nodes: BookmarkNode[]): BookmarkFolder => {
+  const children = [...folder.children];
+
+  for (const node of nodes) {
+    const existingIndex = node.type === 'folder'
+      ? children.findIndex((child) => child.type === 'folder' && child.title === node.title)
+      : -1;
+    const existing = children[existingIndex];
+
+    if (node.type === 'folder' && existing?.type === 'folder') {
+      children[existingIndex] = mergeImport(existing, node.children);
+    } else {
+      children.push(node);
+    }
+  }
+  return { ...folder, children };
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+const exportNodes = (nodes: BookmarkNode[], indent: string): string =>
+  nodes.map((node) => {
+    if (node.type === 'folder') {
+      return [
+        `${indent}<DT><H3 ADD_DATE="${toSeconds(node.createdAt)}">${escapeHtml(node.title)}</H3>`,
+        `${indent}<DL><p>`,
+        exportNodes(node.children, `${indent}    `),
+        `${indent}</DL><p>`,
+      ].filter(Boolean).join('\n');
+    }
+    const tags = node.tags.length > 0 ? ` TAGS="${escapeHtml(node.tags.join(','))}"` : '';
+    return `${indent}<DT><A HREF="${escapeHtml(node.url)}" ADD_DATE="${toSeconds(node.createdAt)}"${tags}>${escapeHtml(node.title)}</A>`;
+  }).join('\n');
+
+export const exportNetscapeBookmarks = (root: BookmarkFolder): string => [
+  '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+  '<!-- This is an automatically generated file.',
+  '     It will be read and overwritten.',
+  '     DO NOT EDIT! -->',
+  '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+  '<TITLE>Bookmarks</TITLE>',
+  '<H1>Bookmarks</H1>',
+  '<DL><p>',
+  exportNodes(root.children, '    '),
+  '</DL><p>',
+].filter(Boolean).join('\n') + '\n';
+
+export const exportBookmarksJson = (root: BookmarkFolder): string => JSON.stringify(root, null, 2);
+
+// Hand a file to the browser's download handling, which saves it through the
+// downloads manager like any other download
+export const saveTextFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  findNode,
+  loadBookmarks,
+  moveNode,
+  ROOT_FOLDER_ID,
+  saveBookmarks,
+  type BookmarkFolder,
+  type BookmarkNode,
+} from './bookmarks';
+
+const STORAGE_KEY = 'cookie-bookmarks';
+
+const bookmark = (id: string): BookmarkNode => ({
+  type: 'bookmark',
+  id,
+  title: id,
+  url: `https://${id}.com/`,
+  tags: [],
+  createdAt: 1,
+});
+
+const folder = (id: string, children: BookmarkNode[]): BookmarkFolder => ({
+  type: 'folder',
+  id,
+  title: id,
+  children,
+  createdAt: 1,
+});
+
+// Ids of a folder's children, nested folders as [id, children]
+const outline = (node: BookmarkFolder): unknown[] =>
+  node.children.map((child) => (child.type === 'folder' ? [child.id, outline(child)] : child.id));
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('loadBookmarks', () => {
+  it('starts with an empty root folder', () => {
+    expect(loadBookmarks()).toMatchObject({ type: 'folder', id: ROOT_FOLDER_ID, children: [] });
+  });
+
+  it('moves a legacy flat list into the root folder without losing anything', () => {
+    const legacy = [
+      { id: '2', title: 'Newer', url: 'https://newer.com/', createdAt: 2000 },
+      { id: '1', title: 'Older', url: 'https://older.com/', createdAt: 1000 },
+    ];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(legacy));
+
+    const root = loadBookmarks();
+    expect(root.id).toBe(ROOT_FOLDER_ID);
+    expect(root.children).toEqual([
+      { type: 'bookmark', id: '2', title: 'Newer', url: 'https://newer.com/', tags: [], createdAt: 2000 },
+      { type: 'bookmark', id: '1', title: 'Older', url: 'https://older.com/', tags: [], createdAt: 1000 },
+    ]);
+
+    // Saved in the new shape, so it only migrates once
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '')).toEqual(root);
+    expect(loadBookmarks()).toEqual(root);
+  });
+
+  it('reads back a saved tree', () => {
+    const root = folder(ROOT_FOLDER_ID, [bookmark('a'), folder('f', [bookmark('b')])]);
+    saveBookmarks(root);
+    expect(loadBookmarks()).toEqual(root);
+  });
+
+  it('starts over from data it cannot read', () => {
+    localStorage.setItem(STORAGE_KEY, '{broken');
+    expect(loadBookmarks().children).toEqual([]);
+  });
+});
+
+describe('moveNode', () => {
+  const root = folder(ROOT_FOLDER_ID, [
+    bookmark('a'),
+    folder('outer', [bookmark('b'), folder('inner', [bookmark('c')])]),
+    bookmark('d'),
+  ]);
+
+  it('moves a node before or after another one', () => {
+    expect(outline(moveNode(root, 'd', 'a', 'before'))).toEqual([
+      'd', 'a', ['outer', ['b', ['inner', ['c']]]],
+    ]);
+    expect(outline(moveNode(root, 'c', 'b', 'after'))).toEqual([
+      'a', ['outer', ['b', 'c', ['inner', []]]], 'd',
+    ]);
+  });
+
+  it('moves a node to the end of a folder', () => {
+    expect(outline(moveNode(root, 'a', 'inner', 'inside'))).toEqual([
+      ['outer', ['b', ['inner', ['c', 'a']]]], 'd',
+    ]);
+  });
+
+  it('refuses to move a folder into itself or its descendants', () => {
+    expect(moveNode(root, 'outer', 'outer', 'inside')).toBe(root);
+    expect(moveNode(root, 'outer', 'inner', 'inside')).toBe(root);
+    expect(moveNode(root, 'outer', 'c', 'before')).toBe(root);
+  });
+
+  it('leaves the tree alone for drops it cannot make', () => {
+    expect(moveNode(root, 'a', 'd', 'inside')).toBe(root);
+    expect(moveNode(root, 'missing', 'd', 'after')).toBe(root);
+    expect(moveNode(root, 'a', 'missing', 'after')).toBe(root);
+    expect(moveNode(root, ROOT_FOLDER_ID, 'a', 'after')).toBe(root);
+  });
+
+  it('returns a new tree and leaves the old one as it was', () => {
+    const moved = moveNode(root, 'b', 'd', 'after');
+    expect(findNode(moved, 'b')).toEqual(bookmark('b'));
+    expect(outline(root)).toEqual(['a', ['outer', ['b', ['inner', ['c']]]], 'd']);
+  });
+});
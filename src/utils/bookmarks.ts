@@ -0,0 +1,209 @@
+// Bookmarks form a tree of folders under one root folder, kept in
+// localStorage. Every edit returns a new tree so React state stays immutable.
+
+export interface BookmarkItem {
+  type: 'bookmark';
+  id: string;
+  title: string;
+  url: string;
+  tags: string[];
+  createdAt: number;
+}
+
+export interface BookmarkFolder {
+  type: 'folder';
+  id: string;
+  title: string;
+  children: BookmarkNode[];
+  createdAt: number;
+}
+
+export type BookmarkNode = BookmarkItem | BookmarkFolder;
+
+// Where a dragged node lands relative to another one
+export type DropPosition = 'before' | 'after' | 'inside';
+
+// A bookmark along with the names of the folders it's in, for flat lists
+export interface BookmarkMatch {
+  bookmark: BookmarkItem;
+  path: string[];
+}
+
+// Written by versions before folders, when bookmarks were a flat list
+interface LegacyBookmark {
+  id: string;
+  title: string;
+  url: string;
+  createdAt: number;
+}
+
+const STORAGE_KEY = 'cookie-bookmarks';
+
+export const ROOT_FOLDER_ID = 'root';
+
+export const createBookmarkId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createRoot = (children: BookmarkNode[] = []): BookmarkFolder => ({
+  type: 'folder',
+  id: ROOT_FOLDER_ID,
+  title: 'Bookmarks',
+  children,
+  createdAt: Date.now(),
+});
+
+// Old flat lists were newest first; they keep that order as the root's children
+const migrateLegacyBookmarks = (bookmarks: LegacyBookmark[]): BookmarkFolder =>
+  createRoot(bookmarks.map((bookmark) => ({
+    type: 'bookmark',
+    id: bookmark.id,
+    title: bookmark.title,
+    url: bookmark.url,
+    tags: [],
+    createdAt: bookmark.createdAt,
+  })));
+
+export const saveBookmarks = (root: BookmarkFolder) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(root));
+};
+
+export const loadBookmarks = (): BookmarkFolder => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return createRoot();
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) {
+      const migrated = migrateLegacyBookmarks(parsed);
+      saveBookmarks(migrated);
+      return migrated;
+    }
+    if (parsed?.type === 'folder' && Array.isArray(parsed.children)) {
+      return parsed;
+    }
+  } catch (e) {
+    console.error('Failed to parse bookmarks:', e);
+  }
+  return createRoot();
+};
+
+export const findNode = (folder: BookmarkFolder, id: string): BookmarkNode | null => {
+  if (folder.id === id) return folder;
+  for (const child of folder.children) {
+    if (child.id === id) return child;
+    if (child.type === 'folder') {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Whether a node is, or is somewhere inside, another one
+export const isWithin = (root: BookmarkFolder, id: string, ancestorId: string): boolean => {
+  const ancestor = findNode(root, ancestorId);
+  return ancestor !== null && (ancestor.id === id || (ancestor.type === 'folder' && findNode(ancestor, id) !== null));
+};
+
+const mapFolder = (folder: BookmarkFolder, update: (folder: BookmarkFolder) => BookmarkFolder): BookmarkFolder => {
+  const children = folder.children.map((child) =>
+    child.type === 'folder' ? mapFolder(child, update) : child
+  );
+  return update({ ...folder, children });
+};
+
+export const addNode = (root: BookmarkFolder, parentId: string, node: BookmarkNode, index?: number): BookmarkFolder =>
+  mapFolder(root, (folder) => {
+    if (folder.id !== parentId) return folder;
+    const children = [...folder.children];
+    children.splice(index ?? children.length, 0, node);
+    return { ...folder, children };
+  });
+
+export const removeNode = (root: BookmarkFolder, id: string): BookmarkFolder =>
+  mapFolder(root, (folder) => ({
+    ...folder,
+    children: folder.children.filter((child) => child.id !== id),
+  }));
+
+export const updateNode = (
+  root: BookmarkFolder,
+  id: string,
+  changes: Partial<Pick<BookmarkItem, 'title' | 'url' | 'tags'>>
+): BookmarkFolder =>
+  mapFolder(root, (folder) => ({
+    ...folder,
+    children: folder.children.map((child) =>
+      child.id !== id
+        ? child
+        : child.type === 'folder'
+          ? { ...child, title: changes.title ?? child.title }
+          : { ...child, ...changes }
+    ),
+  }));
+
+const findParent = (folder: BookmarkFolder, id: string): BookmarkFolder | null => {
+  for (const child of folder.children) {
+    if (child.id === id) return folder;
+    if (child.type === 'folder') {
+      const found = findParent(child, id);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+// Move a node next to, or into, another one. Folders can't move into themselves.
+export const moveNode = (root: BookmarkFolder, id: string, targetId: string, position: DropPosition): BookmarkFolder => {
+  const node = findNode(root, id);
+  if (!node || node.id === ROOT_FOLDER_ID || isWithin(root, targetId, id)) return root;
+
+  const withoutNode = removeNode(root, id);
+  const target = findNode(withoutNode, targetId);
+  if (!target) return root;
+
+  if (position === 'inside') {
+    return target.type === 'folder' ? addNode(withoutNode, target.id, node) : root;
+  }
+
+  const parent = findParent(withoutNode, targetId);
+  if (!parent) return root;
+  const index = parent.children.findIndex((child) => child.id === targetId);
+  return addNode(withoutNode, parent.id, node, position === 'before' ? index : index + 1);
+};
+
+// Every folder with its depth, for folder pickers
+export const listFolders = (folder: BookmarkFolder, depth = 0): { folder: BookmarkFolder; depth: number }[] => [
+  { folder, depth },
+  ...folder.children.flatMap((child) => (child.type === 'folder' ? listFolders(child, depth + 1) : [])),
+];
+
+export const listBookmarks = (folder: BookmarkFolder, path: string[] = []): BookmarkMatch[] =>
+  folder.children.flatMap((child) =>
+    child.type === 'folder'
+      ? listBookmarks(child, [...path, child.title])
+      : [{ bookmark: child, path }]
+  );
+
+export const listTags = (root: BookmarkFolder): string[] =>
+  [...new Set(listBookmarks(root).flatMap(({ bookmark }) => bookmark.tags))].sort();
+
+// "news, Reading ,news" becomes ["news", "reading"]
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+// Search titles, URLs and tags across the whole tree. "#tag" only matches
+// bookmarks with exactly that tag.
+export const searchBookmarks = (root: BookmarkFolder, query: string): BookmarkMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  if (needle.startsWith('#')) {
+    const tag = needle.slice(1);
+    return listBookmarks(root).filter(({ bookmark }) => bookmark.tags.includes(tag));
+  }
+
+  return listBookmarks(root).filter(({ bookmark, path }) =>
+    [bookmark.title, bookmark.url, ...bookmark.tags, ...path].some((text) => text.toLowerCase().includes(needle))
+  );
+};
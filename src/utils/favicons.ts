@@ -0,0 +1,72 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+// Site icons come from the main process, which fetches and caches them by
+// page origin. This keeps one copy per origin for every list in the window,
+// asks for the ones it doesn't have in batches, and picks up new icons as
+// main fetches them.
+
+// null means main has no icon for the origin (yet)
+const cache = new Map<string, string | null>();
+const listeners = new Set<() => void>();
+let pending = new Set<string>();
+let unsubscribeUpdates: (() => void) | null = null;
+
+export const getOrigin = (url: string): string | null => {
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? origin : null;
+  } catch {
+    return null;
+  }
+};
+
+const notifyListeners = () => {
+  for (const listener of listeners) listener();
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!unsubscribeUpdates && window.electronAPI) {
+    unsubscribeUpdates = window.electronAPI.onFaviconUpdated(({ origin, favicon }) => {
+      cache.set(origin, favicon);
+      notifyListeners();
+    });
+  }
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Lookups made while rendering a list go to main in one request
+const requestFavicon = (origin: string) => {
+  if (!window.electronAPI || pending.has(origin)) return;
+  pending.add(origin);
+  if (pending.size > 1) return;
+
+  queueMicrotask(async () => {
+    const origins = [...pending];
+    pending = new Set();
+    const favicons = await window.electronAPI.getFavicons(origins);
+    for (const origin of origins) {
+      cache.set(origin, favicons[origin] ?? cache.get(origin) ?? null);
+    }
+    notifyListeners();
+  });
+};
+
+export const getCachedFavicon = (url: string): string | undefined => {
+  const origin = getOrigin(url);
+  return (origin && cache.get(origin)) || undefined;
+};
+
+// The icon of the site a URL belongs to, or null while there isn't one
+export const useFavicon = (url: string): string | null => {
+  const origin = getOrigin(url);
+  const favicon = useSyncExternalStore(subscribe, () => (origin ? cache.get(origin) ?? null : null));
+
+  useEffect(() => {
+    if (origin && !cache.has(origin)) requestFavicon(origin);
+  }, [origin]);
+
+  return favicon;
+};
@@ -0,0 +1,20 @@
+import type { LegacyHistoryEntry } from '../types/electron.d.ts';
+
+// History used to live in localStorage, written by the renderer on every
+// navigation. The main process keeps it now; hand over whatever is left.
+
+const LEGACY_STORAGE_KEY = 'cookie-history';
+
+export const migrateLegacyHistory = async () => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored || !window.electronAPI) return;
+
+  try {
+    const entries: LegacyHistoryEntry[] = JSON.parse(stored);
+    await window.electronAPI.importLegacyHistory(entries);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (e) {
+    // Left in place to try again next time
+    console.error('Failed to migrate history:', e);
+  }
+};
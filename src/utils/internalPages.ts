@@ -0,0 +1,66 @@
+export type InternalPage =
+  | 'newtab'
+  | 'bookmarks'
+  | 'history'
+  | 'recently-closed'
+  | 'downloads'
+  | 'cookies'
+  | 'settings'
+  | 'error';
+
+export interface InternalPageInfo {
+  page: InternalPage;
+  url: string;
+  title: string;
+  // Lists that the find bar filters in place of searching page text
+  filterable?: boolean;
+  // Pages the browser opens itself, never offered in the omnibox
+  hidden?: boolean;
+}
+
+// The cookie:// pages rendered by the React shell instead of a BrowserView
+export const INTERNAL_PAGES: InternalPageInfo[] = [
+  { page: 'newtab', url: 'cookie://newtab', title: 'New Tab' },
+  { page: 'bookmarks', url: 'cookie://bookmarks', title: 'Bookmarks', filterable: true },
+  { page: 'history', url: 'cookie://history', title: 'History', filterable: true },
+  { page: 'recently-closed', url: 'cookie://recently-closed', title: 'Recently Closed' },
+  { page: 'downloads', url: 'cookie://downloads', title: 'Downloads', filterable: true },
+  { page: 'cookies', url: 'cookie://cookies', title: 'Cookies & Site Data', filterable: true },
+  { page: 'settings', url: 'cookie://settings', title: 'Settings' },
+  { page: 'error', url: 'cookie://error', title: "Can't reach this page", hidden: true },
+];
+
+// Internal URLs can carry parameters, like cookie://cookies?site=example.com
+export const parseInternalUrl = (url: string): InternalPage | null => {
+  const base = url.split(/[?#]/)[0];
+  return INTERNAL_PAGES.find((info) => info.url === base)?.page ?? null;
+};
+
+export const getInternalUrlParam = (url: string, name: string): string | null => {
+  const query = url.split('#')[0].split('?')[1];
+  return query ? new URLSearchParams(query).get(name) : null;
+};
+
+export const getInternalPageTitle = (page: InternalPage | null): string => {
+  return INTERNAL_PAGES.find((info) => info.page === page)?.title ?? 'Cookie Browser';
+};
+
+export const isFilterablePage = (page: InternalPage): boolean => {
+  return INTERNAL_PAGES.some((info) => info.page === page && info.filterable);
+};
+
+// The error page shown in place of a page that failed to load, or whose
+// renderer crashed (crashed carries the reason)
+export const getErrorPageUrl = (
+  url: string,
+  error: { code: number; description: string } | { crashed: string },
+): string => {
+  const params = new URLSearchParams({ url });
+  if ('crashed' in error) {
+    params.set('crashed', error.crashed);
+  } else {
+    params.set('code', String(error.code));
+    params.set('description', error.description);
+  }
+  return `cookie://error?${params}`;
+};
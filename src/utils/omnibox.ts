@@ -0,0 +1,215 @@
+import type { Tab } from '../components/TabBar';
+import type { HistoryRecord } from '../types/electron.d.ts';
+import { listBookmarks, loadBookmarks } from './bookmarks';
+import { INTERNAL_PAGES } from './internalPages';
+import { findKeywordSearch } from './searchEngines';
+
+export type SuggestionType = 'search' | 'history' | 'bookmark' | 'tab' | 'internal';
+
+export interface Suggestion {
+  type: SuggestionType;
+  url: string;
+  title: string;
+  score: number;
+  tabId?: string;
+}
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+interface SuggestionContext {
+  tabs: Tab[];
+  activeTabId: string;
+  // History records matching the query, from findHistoryMatches
+  history: HistoryRecord[];
+}
+
+const MAX_SUGGESTIONS = 8;
+// History records considered for each query
+const MAX_HISTORY_MATCHES = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Flat bonuses so bookmarks, open tabs and internal pages can compete with
+// URLs that have built up a lot of visits
+const BOOKMARK_BONUS = 140;
+const TAB_BONUS = 120;
+const INTERNAL_PAGE_SCORE = 60;
+
+// History lives in the main process, which searches it by word
+export const findHistoryMatches = async (query: string): Promise<HistoryRecord[]> => {
+  if (!query.trim() || !window.electronAPI) return [];
+  return window.electronAPI.queryHistory({ text: query, limit: MAX_HISTORY_MATCHES });
+};
+
+// Drop the scheme and a leading "www." so "git" matches "https://www.github.com"
+export const stripUrl = (url: string): string => {
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/^www\./i, '');
+};
+
+const splitTerms = (query: string): string[] => {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+};
+
+// Visit weights by age, loosely following Firefox's frecency buckets
+const recencyWeight = (age: number): number => {
+  if (age < 4 * DAY) return 100;
+  if (age < 14 * DAY) return 70;
+  if (age < 31 * DAY) return 50;
+  if (age < 90 * DAY) return 30;
+  return 10;
+};
+
+// Frecency: every visit counts, recent visits count for more
+export const frecency = (visits: number[], now: number = Date.now()): number => {
+  return visits.reduce((score, visitedAt) => score + recencyWeight(now - visitedAt), 0);
+};
+
+// How well the query matches, or 0 when some term is missing entirely.
+// Typing the start of a host beats a title word, which beats any substring.
+const matchQuality = (query: string, title: string, url: string): number => {
+  const terms = splitTerms(query);
+  const lowerTitle = title.toLowerCase();
+  const lowerUrl = url.toLowerCase();
+
+  if (terms.length === 0) return 0;
+  if (!terms.every((term) => lowerTitle.includes(term) || lowerUrl.includes(term))) {
+    return 0;
+  }
+
+  if (stripUrl(lowerUrl).startsWith(query.trim().toLowerCase())) return 4;
+  if (lowerTitle.split(/\W+/).some((word) => word.startsWith(terms[0]))) return 2;
+  return 1;
+};
+
+interface Candidate {
+  url: string;
+  title: string;
+  visits: number[];
+  bookmarked: boolean;
+}
+
+export const getSuggestions = (query: string, { tabs, activeTabId, history }: SuggestionContext): Suggestion[] => {
+  if (!query.trim()) return [];
+
+  // Fold every visit and bookmark into one candidate per URL
+  const candidates = new Map<string, Candidate>();
+  const getCandidate = (url: string, title: string) => {
+    let candidate = candidates.get(url);
+    if (!candidate) {
+      candidate = { url, title, visits: [], bookmarked: false };
+      candidates.set(url, candidate);
+    }
+    return candidate;
+  };
+
+  for (const record of history) {
+    getCandidate(record.url, record.title).visits.push(...record.visits.map((visit) => visit.visitedAt));
+  }
+  for (const { bookmark } of listBookmarks(loadBookmarks())) {
+    const candidate = getCandidate(bookmark.url, bookmark.title);
+    candidate.title = bookmark.title;
+    candidate.bookmarked = true;
+  }
+
+  const now = Date.now();
+  const suggestions: Suggestion[] = [];
+
+  for (const candidate of candidates.values()) {
+    const quality = matchQuality(query, candidate.title, candidate.url);
+    if (!quality) continue;
+    const base = frecency(candidate.visits, now) + (candidate.bookmarked ? BOOKMARK_BONUS : 0);
+    suggestions.push({
+      type: candidate.bookmarked ? 'bookmark' : 'history',
+      url: candidate.url,
+      title: candidate.title,
+      score: base * quality,
+    });
+  }
+
+  for (const tab of tabs) {
+    if (tab.id === activeTabId) continue;
+    const quality = matchQuality(query, tab.title, tab.url);
+    if (!quality) continue;
+    const visits = candidates.get(tab.url)?.visits ?? [];
+    suggestions.push({
+      type: 'tab',
+      url: tab.url,
+      title: tab.title,
+      score: (frecency(visits, now) + TAB_BONUS) * quality,
+      tabId: tab.id,
+    });
+  }
+
+  for (const info of INTERNAL_PAGES) {
+    if (info.hidden) continue;
+    const quality = matchQuality(query, info.title, info.url);
+    if (!quality) continue;
+    suggestions.push({
+      type: 'internal',
+      url: info.url,
+      title: info.title,
+      score: INTERNAL_PAGE_SCORE * quality,
+    });
+  }
+
+  const ranked = suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+
+  // A keyword search always leads, so it's clear which engine will be used
+  const keywordSearch = findKeywordSearch(query);
+  if (keywordSearch) {
+    ranked.unshift({
+      type: 'search',
+      url: keywordSearch.url,
+      title: `Search ${keywordSearch.engine.name} for "${keywordSearch.query}"`,
+      score: Infinity,
+    });
+  }
+
+  return ranked;
+};
+
+// Completes the typed text to the best matching host, e.g. "git" becomes
+// "github.com". Once the text has a path, whole URLs are completed instead.
+export const getInlineCompletion = (input: string, suggestions: Suggestion[]): string | null => {
+  const typed = input.toLowerCase();
+  if (!typed || /\s/.test(typed)) return null;
+
+  for (const suggestion of suggestions) {
+    const stripped = stripUrl(suggestion.url);
+    const candidate = typed.includes('/') ? stripped : stripped.split('/')[0];
+    if (candidate.toLowerCase().startsWith(typed) && candidate.length > typed.length) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+// Ranges of text matched by any query term, merged and in order
+export const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const lowerText = text.toLowerCase();
+  const ranges: MatchRange[] = [];
+
+  for (const term of splitTerms(query)) {
+    let index = lowerText.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lowerText.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: MatchRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,19 @@
+// Find in page on internal pages filters their lists instead of highlighting
+// text, since those pages are React components and not web contents
+
+export interface PageFilter {
+  query: string;
+  matchCase: boolean;
+}
+
+export const EMPTY_FILTER: PageFilter = { query: '', matchCase: false };
+
+// Whether any of the fields contains the query; an empty query matches all
+export const matchesFilter = (filter: PageFilter | undefined, ...fields: string[]): boolean => {
+  if (!filter?.query) return true;
+  if (filter.matchCase) {
+    return fields.some((field) => field.includes(filter.query));
+  }
+  const query = filter.query.toLowerCase();
+  return fields.some((field) => field.toLowerCase().includes(query));
+};
@@ -0,0 +1,25 @@
+import type { PermissionDecision, PermissionKind } from '../types/electron.d.ts';
+
+export const PERMISSION_LABELS: Record<PermissionKind, { emoji: string; label: string }> = {
+  camera: { emoji: '📷', label: 'Camera' },
+  microphone: { emoji: '🎙️', label: 'Microphone' },
+  geolocation: { emoji: '📍', label: 'Location' },
+  notifications: { emoji: '🔔', label: 'Notifications' },
+  clipboard: { emoji: '📋', label: 'Clipboard' },
+  fullscreen: { emoji: '🖥️', label: 'Full screen' },
+  popups: { emoji: '🪟', label: 'Pop-ups' },
+};
+
+export const DECISION_LABELS: Record<PermissionDecision, string> = {
+  allow: 'Allow',
+  block: 'Block',
+  ask: 'Ask every time',
+};
+
+// "camera and microphone", for prompt text
+export const describePermissions = (kinds: PermissionKind[]): string => {
+  const labels = kinds.map((kind) => PERMISSION_LABELS[kind].label.toLowerCase());
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`
+    : labels[0];
+};
@@ -0,0 +1,3 @@
+// Whether this renderer belongs to a private window. Private windows browse
+// in an in-memory session, and skip history and session restore writes.
+export const isPrivateWindow = Boolean(window.electronAPI?.isPrivate);
@@ -0,0 +1,75 @@
+import { classifyInput } from '../../electron/urlInput';
+import { DEFAULT_SEARCH_ENGINES, loadSettings } from './settings';
+
+export interface SearchEngine {
+  id: string;
+  name: string;
+  // Typing "<keyword> <query>" searches with this engine
+  keyword: string;
+  // Search URL with %s where the query goes
+  urlTemplate: string;
+  builtIn?: boolean;
+}
+
+export interface SearchIntent {
+  engine: SearchEngine;
+  query: string;
+  url: string;
+}
+
+export const isValidUrlTemplate = (template: string): boolean => {
+  if (!template.includes('%s')) return false;
+  try {
+    const url = new URL(template.replace(/%s/g, 'test'));
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+};
+
+export const buildSearchUrl = (engine: SearchEngine, query: string): string => {
+  return engine.urlTemplate.replace(/%s/g, encodeURIComponent(query));
+};
+
+export const getSearchEngines = (): SearchEngine[] => {
+  return loadSettings().searchEngines;
+};
+
+export const getDefaultSearchEngine = (): SearchEngine => {
+  const { searchEngines, defaultSearchEngineId } = loadSettings();
+  return searchEngines.find((engine) => engine.id === defaultSearchEngineId)
+    ?? searchEngines[0]
+    ?? DEFAULT_SEARCH_ENGINES[0];
+};
+
+// "gh react hooks" searches GitHub for "react hooks"
+export const findKeywordSearch = (input: string): SearchIntent | null => {
+  const match = input.trim().match(/^(\S+)\s+(.+)$/);
+  if (!match) return null;
+
+  const [, keyword, query] = match;
+  const engine = getSearchEngines().find(
+    (candidate) => candidate.keyword.toLowerCase() === keyword.toLowerCase()
+  );
+  if (!engine) return null;
+
+  return { engine, query, url: buildSearchUrl(engine, query) };
+};
+
+export const createSearchIntent = (query: string): SearchIntent => {
+  const engine = getDefaultSearchEngine();
+  return { engine, query, url: buildSearchUrl(engine, query) };
+};
+
+// What typed text in the URL bar or new tab search box should load: the
+// normalized URL when it is one, otherwise a search with the chosen engine
+export const resolveInput = (input: string): string => {
+  const keywordSearch = findKeywordSearch(input);
+  if (keywordSearch) return keywordSearch.url;
+
+  const classified = classifyInput(input);
+  if (classified.kind === 'search') {
+    return createSearchIntent(classified.query).url;
+  }
+  return classified.url;
+};
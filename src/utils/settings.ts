@@ -0,0 +1,46 @@
+import type { SearchEngine } from './searchEngines';
+
+export type ThemeId = 'pink' | 'lavender' | 'mint' | 'golden';
+
+export type StartupBehavior = 'newtab' | 'restore';
+
+export interface Settings {
+  theme: ThemeId;
+  startupBehavior: StartupBehavior;
+  searchEngines: SearchEngine[];
+  defaultSearchEngineId: string;
+}
+
+const STORAGE_KEY = 'cookie-settings';
+
+export const DEFAULT_SEARCH_ENGINES: SearchEngine[] = [
+  { id: 'google', name: 'Google', keyword: 'g', urlTemplate: 'https://www.google.com/search?q=%s', builtIn: true },
+  { id: 'duckduckgo', name: 'DuckDuckGo', keyword: 'ddg', urlTemplate: 'https://duckduckgo.com/?q=%s', builtIn: true },
+  { id: 'bing', name: 'Bing', keyword: 'b', urlTemplate: 'https://www.bing.com/search?q=%s', builtIn: true },
+  { id: 'wikipedia', name: 'Wikipedia', keyword: 'w', urlTemplate: 'https://en.wikipedia.org/wiki/Special:Search?search=%s', builtIn: true },
+  { id: 'github', name: 'GitHub', keyword: 'gh', urlTemplate: 'https://github.com/search?q=%s', builtIn: true },
+];
+
+export const defaultSettings: Settings = {
+  theme: 'pink',
+  startupBehavior: 'newtab',
+  searchEngines: DEFAULT_SEARCH_ENGINES,
+  defaultSearchEngineId: 'google',
+};
+
+// Settings saved by older versions lack newer keys, so merge over the defaults
+export const loadSettings = (): Settings => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      return { ...defaultSettings, ...JSON.parse(stored) };
+    } catch (e) {
+      console.error('Failed to parse settings:', e);
+    }
+  }
+  return defaultSettings;
+};
+
+export const saveSettings = (settings: Settings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
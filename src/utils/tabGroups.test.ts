@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { Tab } from '../components/TabBar';
+import { createTabGroup, groupTabs, placeTab, TAB_GROUP_COLORS, ungroupTabs } from './tabGroups';
+
+// "a" is a plain tab, "a:g" one in group g and "a!" a pinned one
+const tab = (spec: string): Tab => {
+  const [id, groupId] = spec.replace('!', '').split(':');
+  return { id, title: id, url: `https://${id}.com/`, groupId, pinned: spec.endsWith('!') || undefined };
+};
+
+const tabs = (...specs: string[]) => specs.map(tab);
+
+const describeTabs = (list: Tab[]) =>
+  list.map((t) => `${t.id}${t.groupId ? `:${t.groupId}` : ''}${t.pinned ? '!' : ''}`);
+
+describe('createTabGroup', () => {
+  it('gives every group an id of its own, even when made at once', () => {
+    const ids = new Set(Array.from({ length: 50 }, () => createTabGroup([]).id));
+    expect(ids.size).toBe(50);
+  });
+
+  it('takes the palette colors in turn', () => {
+    const first = createTabGroup([]);
+    const second = createTabGroup([first]);
+    expect([first.color, second.color]).toEqual(TAB_GROUP_COLORS.slice(0, 2));
+    expect(createTabGroup(Array(TAB_GROUP_COLORS.length).fill(first)).color).toBe(TAB_GROUP_COLORS[0]);
+  });
+});
+
+describe('groupTabs', () => {
+  it('starts a new group where its first tab was', () => {
+    expect(describeTabs(groupTabs(tabs('a', 'b', 'c', 'd'), ['b', 'd'], 'g'))).toEqual(['a', 'b:g', 'd:g', 'c']);
+  });
+
+  it('adds tabs after the last tab of an existing group', () => {
+    expect(describeTabs(groupTabs(tabs('a', 'b:g', 'c:g', 'd', 'e'), ['a', 'e'], 'g')))
+      .toEqual(['b:g', 'c:g', 'a:g', 'e:g', 'd']);
+  });
+
+  it('moves tabs between groups', () => {
+    expect(describeTabs(groupTabs(tabs('a:h', 'b:h', 'c:g'), ['a'], 'g'))).toEqual(['b:h', 'c:g', 'a:g']);
+  });
+
+  it('never lands a new group in the middle of another one', () => {
+    expect(describeTabs(groupTabs(tabs('a', 'b:h', 'c:h', 'd:h', 'e'), ['c', 'e'], 'g')))
+      .toEqual(['a', 'b:h', 'd:h', 'c:g', 'e:g']);
+  });
+
+  it('leaves pinned tabs out', () => {
+    expect(describeTabs(groupTabs(tabs('a!', 'b'), ['a', 'b'], 'g'))).toEqual(['a!', 'b:g']);
+    const pinnedOnly = tabs('a!', 'b');
+    expect(groupTabs(pinnedOnly, ['a'], 'g')).toBe(pinnedOnly);
+  });
+});
+
+describe('ungroupTabs', () => {
+  it('places tabs just after what is left of their group', () => {
+    expect(describeTabs(ungroupTabs(tabs('a:g', 'b:g', 'c:g', 'd'), ['a']))).toEqual(['b:g', 'c:g', 'a', 'd']);
+  });
+
+  it('keeps the order of tabs leaving the same group', () => {
+    expect(describeTabs(ungroupTabs(tabs('a:g', 'b:g', 'c:g', 'd'), ['a', 'b']))).toEqual(['c:g', 'a', 'b', 'd']);
+  });
+
+  it('leaves a tab in place when its whole group goes', () => {
+    expect(describeTabs(ungroupTabs(tabs('x', 'a:g', 'b:g', 'y'), ['a', 'b']))).toEqual(['x', 'a', 'b', 'y']);
+  });
+
+  it('ignores tabs that are not grouped', () => {
+    expect(describeTabs(ungroupTabs(tabs('a', 'b:g'), ['a']))).toEqual(['a', 'b:g']);
+  });
+});
+
+describe('placeTab', () => {
+  it('inserts a tab at an index', () => {
+    expect(describeTabs(placeTab(tabs('a', 'b'), tab('n'), 1))).toEqual(['a', 'n', 'b']);
+  });
+
+  it('keeps unpinned tabs after the pinned ones, and pinned ones before', () => {
+    expect(describeTabs(placeTab(tabs('a!', 'b!', 'c'), tab('n'), 0))).toEqual(['a!', 'b!', 'n', 'c']);
+    expect(describeTabs(placeTab(tabs('a!', 'b', 'c'), tab('n!'), 3))).toEqual(['a!', 'n!', 'b', 'c']);
+  });
+
+  it('keeps a grouped tab among its group', () => {
+    expect(describeTabs(placeTab(tabs('a', 'b:g', 'c:g', 'd'), tab('n:g'), 0))).toEqual(['a', 'n:g', 'b:g', 'c:g', 'd']);
+    expect(describeTabs(placeTab(tabs('a', 'b:g', 'c:g', 'd'), tab('n:g'), 4))).toEqual(['a', 'b:g', 'c:g', 'n:g', 'd']);
+  });
+
+  it('has a tab landing inside another group join it', () => {
+    expect(describeTabs(placeTab(tabs('a:g', 'b:g'), tab('n'), 1))).toEqual(['a:g', 'n:g', 'b:g']);
+    expect(describeTabs(placeTab(tabs('a:g', 'b:g'), tab('n:h'), 1))).toEqual(['a:g', 'n:g', 'b:g']);
+  });
+
+  it('leaves a tab at a group edge out of the group', () => {
+    expect(describeTabs(placeTab(tabs('a:g', 'b:g', 'c'), tab('n'), 2))).toEqual(['a:g', 'b:g', 'n', 'c']);
+    expect(describeTabs(placeTab(tabs('a', 'b:g'), tab('n'), 1))).toEqual(['a', 'n', 'b:g']);
+  });
+});
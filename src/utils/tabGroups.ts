@@ -0,0 +1,85 @@
+import type { Tab, TabGroup } from '../components/TabBar';
+import type { TabGroupColor } from '../types/electron.d.ts';
+import { addNode, createBookmarkId, loadBookmarks, ROOT_FOLDER_ID, saveBookmarks, type BookmarkFolder } from './bookmarks';
+import { parseInternalUrl } from './internalPages';
+
+// Tab groups keep their tabs next to each other in the tab bar, so every
+// change to which group a tab is in also moves it to the group's edge.
+
+export const TAB_GROUP_COLORS: TabGroupColor[] = ['pink', 'lavender', 'mint', 'golden'];
+
+// New groups take the palette's colors in turn
+export const createTabGroup = (groups: TabGroup[]): TabGroup => ({
+  id: crypto.randomUUID(),
+  name: '',
+  color: TAB_GROUP_COLORS[groups.length % TAB_GROUP_COLORS.length],
+  collapsed: false,
+});
+
+// Insert a tab at an index, kept on its own side of the pinned tabs, which
+// always come first. Groups stay in one piece: a grouped tab is kept among
+// its group's tabs, and a tab landing inside another group joins it.
+export const placeTab = (tabs: Tab[], tab: Tab, index: number): Tab[] => {
+  const pinnedCount = tabs.filter((t) => t.pinned).length;
+  let clamped = tab.pinned ? Math.min(index, pinnedCount) : Math.max(index, pinnedCount);
+
+  const groupStart = tab.groupId ? tabs.findIndex((t) => t.groupId === tab.groupId) : -1;
+  if (groupStart !== -1) {
+    const groupEnd = tabs.map((t) => t.groupId).lastIndexOf(tab.groupId) + 1;
+    clamped = Math.min(Math.max(clamped, groupStart), groupEnd);
+  }
+  const before = tabs[clamped - 1];
+  const placed = before?.groupId && before.groupId === tabs[clamped]?.groupId
+    ? { ...tab, groupId: before.groupId }
+    : tab;
+  return [...tabs.slice(0, clamped), placed, ...tabs.slice(clamped)];
+};
+
+// Move tabs into a group: after its last tab, or for a new group where the
+// first of them was. Pinned tabs can't be grouped.
+export const groupTabs = (tabs: Tab[], tabIds: string[], groupId: string): Tab[] => {
+  const moving = tabs.filter((tab) => tabIds.includes(tab.id) && !tab.pinned);
+  if (moving.length === 0) return tabs;
+
+  const rest = tabs.filter((tab) => !moving.includes(tab));
+  const lastInGroup = rest.map((tab) => tab.groupId).lastIndexOf(groupId);
+  let index = lastInGroup !== -1 ? lastInGroup + 1 : tabs.indexOf(moving[0]);
+  // Not in the middle of another group
+  while (index > 0 && index < rest.length && rest[index].groupId && rest[index].groupId === rest[index - 1].groupId) {
+    index++;
+  }
+  return [...rest.slice(0, index), ...moving.map((tab) => ({ ...tab, groupId })), ...rest.slice(index)];
+};
+
+// Take tabs out of their groups, placing them just after what's left of each
+// group. Rightmost first, so tabs leaving the same group keep their order.
+export const ungroupTabs = (tabs: Tab[], tabIds: string[]): Tab[] =>
+  [...tabs].reverse().filter((tab) => tabIds.includes(tab.id)).reduce((result, tab) => {
+    if (!tab.groupId) return result;
+    const rest = result.filter((t) => t.id !== tab.id);
+    const lastInGroup = rest.map((t) => t.groupId).lastIndexOf(tab.groupId);
+    const index = lastInGroup !== -1 ? lastInGroup + 1 : result.findIndex((t) => t.id === tab.id);
+    return [...rest.slice(0, index), { ...tab, groupId: undefined }, ...rest.slice(index)];
+  }, tabs);
+
+// The group's web pages become a folder at the top of the bookmarks
+export const saveGroupAsBookmarks = (group: TabGroup, tabs: Tab[]) => {
+  const createdAt = Date.now();
+  const folder: BookmarkFolder = {
+    type: 'folder',
+    id: createBookmarkId(),
+    title: group.name || 'Tab Group',
+    children: tabs
+      .filter((tab) => tab.groupId === group.id && !parseInternalUrl(tab.url))
+      .map((tab) => ({
+        type: 'bookmark',
+        id: createBookmarkId(),
+        title: tab.title || tab.url,
+        url: tab.url,
+        tags: [],
+        createdAt,
+      })),
+    createdAt,
+  };
+  saveBookmarks(addNode(loadBookmarks(), ROOT_FOLDER_ID, folder));
+};